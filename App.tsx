@@ -1,12 +1,17 @@
 import React, { useState, useCallback, ErrorInfo, ReactNode, useEffect, useRef } from 'react';
-import GameCanvas from './components/GameCanvas';
+import GameCanvas, { GameCanvasHandle } from './components/GameCanvas';
 import HUD from './components/ui/HUD';
 import IntroScreen from './components/ui/IntroScreen';
 import SettingsMenu from './components/ui/SettingsMenu';
+import SaveLoadMenu from './components/ui/SaveLoadMenu';
+import PauseMap from './components/ui/PauseMap';
 import CustomCursor from './components/ui/CustomCursor';
-import { GameState, GameSettings } from './types';
+import { GameState, GameSettings, Penalty } from './types';
 import { generateMission } from './services/geminiService';
 import { audioManager } from './utils/audio';
+import { randomSeed } from './utils/random';
+import { createSave, readSave, writeSave, SaveFile } from './services/saveGame';
+import { loadSettings, saveSettings } from './services/settings';
 
 interface ErrorBoundaryProps {
   children?: ReactNode;
@@ -56,35 +61,41 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
   }
 }
 
-const DEFAULT_SETTINGS: GameSettings = {
-    audio: { master: 0.3, music: 0.8, sfx: 0.75 },
-    graphics: {
-        resolution: '1920x1080',
-        quality: 'High',
-        vsync: true,
-        ambientOcclusion: true,
-        bloom: true
-    },
-    gameplay: {
-        sensitivity: 50,
-        invertY: false,
-        showHud: true
-    }
+// How the player went down, by DamageCause (or 'busted')
+const CAUSE_TEXT: Record<string, string> = {
+    bullet: 'Shot dead',
+    melee: 'Beaten to death',
+    drowning: 'Drowned',
+    bounds: 'Lost at sea',
+    vehicle: 'Killed in a crash',
+    explosion: 'Blown up',
+    fall: 'Fell to your death',
+    busted: 'Arrested by the police'
 };
 
-const WastedScreen: React.FC = () => (
-    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 animate-in fade-in duration-500">
+const WastedScreen: React.FC<{ title: string; penalty?: Penalty | null }> = ({ title, penalty }) => (
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/80 animate-in fade-in duration-500">
         <h1 
             className="text-8xl md:text-9xl font-black text-transparent bg-clip-text bg-gradient-to-b from-gray-300 to-gray-600 tracking-tighter drop-shadow-lg scale-110 animate-pulse"
             style={{ fontFamily: 'Impact, sans-serif', textShadow: '0 0 20px rgba(255,0,0,0.5)' }}
         >
-            WASTED
+            {title}
         </h1>
+        {penalty && (
+            <div className="mt-8 text-center font-bold uppercase tracking-widest text-gray-300 space-y-1">
+                <p className="text-xl text-white">{CAUSE_TEXT[penalty.cause] ?? 'Wasted'}</p>
+                {penalty.fee > 0 && (
+                    <p className="text-red-400">{penalty.cause === 'busted' ? 'Bail' : 'Hospital bill'} -${penalty.fee.toLocaleString()}</p>
+                )}
+                {penalty.confiscated.length > 0 && (
+                    <p className="text-red-400">Confiscated: {penalty.confiscated.join(', ')}</p>
+                )}
+            </div>
+        )}
     </div>
 );
 
-const App: React.FC = () => {
-  const [hudState, setHudState] = useState<Partial<GameState>>({
+const INITIAL_HUD_STATE: Partial<GameState> = {
     money: 0,
     timeOfDay: 720,
     wantedLevel: 0,
@@ -92,25 +103,42 @@ const App: React.FC = () => {
     mission: null,
     player: { health: 100 } as any,
     meleeCombo: 0
-  });
+};
+
+const App: React.FC = () => {
+  const [hudState, setHudState] = useState<Partial<GameState>>(INITIAL_HUD_STATE);
  
   const [intro, setIntro] = useState(true);
+  const [worldSeed, setWorldSeed] = useState<number>(() => randomSeed());
+  // Bumped on every new game so GameCanvas remounts and regenerates, even for a repeated seed
+  const [session, setSession] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
-  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
+  const [saveMenu, setSaveMenu] = useState<'save' | 'load' | null>(null);
+  const [showMap, setShowMap] = useState(false);
+  const [loadedSave, setLoadedSave] = useState<SaveFile | null>(null);
+  const gameRef = useRef<GameCanvasHandle | null>(null);
+  const [settings, setSettings] = useState<GameSettings>(() => loadSettings());
   const [renderError, setRenderError] = useState<string | null>(null);
   
   // Use ref to access current intro state inside event listener without re-binding
   const introRef = useRef(intro);
   useEffect(() => { introRef.current = intro; }, [intro]);
+  const saveMenuRef = useRef(saveMenu);
+  useEffect(() => { saveMenuRef.current = saveMenu; }, [saveMenu]);
+  const showSettingsRef = useRef(showSettings);
+  useEffect(() => { showSettingsRef.current = showSettings; }, [showSettings]);
+  const showMapRef = useRef(showMap);
+  useEffect(() => { showMapRef.current = showMap; }, [showMap]);
+  const isWastedRef = useRef(false);
 
   // Handle class for hiding system cursor globally when custom one is active
   useEffect(() => {
-    if (intro || showSettings) {
+    if (intro || showSettings || saveMenu) {
         document.body.classList.add('custom-cursor-active');
     } else {
         document.body.classList.remove('custom-cursor-active');
     }
-  }, [intro, showSettings]);
+  }, [intro, showSettings, saveMenu]);
 
   // Apply settings to Audio System immediately when they change
   useEffect(() => {
@@ -121,7 +149,38 @@ const App: React.FC = () => {
 
   const handleApplySettings = (newSettings: GameSettings) => {
       setSettings(newSettings);
+      saveSettings(newSettings);
+      setShowSettings(false);
+  };
+
+  const handleNewGame = (seed: number) => {
+      setLoadedSave(null);
+      setShowMap(false);
+      setWorldSeed(seed);
+      setSession(prev => prev + 1);
+      setHudState(INITIAL_HUD_STATE);
+      setShowSettings(false);
+      setIntro(false);
+  };
+
+  // Errors propagate to SaveLoadMenu, which reports them in place
+  const handleSaveToSlot = (slot: number) => {
+      const game = gameRef.current;
+      if (!game) throw new Error('No game in progress');
+      writeSave(createSave(slot, game.getState(), game.captureThumbnail()));
+  };
+
+  const handleLoadSlot = (slot: number) => {
+      const save = readSave(slot);
+      if (!save) throw new Error('Save data is missing or corrupted');
+      setLoadedSave(save);
+      setWorldSeed(save.state.seed);
+      setSession(prev => prev + 1);
+      setHudState(INITIAL_HUD_STATE);
+      setSaveMenu(null);
       setShowSettings(false);
+      setShowMap(false);
+      setIntro(false);
   };
 
   const handleUpdateState = useCallback((newState: Partial<GameState>) => {
@@ -129,20 +188,24 @@ const App: React.FC = () => {
   }, []);
 
   const handleMissionTrigger = async () => {
-    try {
-      const missionData: any = await generateMission();
+    const game = gameRef.current;
+    if (game?.getState().mission) {
+      setHudState(prev => ({ ...prev, dialogue: { speaker: 'Anonymous Contact', text: 'Finish the job you already have first.' } }));
+      setTimeout(() => setHudState(prev => ({ ...prev, dialogue: null })), 4000);
+      return;
+    }
 
-      const title = String(missionData?.title ?? missionData?.name ?? 'Untitled Mission');
-      const description = String(missionData?.description ?? missionData?.summary ?? '');
+    try {
+      const { id, title, description } = await generateMission();
 
       setHudState(prev => ({
           ...prev,
           dialogue: { 
               speaker: 'Anonymous Contact', 
               text: `Check your phone. Mission: ${title}. ${description}` 
-          },
-          mission: title
+          }
       }));
+      gameRef.current?.startMission(id);
 
       setTimeout(() => {
           setHudState(prev => ({ ...prev, dialogue: null }));
@@ -160,6 +223,14 @@ const App: React.FC = () => {
   useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
           if (e.key === 'Escape') {
+              if (saveMenuRef.current) {
+                  setSaveMenu(null);
+                  return;
+              }
+              if (showMapRef.current) {
+                  setShowMap(false);
+                  return;
+              }
               if (!introRef.current) {
                   setShowSettings(prev => {
                       const willShow = !prev;
@@ -176,12 +247,28 @@ const App: React.FC = () => {
           }
       };
       
+      const handleMapKey = (e: KeyboardEvent) => {
+          if (e.key !== 'm' && e.key !== 'M') return;
+          if (introRef.current || showSettingsRef.current || saveMenuRef.current || isWastedRef.current) return;
+          setShowMap(prev => {
+              audioManager.playUI('click');
+              if (!prev && document.pointerLockElement) document.exitPointerLock();
+              return !prev;
+          });
+      };
+
       // Use capture to ensure we get the event before other listeners might stop it
       window.addEventListener('keydown', handleKeyDown, true);
-      return () => window.removeEventListener('keydown', handleKeyDown, true);
+      window.addEventListener('keydown', handleMapKey);
+      return () => {
+          window.removeEventListener('keydown', handleKeyDown, true);
+          window.removeEventListener('keydown', handleMapKey);
+      };
   }, []);
 
-  const isWasted = hudState.player?.state === 'dead';
+  const isBusted = hudState.player?.state === 'busted';
+  const isWasted = hudState.player?.state === 'dead' || isBusted;
+  isWastedRef.current = isWasted;
 
   // Debug: Log state
   useEffect(() => {
@@ -207,30 +294,53 @@ const App: React.FC = () => {
   return (
     <ErrorBoundary>
       <div className="relative w-full h-screen bg-black overflow-hidden select-none font-sans" style={{ width: '100vw', height: '100vh' }}>
-        {(intro || showSettings) && <CustomCursor />}
+        {(intro || showSettings || saveMenu) && <CustomCursor />}
 
-        {isWasted && <WastedScreen />}
+        {isWasted && <WastedScreen title={isBusted ? 'BUSTED' : 'WASTED'} penalty={hudState.penalty} />}
 
         {!intro && (
           <GameCanvas 
+            key={session}
+            seed={worldSeed}
+            save={loadedSave}
+            handleRef={gameRef}
             onUpdateState={handleUpdateState} 
             onMissionTrigger={handleMissionTrigger}
-            isMenuOpen={showSettings || intro}
+            isMenuOpen={showSettings || intro || showMap}
+            isPaused={showMap}
             settings={settings}
           />
         )}
         
-        {!intro && !showSettings && !isWasted && settings.gameplay.showHud && (
-             <HUD state={hudState} onMissionClick={handleMissionTrigger} />
+        {showMap && !intro && <PauseMap game={gameRef} onClose={() => setShowMap(false)} />}
+
+        {!intro && !showSettings && !showMap && !isWasted && settings.gameplay.showHud && (
+             <HUD state={hudState} onMissionClick={handleMissionTrigger} game={gameRef} />
         )}
 
-        {intro && <IntroScreen onStart={() => setIntro(false)} />}
+        {intro && (
+            <IntroScreen 
+                onStart={(seed) => handleNewGame(seed ?? randomSeed())} 
+                onLoad={() => setSaveMenu('load')}
+            />
+        )}
         
         {showSettings && (
             <SettingsMenu 
                 onClose={() => setShowSettings(false)} 
                 currentSettings={settings}
                 onApply={handleApplySettings}
+                seed={worldSeed}
+                onNewGame={handleNewGame}
+                onSaveGame={() => setSaveMenu('save')}
+            />
+        )}
+
+        {saveMenu && (
+            <SaveLoadMenu 
+                mode={saveMenu}
+                onClose={() => setSaveMenu(null)}
+                onSelect={saveMenu === 'save' ? handleSaveToSlot : handleLoadSlot}
             />
         )}
       </div>
@@ -0,0 +1,60 @@
+import React, { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+
+interface FrameLimiterProps {
+    fps: number;     // 0 = uncapped
+    vsync: boolean;
+}
+
+// Canvas frameloop to use for these settings; anything but plain vsync is driven by <FrameLimiter />
+export const getFrameloop = (fps: number, vsync: boolean): 'always' | 'never' =>
+    vsync && fps === 0 ? 'always' : 'never';
+
+/**
+ * Drives an R3F canvas whose frameloop is 'never'.
+ * With vsync, frames stay on requestAnimationFrame and are skipped until the cap interval has passed;
+ * without it, frames are scheduled on timers so they are not tied to the display refresh.
+ */
+const FrameLimiter: React.FC<FrameLimiterProps> = ({ fps, vsync }) => {
+    const advance = useThree(state => state.advance);
+    const frameloop = useThree(state => state.frameloop);
+
+    useEffect(() => {
+        if (frameloop !== 'never') return;
+
+        const interval = fps > 0 ? 1000 / fps : 0;
+        let last = performance.now();
+        let handle = 0;
+        let stopped = false;
+
+        const tick = (now: number) => {
+            if (stopped) return;
+            // 1ms slack so a cap equal to the refresh rate doesn't drop every other frame
+            if (now - last >= interval - 1) {
+                last = now;
+                advance(now / 1000); // R3F takes the timestamp in seconds
+            }
+            schedule();
+        };
+
+        const schedule = () => {
+            if (vsync) {
+                handle = requestAnimationFrame(tick);
+            } else {
+                const wait = Math.max(0, interval - (performance.now() - last));
+                handle = window.setTimeout(() => tick(performance.now()), wait);
+            }
+        };
+
+        schedule();
+        return () => {
+            stopped = true;
+            if (vsync) cancelAnimationFrame(handle);
+            else clearTimeout(handle);
+        };
+    }, [fps, vsync, frameloop, advance]);
+
+    return null;
+};
+
+export default FrameLimiter;
@@ -2,11 +2,14 @@ import React, { useRef, useEffect, useState, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { KeyboardControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { EntityType, GameState, WeaponType, GameSettings } from '../types';
-import { generateWorld, SPAWN_COORDS } from '../utils/worldGen';
+import { EntityType, GameState, GameSettings } from '../types';
+import { createGameState } from '../simulation/Simulation';
+import { deserializeGameState, SaveFile } from '../services/saveGame';
+import { getSpatialIndex } from '../utils/spatialGrid';
 import { generateNpcDialogue } from '../services/geminiService';
-import { TILE_SIZE } from '../constants';
+import { getRenderScale } from '../services/settings';
 import GameScene from './GameScene';
+import FrameLimiter, { getFrameloop } from './FrameLimiter';
 import Loader from './ui/Loader';
 
 // --- CONTROLS CONFIG ---
@@ -16,93 +19,102 @@ const KEYBOARD_MAP = [
     { name: 'left', keys: ['ArrowLeft', 'a', 'A'] },
     { name: 'right', keys: ['ArrowRight', 'd', 'D'] },
     { name: 'jump', keys: ['Space'] },
+    { name: 'sprint', keys: ['Shift'] },
+    { name: 'walk', keys: ['c', 'C'] },
     { name: 'view', keys: ['v', 'V'] }
 ];
 
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 90;
+
+// Lets App reach the live game for saving without lifting the simulation state into React
+export interface GameCanvasHandle {
+  getState: () => GameState;
+  getCameraYaw: () => number; // Same convention as Entity.rotation.y
+  captureThumbnail: () => string | null;
+  startMission: (id: string) => void; // Picked up by the next simulation step
+  selectWeapon: (weapon: string) => void; // Likewise, e.g. from the weapon wheel
+}
+
 interface GameCanvasProps {
   onUpdateState: (state: Partial<GameState>) => void;
   onMissionTrigger: () => void;
   isMenuOpen: boolean;
+  isPaused: boolean;
   settings: GameSettings;
+  seed: number;
+  save?: SaveFile | null;
+  handleRef?: React.MutableRefObject<GameCanvasHandle | null>;
 }
 
-const GameCanvas = ({ onUpdateState, onMissionTrigger, isMenuOpen, settings }: GameCanvasProps) => {
-  const stateRef = useRef<GameState>({
-    player: {
-      id: 'player',
-      type: EntityType.PLAYER,
-      // Initialize player at the safe spawn road intersection
-      pos: { x: SPAWN_COORDS.x * TILE_SIZE, y: 0.5, z: SPAWN_COORDS.z * TILE_SIZE },
-      vel: { x: 0, y: 0, z: 0 },
-      rotation: { x: 0, y: 0, z: 0 },
-      health: 100,
-      maxHealth: 100,
-      color: '#fff',
-      size: { x: 0.8, y: 1.8, z: 0.8 },
-      state: 'idle',
-      inventory: [WeaponType.FIST],
-      faction: 'groves'
-    },
-    entities: [],
-    map: { width: 0, height: 0, tileSize: 0, tiles: [], elevations: [] },
-    timeOfDay: 720,
-    money: 350,
-    wantedLevel: 0,
-    dialogue: null,
-    mission: null,
-    paused: false
-  });
+const GameCanvas: React.FC<GameCanvasProps> = ({ onUpdateState, onMissionTrigger, isMenuOpen, isPaused, settings, seed, save, handleRef }) => {
+  // World is generated (or restored) once per mount; App remounts GameCanvas for a new game or load
+  const stateRef = useRef<GameState>(null!);
+  if (!stateRef.current) stateRef.current = save ? deserializeGameState(save.state) : createGameState(seed);
+
+  const glRef = useRef<{ gl: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera } | null>(null);
+  const missionRequest = useRef<string | null>(null);
+  const weaponRequest = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!handleRef) return;
+    handleRef.current = {
+        getState: () => stateRef.current,
+        getCameraYaw: () => {
+            const camera = glRef.current?.camera;
+            if (!camera) return stateRef.current.player.rotation.y;
+            const dir = camera.getWorldDirection(new THREE.Vector3());
+            return Math.atan2(dir.x, dir.z);
+        },
+        captureThumbnail: () => {
+            const three = glRef.current;
+            if (!three) return null;
+            try {
+                // Re-render first: the drawing buffer is not preserved between frames
+                three.gl.render(three.scene, three.camera);
+                const canvas = document.createElement('canvas');
+                canvas.width = THUMBNAIL_WIDTH;
+                canvas.height = THUMBNAIL_HEIGHT;
+                canvas.getContext('2d')?.drawImage(three.gl.domElement, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+                return canvas.toDataURL('image/jpeg', 0.7);
+            } catch (err) {
+                console.warn('Could not capture save thumbnail', err);
+                return null;
+            }
+        },
+        startMission: (id) => { missionRequest.current = id; },
+        selectWeapon: (weapon) => { weaponRequest.current = weapon; }
+    };
+    return () => { handleRef.current = null; };
+  }, [handleRef]);
   
   const [sceneReady, setSceneReady] = useState(false);
 
   useEffect(() => {
-    // Initial World Generation
-    const { map, entities } = generateWorld();
-    stateRef.current.map = map;
-    stateRef.current.entities = entities;
-    
-    // Debug: Log building count
-    const buildingCount = entities.filter(e => e.type === EntityType.BUILDING).length;
-    console.log(`Generated ${buildingCount} buildings out of ${entities.length} total entities`);
-    
-    onUpdateState({ player: stateRef.current.player });
+    const initial = stateRef.current;
+    onUpdateState({
+        player: initial.player,
+        seed: initial.seed,
+        money: initial.money,
+        wantedLevel: initial.wantedLevel,
+        timeOfDay: initial.timeOfDay,
+        mission: initial.mission
+    });
     
     // Simulate short delay for UI stability
     setTimeout(() => setSceneReady(true), 100);
 
-    // Global Key Handlers (Interactions outside of movement)
+    // Global Key Handlers (Interactions outside of the simulation)
     const handleKeyDown = async (e: KeyboardEvent) => {
         const state = stateRef.current;
         const player = state.player;
 
         if (player.state === 'entering_vehicle' || player.state === 'exiting_vehicle') return;
 
-        // F: Enter/Exit Vehicle
-        if (e.key === 'f' || e.key === 'F') {
-            if (player.vehicleId) {
-                 const car = state.entities.find(ent => ent.id === player.vehicleId);
-                 if (car) {
-                     player.state = 'exiting_vehicle';
-                     player.vehicleId = null;
-                     car.vehicleId = null;
-                     
-                     const doorOffset = new THREE.Vector3(-1.2, 0, 0).applyAxisAngle(new THREE.Vector3(0,1,0), car.rotation.y);
-                     player.pos = { x: car.pos.x + doorOffset.x, y: car.pos.y, z: car.pos.z + doorOffset.z };
-                     
-                     const awayOffset = new THREE.Vector3(-3.0, 0, 0).applyAxisAngle(new THREE.Vector3(0,1,0), car.rotation.y);
-                     player.targetPos = { x: car.pos.x + awayOffset.x, y: car.pos.y, z: car.pos.z + awayOffset.z };
-                 }
-            } else {
-                 const car = state.entities.find(ent => ent.type === EntityType.VEHICLE && Math.sqrt((player.pos.x - ent.pos.x)**2 + (player.pos.z - ent.pos.z)**2) < 5);
-                 if (car) { 
-                     player.state = 'entering_vehicle';
-                     player.targetEntityId = car.id;
-                 }
-            }
-        }
         // T: Talk to NPC
         if (e.key === 't' || e.key === 'T') {
-            const nearby = state.entities.find(ent => (ent.type === EntityType.CIVILIAN || ent.type === EntityType.GANG_MEMBER) && Math.sqrt((player.pos.x - ent.pos.x)**2 + (player.pos.z - ent.pos.z)**2) < 5);
+            const nearby = getSpatialIndex(state).queryRadius(player.pos.x, player.pos.z, 5)
+                .find(ent => ent.type === EntityType.CIVILIAN || ent.type === EntityType.GANG_MEMBER);
             if (nearby) {
                  onUpdateState({ dialogue: { speaker: nearby.faction || 'Stranger', text: '...' } });
                  const text = await generateNpcDialogue(nearby.faction || 'civilian', 'Approached on street', 'Player waved');
@@ -119,22 +131,23 @@ const GameCanvas = ({ onUpdateState, onMissionTrigger, isMenuOpen, settings }: G
     };
   }, []);
 
-  // Map Quality to DPR (Device Pixel Ratio)
-  const getDpr = () => {
-      switch(settings.graphics.quality) {
-          case 'Low': return 0.6;
-          case 'Medium': return 0.8;
-          case 'High': return 1.0;
-          case 'Ultra': return 1.5;
-          default: return 1.0;
-      }
-  };
+  // Render scale follows the viewport so the drawing buffer keeps the chosen resolution
+  const [viewportHeight, setViewportHeight] = useState(() => window.innerHeight);
+  useEffect(() => {
+    const handleResize = () => setViewportHeight(window.innerHeight);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const { vsync, frameCap } = settings.graphics;
 
   return (
     <Canvas 
         shadows 
-        dpr={getDpr()}
+        dpr={getRenderScale(settings, viewportHeight)}
+        frameloop={getFrameloop(frameCap, vsync)}
         camera={{ position: [0, 10, 15], fov: 60 }} 
+        onCreated={({ gl, scene, camera }) => { glRef.current = { gl, scene, camera }; }}
         style={{ 
             background: '#0f172a', 
             position: 'absolute', 
@@ -152,6 +165,7 @@ const GameCanvas = ({ onUpdateState, onMissionTrigger, isMenuOpen, settings }: G
             powerPreference: "high-performance"
         }}
     >
+        <FrameLimiter fps={frameCap} vsync={vsync} />
         <KeyboardControls map={KEYBOARD_MAP}>
             <Suspense fallback={<Loader />}>
                 {sceneReady && (
@@ -159,7 +173,10 @@ const GameCanvas = ({ onUpdateState, onMissionTrigger, isMenuOpen, settings }: G
                         stateRef={stateRef} 
                         onUpdateState={onUpdateState} 
                         isMenuOpen={isMenuOpen} 
+                        isPaused={isPaused}
                         settings={settings}
+                        missionRequest={missionRequest}
+                        weaponRequest={weaponRequest}
                     />
                 )}
                 {!sceneReady && <Loader />}
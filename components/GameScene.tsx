@@ -1,34 +1,54 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
 import { useKeyboardControls } from '@react-three/drei';
-import * as THREE from 'three';
-import { EntityType, GameState, Vector3, WeaponType, Entity, TileType, GameSettings } from '../types';
-import { TIME_SPEED, PLAYER_ACCEL, PLAYER_FRICTION, PLAYER_MAX_SPEED, VEHICLE_ACCEL, VEHICLE_BRAKE, VEHICLE_FRICTION, VEHICLE_STEER_SPEED, VEHICLE_MAX_SPEED, TILE_SIZE } from '../constants';
-import { SPAWN_COORDS } from '../utils/worldGen';
-import { damp } from '../utils/math';
-import { checkCollision } from '../utils/physics';
+import { EntityType, GameState, TileType, GameSettings } from '../types';
+import { TILE_SIZE } from '../constants';
+import { step } from '../simulation/Simulation';
+import { SimEvent, SimInput } from '../simulation/types';
+import { isNightTime } from '../simulation/systems/time';
+import { lateralSlip, SKID_SLIP } from '../simulation/systems/vehicles';
+import { describeObjective } from '../simulation/systems/missions';
+import { getLocationName } from '../utils/districts';
+import { getWeaponDef, WEAPONS } from '../simulation/weapons';
+import { vehicleDefOf } from '../simulation/vehicleClasses';
 
 import Environment from './world/Environment';
 import CityMap from './world/CityMap';
 import Lighting from './world/Lighting';
+import Impacts, { Impact } from './world/Impacts';
+import Explosions, { Blast } from './world/Explosions';
+import SkidMarks from './world/SkidMarks';
 import Building from './entities/Building';
 import Vehicle from './entities/Vehicle';
 import Character from './entities/Character';
 import WorldProp from './entities/WorldProp';
 import Projectile from './entities/Projectile';
+import Pickup from './entities/Pickup';
 
 import { useBuildingTextures } from '../hooks/useProceduralTextures';
 import { useGameCamera } from '../hooks/useGameCamera';
 import { audioManager } from '../utils/audio';
 
+const IMPACT_HEARING = 40; // Metres from the player at which bullet hits fall silent
+const BLAST_HEARING = 150;
+const MAX_STEP = 0.1; // Seconds simulated per frame at most, so a stall or a hidden tab doesn't fling things through walls
+
 interface GameSceneProps {
     stateRef: React.MutableRefObject<GameState>;
     onUpdateState: (state: Partial<GameState>) => void;
     isMenuOpen: boolean;
+    isPaused: boolean;
     settings: GameSettings;
+    missionRequest: React.MutableRefObject<string | null>;
+    weaponRequest: React.MutableRefObject<string | null>;
 }
 
-const GameScene: React.FC<GameSceneProps> = ({ stateRef, onUpdateState, isMenuOpen, settings }) => {
+// One-shot actions captured from DOM events, consumed by the next simulation step
+type PendingActions = Pick<SimInput, 'attack' | 'interact' | 'horn' | 'reload' | 'switchWeapon' | 'selectWeapon'>;
+
+const NO_ACTIONS: PendingActions = { attack: false, interact: false, horn: false, reload: false, switchWeapon: 0, selectWeapon: null };
+
+const GameScene: React.FC<GameSceneProps> = ({ stateRef, onUpdateState, isMenuOpen, isPaused, settings, missionRequest, weaponRequest }) => {
     const { gl } = useThree();
     const [sub, getKeys] = useKeyboardControls();
     const [isNight, setIsNight] = useState(false);
@@ -42,12 +62,18 @@ const GameScene: React.FC<GameSceneProps> = ({ stateRef, onUpdateState, isMenuOp
     // Hooks
     const { camRotation } = useGameCamera(stateRef, sub, settings);
 
-    const lastShootTime = useRef(0);
+    const pending = useRef<PendingActions>({ ...NO_ACTIONS });
+    const triggerHeld = useRef(false);
     const lastStepTime = useRef(0);
     const wasDrifting = useRef(false);
-    
-    // Death Handling
-    const isWasted = useRef(false);
+    const missionHud = useRef('');
+    const warHud = useRef('');
+    const vitalsHud = useRef('');
+    const resultTimer = useRef<ReturnType<typeof setTimeout>>();
+    const impacts = useRef<Impact[]>([]);
+    const blasts = useRef<Blast[]>([]);
+
+    const isWasted = () => stateRef.current.player.state === 'dead' || stateRef.current.player.state === 'busted';
 
     // Initial Audio & Music Setup
     useEffect(() => {
@@ -57,13 +83,14 @@ const GameScene: React.FC<GameSceneProps> = ({ stateRef, onUpdateState, isMenuOp
         
         return () => {
              audioManager.setMusic('none');
+             clearTimeout(resultTimer.current);
         }
     }, []);
 
     useEffect(() => {
         const onMouseDown = (e: MouseEvent) => {
              // CRITICAL: Do not request pointer lock if menu is open
-             if (isMenuOpen || isWasted.current) return;
+             if (isMenuOpen || isWasted()) return;
 
              if (document.pointerLockElement !== gl.domElement) {
                  const promise = gl.domElement.requestPointerLock() as unknown as Promise<void>;
@@ -72,208 +99,232 @@ const GameScene: React.FC<GameSceneProps> = ({ stateRef, onUpdateState, isMenuOp
                  }
                  return;
              }
-             handleAttack();
+             pending.current.attack = true;
+             triggerHeld.current = true;
+        };
+        const onMouseUp = () => { triggerHeld.current = false; };
+
+        // Scroll through the weapons carried; only while playing, so menus can still scroll
+        const onWheel = (e: WheelEvent) => {
+             if (isMenuOpen || isWasted() || document.pointerLockElement !== gl.domElement || !e.deltaY) return;
+             pending.current.switchWeapon += Math.sign(e.deltaY);
         };
 
         const onKeyDown = (e: KeyboardEvent) => {
-             if (isWasted.current) return;
-             // Horn
-             if ((e.key === 'h' || e.key === 'H') && stateRef.current.player.vehicleId) {
-                 audioManager.playHorn();
-             }
+             if (isMenuOpen || isWasted()) return;
+             if (e.key === 'f' || e.key === 'F') pending.current.interact = true; // Enter/Exit Vehicle
+             if (e.key === 'h' || e.key === 'H') pending.current.horn = true;
+             if (e.key === 'r' || e.key === 'R') pending.current.reload = true;
+             if (e.key === 'q' || e.key === 'Q') pending.current.switchWeapon -= 1;
+             if (e.key === 'e' || e.key === 'E') pending.current.switchWeapon += 1;
+             // Number keys pick a weapon by its wheel slot
+             const slot = Object.values(WEAPONS).find(w => w.slot === Number(e.key) - 1);
+             if (slot) pending.current.selectWeapon = slot.type;
         };
 
         // Attach listener to document to catch clicks anywhere, but we filter with isMenuOpen
         document.addEventListener('mousedown', onMouseDown);
+        document.addEventListener('mouseup', onMouseUp);
+        document.addEventListener('wheel', onWheel);
         window.addEventListener('keydown', onKeyDown);
         return () => { 
             document.removeEventListener('mousedown', onMouseDown); 
+            document.removeEventListener('mouseup', onMouseUp);
+            document.removeEventListener('wheel', onWheel);
             window.removeEventListener('keydown', onKeyDown);
         };
     }, [gl.domElement, isMenuOpen]); // Re-bind if menu state changes
 
-    // Melee combo tracking
-    const meleeComboCount = useRef(0);
-    const lastMeleeTime = useRef(0);
-    const meleeComboResetTime = 1000; // Reset combo after 1 second
-
-    const handleAttack = () => {
+    // Translate simulation events into audio, HUD updates and re-renders
+    const handleEvents = (events: SimEvent[]) => {
         const s = stateRef.current;
-        const player = s.player;
-        if (player.state === 'driving' || player.state === 'dead') return;
-
-        const now = performance.now();
-        const weapon = player.inventory?.[0] || WeaponType.FIST;
-
-        if (weapon !== WeaponType.FIST) {
-            // Ranged weapon logic
-            if (now - lastShootTime.current < 200) return; // Fire rate limit
-            lastShootTime.current = now;
-
-            audioManager.playShot(); // SFX
-             
-            // Combat music trigger logic could go here (e.g. if shots fired near cops)
-            if (s.wantedLevel === 0) {
-                s.wantedLevel = 1; // Instant wanted level for shooting
-                onUpdateState({ wantedLevel: 1 });
-            }
-
-            const yaw = player.rotation.y;
-            const dir = new THREE.Vector3(Math.sin(yaw), 0, Math.cos(yaw)).normalize();
-            const spawnPos = new THREE.Vector3(player.pos.x, 1.5, player.pos.z).add(dir.multiplyScalar(0.5));
-             
-            const bullet: Entity = {
-                id: Math.random().toString(36),
-                type: EntityType.PROJECTILE,
-                pos: { x: spawnPos.x, y: spawnPos.y, z: spawnPos.z },
-                vel: { x: dir.x * 40, y: 0, z: dir.z * 40 },
-                size: { x: 0.1, y: 0.1, z: 0.1 },
-                color: 'yellow',
-                health: 1,
-                maxHealth: 1,
-                rotation: { x:0, y:0, z:0 },
-                state: 'idle'
-            };
-             
-            s.entities.push(bullet);
-            setTick(t => t + 1);
-        } else {
-            // FIST BUMP / MELEE ATTACK
-            const meleeCooldown = 400; // Faster than ranged
-            if (now - lastShootTime.current < meleeCooldown) return;
-            
-            // Reset combo if too much time passed
-            if (now - lastMeleeTime.current > meleeComboResetTime) {
-                meleeComboCount.current = 0;
-                onUpdateState({ meleeCombo: 0 });
-            }
-            
-            lastShootTime.current = now;
-            lastMeleeTime.current = now;
-            meleeComboCount.current = (meleeComboCount.current + 1) % 4; // 0-3 combo hits
-            
-            // Play punch sound
-            audioManager.playUI('punch');
-            
-            // Melee attack range and damage (balanced for GTA-style gameplay)
-            const attackRange = 2.5;
-            const baseDamage = 8; // Reduced from 15 for better balance
-            const comboMultiplier = 1 + (meleeComboCount.current * 0.25); // 1x, 1.25x, 1.5x, 1.75x (slightly reduced)
-            const damage = Math.floor(baseDamage * comboMultiplier);
-            
-            const yaw = player.rotation.y;
-            const attackDir = new THREE.Vector3(Math.sin(yaw), 0, Math.cos(yaw)).normalize();
-            const attackPos = new THREE.Vector3(player.pos.x, player.pos.y + 1.2, player.pos.z);
-            
-            // Check for nearby entities to hit
-            let hitSomething = false;
-            for (const target of s.entities) {
-                if (target.id === player.id || target.state === 'dead') continue;
-                if (target.type === EntityType.PROJECTILE || target.type === EntityType.ITEM_WEAPON) continue;
-                if (target.type === EntityType.BUILDING || target.type === EntityType.PROP) continue;
-                
-                const dx = target.pos.x - attackPos.x;
-                const dz = target.pos.z - attackPos.z;
-                const dist = Math.sqrt(dx*dx + dz*dz);
-                
-                // Check if target is in front of player and within range
-                const toTarget = new THREE.Vector3(dx, 0, dz).normalize();
-                const dot = attackDir.dot(toTarget);
-                
-                if (dist < attackRange && dot > 0.5) { // 60 degree cone in front
-                    hitSomething = true;
-                    
-                    // Apply damage
-                    target.health -= damage;
-                    if (target.health <= 0) {
-                        target.state = 'dead';
-                        target.health = 0;
-                        // Drop money or items on death
-                        if (target.type === EntityType.CIVILIAN || target.type === EntityType.GANG_MEMBER) {
-                            s.money += Math.floor(Math.random() * 50) + 20;
-                        }
+        let entitiesChanged = false;
+        let hudChanged = false;
+
+        for (const ev of events) {
+            switch (ev.type) {
+                case 'shot':
+                    audioManager.playShot(getWeaponDef(ev.weapon).sound);
+                    if (ev.shooterId === s.player.id) hudChanged = true; // Ammo counter
+                    break;
+                case 'impact': {
+                    impacts.current.push({ pos: ev.pos, material: ev.material, age: 0 });
+                    const dist = Math.hypot(ev.pos.x - s.player.pos.x, ev.pos.z - s.player.pos.z);
+                    audioManager.playImpact(ev.material, 1 - dist / IMPACT_HEARING);
+                    break;
+                }
+                case 'explosion': {
+                    blasts.current.push({ pos: ev.pos, age: 0 });
+                    const dist = Math.hypot(ev.pos.x - s.player.pos.x, ev.pos.z - s.player.pos.z);
+                    audioManager.playExplosion(1 - dist / BLAST_HEARING);
+                    break;
+                }
+                case 'splash':
+                    audioManager.playSplash(ev.kind);
+                    break;
+                case 'landed':
+                    if (ev.hurt) {
+                        audioManager.playUI('punch');
+                        hudChanged = true; // Health bar
+                    } else {
+                        audioManager.playStep();
                     }
-                    
-                    // Knockback effect
-                    const knockbackForce = 8 * comboMultiplier;
-                    target.vel.x += attackDir.x * knockbackForce;
-                    target.vel.z += attackDir.z * knockbackForce;
-                    
-                    // Update wanted level if hitting civilians/police
-                    if (target.type === EntityType.CIVILIAN || target.type === EntityType.POLICE) {
-                        if (s.wantedLevel < 2) {
-                            s.wantedLevel = 2;
-                            onUpdateState({ wantedLevel: 2 });
+                    break;
+                case 'reloadStarted':
+                    audioManager.playReload();
+                    if (ev.entityId === s.player.id) hudChanged = true;
+                    break;
+                case 'reloaded':
+                    if (ev.entityId === s.player.id) hudChanged = true;
+                    break;
+                case 'dryFire':
+                    if (ev.entityId === s.player.id) audioManager.playUI('click');
+                    break;
+                case 'weaponSwitched':
+                    audioManager.playUI('click');
+                    hudChanged = true;
+                    entitiesChanged = true; // The gun in the player's hand is part of the React tree
+                    break;
+                case 'punch':
+                    audioManager.playUI('punch');
+                    onUpdateState({ meleeCombo: ev.combo + 1 });
+                    hudChanged = true;
+                    break;
+                case 'pickup':
+                    audioManager.playReload();
+                    hudChanged = true;
+                    break;
+                case 'vehicleEntered':
+                    audioManager.playUI('click'); // Door sound shim
+                    break;
+                case 'carjacked':
+                    audioManager.playUI('punch');
+                    break;
+                case 'horn':
+                    audioManager.playHorn();
+                    break;
+                case 'waypointReached':
+                case 'checkpoint':
+                    audioManager.playUI('mission');
+                    break;
+                case 'missionStarted':
+                    audioManager.playUI('mission');
+                    clearTimeout(resultTimer.current);
+                    onUpdateState({ missionResult: null });
+                    break;
+                case 'missionPassed':
+                case 'missionFailed':
+                    audioManager.playUI(ev.type === 'missionPassed' ? 'mission' : 'punch');
+                    onUpdateState({
+                        missionResult: ev.type === 'missionPassed'
+                            ? { passed: true, title: ev.title, text: `$${ev.reward.toLocaleString()}` }
+                            : { passed: false, title: ev.title, text: ev.reason }
+                    });
+                    clearTimeout(resultTimer.current);
+                    resultTimer.current = setTimeout(() => onUpdateState({ missionResult: null }), 5000);
+                    break;
+                case 'gangWarStarted':
+                case 'gangWarWave':
+                    audioManager.playUI('mission');
+                    break;
+                case 'gangWarEnded': {
+                    audioManager.playUI(ev.won ? 'mission' : 'punch');
+                    const turf = s.turf.find(t => t.id === ev.territoryId);
+                    const place = turf ? getLocationName({ x: (turf.minX + turf.maxX) / 2 * TILE_SIZE, y: 0, z: (turf.minZ + turf.maxZ) / 2 * TILE_SIZE }, s.map) : '';
+                    onUpdateState({
+                        missionResult: {
+                            passed: ev.won,
+                            title: 'Gang War',
+                            heading: ev.won ? 'Territory Taken!' : 'Gang War Lost!',
+                            text: place
                         }
-                    }
-                    
-                    onUpdateState({ 
-                        player: { ...player },
-                        entities: [...s.entities],
-                        money: s.money
                     });
-                    break; // Only hit one target per punch
+                    clearTimeout(resultTimer.current);
+                    resultTimer.current = setTimeout(() => onUpdateState({ missionResult: null }), 5000);
+                    break;
                 }
-            }
-            
-                    // Set player to punching state briefly
-            player.state = 'punching';
-            setTimeout(() => {
-                if (player.state === 'punching') {
-                    player.state = 'idle';
-                    onUpdateState({ player: { ...player } });
-                }
-            }, 200);
-            
-            // Update combo in state for HUD
-            onUpdateState({ 
-                player: { ...player },
-                meleeCombo: meleeComboCount.current + 1
-            });
-            
-            // Visual feedback
-            if (hitSomething) {
-                console.log(`Punch hit! Combo: ${meleeComboCount.current + 1}, Damage: ${damage}`);
+                case 'damaged':
+                    if (ev.targetId === s.player.id) hudChanged = true;
+                    break;
+                case 'wantedChanged':
+                case 'moneyChanged':
+                case 'playerDied':
+                case 'playerBusted':
+                case 'playerRespawned':
+                    hudChanged = true;
+                    break;
+                case 'searchChanged':
+                    onUpdateState({ pursuit: { ...s.pursuit } });
+                    break;
+                case 'entitiesChanged':
+                    entitiesChanged = true;
+                    break;
             }
         }
-    };
 
-    const handleDeath = () => {
-        if (isWasted.current) return;
-        isWasted.current = true;
-        const s = stateRef.current;
-        s.player.state = 'dead';
-        onUpdateState({ player: { ...s.player } }); // Trigger UI update in App.tsx to show Wasted screen
-        
-        // Respawn Logic
-        setTimeout(() => {
-            s.player.health = 100;
-            s.player.state = 'idle';
-            s.player.pos = { x: SPAWN_COORDS.x * TILE_SIZE, y: 0.5, z: SPAWN_COORDS.z * TILE_SIZE };
-            s.player.vel = { x: 0, y: 0, z: 0 };
-            s.player.vehicleId = null; // Eject if in car
-            s.wantedLevel = 0;
-            isWasted.current = false;
-            onUpdateState({ player: { ...s.player }, wantedLevel: 0 });
-        }, 4000); // 4 seconds wasted screen
+        if (entitiesChanged) setTick(t => t + 1);
+        if (hudChanged) onUpdateState({ player: { ...s.player }, money: s.money, wantedLevel: s.wantedLevel, penalty: s.penalty });
+
+        // Objective text and countdown only reach React when what the HUD shows changes
+        const objective = describeObjective(s.mission);
+        const missionKey = objective ? `${s.mission!.index}:${objective.text}:${Math.ceil(objective.timeLeft ?? 0)}` : '';
+        if (missionKey !== missionHud.current) {
+            missionHud.current = missionKey;
+            onUpdateState({ mission: s.mission ? { ...s.mission } : null });
+        }
+
+        // Same for the gang war banner: only when the wave or head count changes
+        const warKey = s.gangWar ? `${s.gangWar.wave}:${s.gangWar.remaining}` : '';
+        if (warKey !== warHud.current) {
+            warHud.current = warKey;
+            onUpdateState({ gangWar: s.gangWar ? { ...s.gangWar } : null });
+        }
+
+        // The breath meter moves in steps of a fifth of a second, stamina in whole points
+        const breath = s.player.breath === undefined ? '' : Math.ceil(s.player.breath * 5);
+        const vitalsKey = `${breath}:${Math.ceil(s.player.stamina ?? 0)}:${Math.floor(s.player.maxStamina ?? 0)}`;
+        if (vitalsKey !== vitalsHud.current) {
+            vitalsHud.current = vitalsKey;
+            onUpdateState({ player: { ...s.player } });
+        }
     };
 
     // --- GAME LOOP ---
     useFrame((state, delta) => {
         const s = stateRef.current;
-        const player = s.player;
-        
-        if (isWasted.current) return; // Stop physics updates when dead
-
+        s.paused = isPaused;
+        if (s.paused) {
+            audioManager.updateEngine(0, false);
+            return;
+        }
         const keys = getKeys();
 
-        // 1. Time & Environment (Improved day/night cycle)
-        s.timeOfDay += TIME_SPEED * delta * 60; // Scale by delta for consistent speed
-        if (s.timeOfDay >= 1440) s.timeOfDay = 0;
-        
-        // Better day/night detection with smoother transitions
-        // Dawn: 5:00-7:00 (300-420), Day: 7:00-19:00 (420-1140), Dusk: 19:00-21:00 (1140-1260), Night: 21:00-5:00 (1260-300)
-        const currentIsNight = s.timeOfDay >= 1260 || s.timeOfDay < 420;
+        const input: SimInput = {
+            forward: keys.forward,
+            backward: keys.backward,
+            left: keys.left,
+            right: keys.right,
+            jump: keys.jump,
+            sprint: keys.sprint,
+            walk: keys.walk,
+            handbrake: keys.jump,
+            cameraYaw: camRotation.current.yaw,
+            fire: triggerHeld.current && !isMenuOpen,
+            ...pending.current,
+            selectWeapon: pending.current.selectWeapon ?? weaponRequest.current,
+            startMission: missionRequest.current
+        };
+        pending.current = { ...NO_ACTIONS };
+        missionRequest.current = null;
+        weaponRequest.current = null;
+
+        handleEvents(step(s, input, Math.min(delta, MAX_STEP)));
+        if (isWasted()) return; // No ambience/engine updates behind the wasted screen
+
+        const player = s.player;
+
+        // 1. Time & Environment
+        const currentIsNight = isNightTime(s.timeOfDay);
         if (currentIsNight !== isNight) {
             setIsNight(currentIsNight);
             // Smooth transition notification
@@ -294,213 +345,31 @@ const GameScene: React.FC<GameSceneProps> = ({ stateRef, onUpdateState, isMenuOp
              onUpdateState({ timeOfDay: s.timeOfDay, player: { ...s.player }, money: s.money });
         }
 
-        // 2. Projectile Logic
-        for (let i = s.entities.length - 1; i >= 0; i--) {
-            const e = s.entities[i];
-            if (e.type === EntityType.PROJECTILE) {
-                e.pos.x += e.vel.x * delta;
-                e.pos.z += e.vel.z * delta;
-                
-                let hit = false;
-                for (const target of s.entities) {
-                    if (target.id === e.id || target.type === EntityType.PROJECTILE || target.type === EntityType.ITEM_WEAPON) continue;
-                    if (target.type === EntityType.PLAYER) continue;
-                    
-                    const dx = e.pos.x - target.pos.x;
-                    const dz = e.pos.z - target.pos.z;
-                    if (dx*dx + dz*dz < (target.size.x/2 + 0.5)**2) {
-                        hit = true;
-                        if (target.health > 0) {
-                            target.health -= 25;
-                            if (target.health <= 0) target.state = 'dead';
-                            // SFX Hit?
-                        }
-                        break;
-                    }
-                }
-                
-                const distFromPlayer = (e.pos.x - player.pos.x)**2 + (e.pos.z - player.pos.z)**2;
-                if (hit || distFromPlayer > 10000) {
-                    s.entities.splice(i, 1);
-                    setTick(t => t + 1);
-                }
-            }
-        }
-
-        // 3. Weapon Pickup Logic
-        if (!player.vehicleId) {
-             const pickupRange = 1.5;
-             for (let i = s.entities.length - 1; i >= 0; i--) {
-                 const e = s.entities[i];
-                 if (e.type === EntityType.ITEM_WEAPON) {
-                     const dx = e.pos.x - player.pos.x;
-                     const dz = e.pos.z - player.pos.z;
-                     if (dx*dx + dz*dz < pickupRange * pickupRange) {
-                         const newWeapon = e.inventory?.[0];
-                         if (newWeapon) {
-                             audioManager.playReload(); // SFX
-                             player.inventory = [newWeapon];
-                             s.entities.splice(i, 1);
-                             onUpdateState({ player: { ...player } });
-                             setTick(t => t + 1);
-                         }
-                     }
-                 }
-             }
-        }
-
-        // 4. Physics & Input
-        const playerSpeed = Math.sqrt(player.vel.x**2 + player.vel.z**2);
-
-        // --- DROWNING CHECK ---
-        const tileX = Math.floor(player.pos.x / TILE_SIZE);
-        const tileZ = Math.floor(player.pos.z / TILE_SIZE);
-        // Bounds check
-        if (tileX >= 0 && tileX < s.map.width && tileZ >= 0 && tileZ < s.map.height) {
-            const currentTile = s.map.tiles[tileZ][tileX];
-            
-            if (currentTile === TileType.WATER && !player.vehicleId) {
-                // Sinking effect
-                player.pos.y = damp(player.pos.y, -1.2, 2, delta);
-                // Slow movement in water
-                player.vel.x *= 0.9;
-                player.vel.z *= 0.9;
-                
-                // Drowning Damage
-                player.health -= 25 * delta; // 4 seconds to die
-                onUpdateState({ player: { ...player } });
-
-                if (player.health <= 0) {
-                    handleDeath();
-                    return; // Skip rest of frame
+        // 2. Vehicle & Footstep SFX (derived from simulated motion)
+        const car = player.vehicleId ? s.entities.find(e => e.id === player.vehicleId) : undefined;
+        if (car) {
+             const speed = Math.sqrt(car.vel.x**2 + car.vel.z**2);
+             audioManager.updateEngine(speed, true);
+
+             // Drifting / Skidding Logic
+             if (Math.abs(lateralSlip(car)) > SKID_SLIP && speed > 5 && !vehicleDefOf(car).water) {
+                if (!wasDrifting.current) {
+                    audioManager.playSkid();
+                    wasDrifting.current = true;
                 }
-            } else if (!player.vehicleId) {
-                // Normal Ground Height - Position character so feet touch ground
-                // Character model: root at bottom, hips at 0.94, total height ~1.8
-                // Feet are approximately at root position
-                const groundElevation = s.map.elevations[tileZ][tileX];
-                const groundH = groundElevation + 0.05; // Small offset to ensure feet touch ground
-                player.pos.y = damp(player.pos.y, groundH, 10, delta);
-            }
-        } else {
-             // Out of map bounds - Instant death
-             player.health = 0;
-             handleDeath();
-             return;
-        }
-
-        if (player.state === 'entering_vehicle' && player.targetEntityId) {
-             const car = s.entities.find(e => e.id === player.targetEntityId);
-             if (car) {
-                 const offset = new THREE.Vector3(-1.5, 0, 0).applyAxisAngle(new THREE.Vector3(0,1,0), car.rotation.y);
-                 const targetX = car.pos.x + offset.x;
-                 const targetZ = car.pos.z + offset.z;
-                 const dx = targetX - player.pos.x;
-                 const dz = targetZ - player.pos.z;
-                 const dist = Math.sqrt(dx*dx + dz*dz);
-                 
-                 if (dist < 0.5) {
-                     player.vehicleId = car.id;
-                     car.vehicleId = player.id;
-                     player.state = 'driving';
-                     player.targetEntityId = undefined;
-                     player.vel = {x:0, y:0, z:0};
-                     player.pos = { ...car.pos };
-                     audioManager.playUI('click'); // Door sound shim
-                 } else {
-                     const speed = 6 * delta;
-                     player.pos.x += (dx/dist) * speed;
-                     player.pos.z += (dz/dist) * speed;
-                     player.rotation.y = Math.atan2(dx, dz);
-                     player.vel = { x: (dx/dist)*5, y:0, z: (dz/dist)*5 };
-                 }
-             } else { player.state = 'idle'; }
-        } else if (player.state === 'exiting_vehicle' && player.targetPos) {
-                 const dx = player.targetPos.x - player.pos.x;
-                 const dz = player.targetPos.z - player.pos.z;
-                 const dist = Math.sqrt(dx*dx + dz*dz);
-                 if (dist < 0.2) {
-                     player.state = 'idle';
-                     player.targetPos = undefined;
-                     player.vel = {x:0, y:0, z:0};
-                 } else {
-                     const speed = 4 * delta;
-                     player.pos.x += (dx/dist) * speed;
-                     player.pos.z += (dz/dist) * speed;
-                     player.rotation.y = Math.atan2(dx, dz);
-                     player.vel = { x: (dx/dist)*4, y:0, z: (dz/dist)*4 };
-                 }
-        } else if (player.vehicleId) {
-             const car = s.entities.find(e => e.id === player.vehicleId);
-             if (car) {
-                 const forward = new THREE.Vector3(Math.sin(car.rotation.y), 0, Math.cos(car.rotation.y));
-                 let force = 0;
-                 if (keys.forward) force += VEHICLE_ACCEL;
-                 if (keys.backward) force -= VEHICLE_BRAKE;
-                 
-                 car.vel.x += forward.x * force * delta; car.vel.z += forward.z * force * delta;
-                 car.vel.x -= car.vel.x * VEHICLE_FRICTION * delta; car.vel.z -= car.vel.z * VEHICLE_FRICTION * delta;
-                 
-                 const speed = Math.sqrt(car.vel.x**2 + car.vel.z**2);
-                 // SFX: Engine
-                 audioManager.updateEngine(speed, true);
-
-                 // Drifting / Skidding Logic
-                 const latSpeed = Math.abs(car.vel.x * Math.cos(car.rotation.y) - car.vel.z * Math.sin(car.rotation.y));
-                 if (latSpeed > 2 && speed > 5) {
-                    if (!wasDrifting.current) {
-                        audioManager.playSkid();
-                        wasDrifting.current = true;
-                    }
-                 } else {
-                     wasDrifting.current = false;
-                 }
-
-                 if (speed > 0.5) {
-                     const steer = (keys.left ? 1 : keys.right ? -1 : 0) * VEHICLE_STEER_SPEED * delta;
-                     car.rotation.y += (car.vel.x * forward.x + car.vel.z * forward.z < 0) ? -steer : steer;
-                 }
-                 const nextX = car.pos.x + car.vel.x * delta;
-                 const nextZ = car.pos.z + car.vel.z * delta;
-                 
-                 if (!checkCollision({x:nextX, y:0, z:car.pos.z} as Vector3, car.size, s.entities, car.id)) car.pos.x = nextX; else { car.vel.x *= -0.5; }
-                 if (!checkCollision({x:car.pos.x, y:0, z:nextZ} as Vector3, car.size, s.entities, car.id)) car.pos.z = nextZ; else { car.vel.z *= -0.5; }
-
-                 if (speed > VEHICLE_MAX_SPEED) { const r = VEHICLE_MAX_SPEED/speed; car.vel.x*=r; car.vel.z*=r; }
-                 player.pos = {...car.pos}; player.rotation.y = car.rotation.y;
-             }
-        } else {
-             audioManager.updateEngine(0, false); // Stop Engine SFX
-
-             const moveX = Number(keys.right) - Number(keys.left);
-             const moveZ = Number(keys.backward) - Number(keys.forward);
-             const input = new THREE.Vector3(moveX, 0, moveZ);
-             if (input.lengthSq() > 0) {
-                 input.normalize().applyAxisAngle(new THREE.Vector3(0,1,0), camRotation.current.yaw);
-                 player.vel.x += input.x * PLAYER_ACCEL * delta; player.vel.z += input.z * PLAYER_ACCEL * delta;
-                 const speed = Math.sqrt(player.vel.x**2 + player.vel.z**2);
-                 if (speed > PLAYER_MAX_SPEED) { const r = PLAYER_MAX_SPEED/speed; player.vel.x*=r; player.vel.z*=r; }
-                 const targetRot = Math.atan2(player.vel.x, player.vel.z);
-                 let diff = targetRot - player.rotation.y;
-                 while (diff > Math.PI) diff -= Math.PI*2; while (diff < -Math.PI) diff += Math.PI*2;
-                 player.rotation.y = damp(player.rotation.y, targetRot, 15, delta);
              } else {
-                 const d = Math.exp(-PLAYER_FRICTION * delta); player.vel.x *= d; player.vel.z *= d;
+                 wasDrifting.current = false;
              }
-             const nextX = player.pos.x + player.vel.x * delta;
-             if (!checkCollision({x:nextX, y:0, z:player.pos.z} as Vector3, player.size, s.entities, player.id)) player.pos.x = nextX; else player.vel.x = 0;
-             const nextZ = player.pos.z + player.vel.z * delta;
-             if (!checkCollision({x:player.pos.x, y:0, z:nextZ} as Vector3, player.size, s.entities, player.id)) player.pos.z = nextZ; else player.vel.z = 0;
+        } else if (player.state !== 'entering_vehicle' && player.state !== 'exiting_vehicle') {
+             audioManager.updateEngine(0, false); // Stop Engine SFX
 
-             // SFX: Footsteps
-             if (playerSpeed > 0.5) {
+             const playerSpeed = Math.sqrt(player.vel.x**2 + player.vel.z**2);
+             const onFeet = player.vel.y === 0 && player.state !== 'swimming' && player.state !== 'climbing' && player.state !== 'stumbling';
+             if (playerSpeed > 0.5 && onFeet) {
                 const stepRate = 0.6 / (playerSpeed / 5 + 1);
                 if (state.clock.elapsedTime - lastStepTime.current > stepRate) {
-                    // Check surface
-                    const tileX = Math.floor(player.pos.x / 10);
-                    const tileZ = Math.floor(player.pos.z / 10);
                     // Safe access map tiles
-                    const tileType = s.map.tiles[tileZ]?.[tileX];
+                    const tileType = s.map.tiles[Math.floor(player.pos.z / TILE_SIZE)]?.[Math.floor(player.pos.x / TILE_SIZE)];
                     const surface = (tileType === TileType.GRASS || tileType === TileType.SAND) ? 'grass' : 'road';
                     
                     audioManager.playStep(surface);
@@ -515,13 +384,18 @@ const GameScene: React.FC<GameSceneProps> = ({ stateRef, onUpdateState, isMenuOp
             <Lighting stateRef={stateRef} isNight={isNight} />
             <Environment isNight={isNight} settings={settings} />
             <CityMap map={stateRef.current.map} />
+            <SkidMarks stateRef={stateRef} />
+            <Impacts impacts={impacts} />
+            <Explosions blasts={blasts} />
 
             {stateRef.current.entities.map(e => {
                  if (e.id === stateRef.current.player.vehicleId) return null;
+                 if (e.vehicleId && e.type !== EntityType.VEHICLE) return null; // Passengers ride hidden
                  if (e.type === EntityType.VEHICLE) return <Vehicle key={e.id} entity={e} lightsOn={isNight} stateRef={stateRef} />;
                  if (e.type === EntityType.BUILDING) return <Building key={e.id} entity={e} textures={buildingTextures} isNight={isNight} stateRef={stateRef} />;
                  if (e.type === EntityType.PROP) return <WorldProp key={e.id} entity={e} isNight={isNight} stateRef={stateRef} />;
                  if (e.type === EntityType.PROJECTILE) return <Projectile key={e.id} entity={e} />;
+                 if (e.type === EntityType.ITEM_WEAPON) return <Pickup key={e.id} entity={e} stateRef={stateRef} />;
                  return <Character key={e.id} entity={e} isPlayer={false} stateRef={stateRef} />;
             })}
 
@@ -27,7 +27,7 @@ const Building: React.FC<BuildingProps> = ({ entity, textures, isNight, stateRef
         for(let i=0; i<entity.id.length; i++) h = Math.imul(31, h) + entity.id.charCodeAt(i) | 0;
         const rng = () => { h = Math.imul(48271, h) | 0; return ((h >>> 1) / 2147483648); }
         
-        const isModern = entity.buildingType === 'skyscraper' || entity.buildingType === 'commercial';
+        const isModern = entity.buildingType === 'skyscraper' || entity.buildingType === 'commercial' || entity.buildingType === 'hospital';
         const texSet = isModern ? textures.modern : textures.brick;
 
         return {
@@ -353,6 +353,94 @@ const Building: React.FC<BuildingProps> = ({ entity, textures, isNight, stateRef
                          </mesh>
                     </>
                  )
+            case 'hospital':
+                return (
+                    <>
+                        <mesh position={[0, -halfH - 0.1, 0]} castShadow receiveShadow>
+                            <boxGeometry args={[w + 0.2, 0.2, d + 0.2]} />
+                            <meshStandardMaterial color="#9ca3af" roughness={0.9} />
+                        </mesh>
+
+                        <mesh position={[0, 0, 0]} castShadow receiveShadow material={mainMat}>
+                            <boxGeometry args={[w, h, d]} />
+                        </mesh>
+
+                        {/* Glass Entrance */}
+                        <mesh position={[0, -halfH + 1.4, d/2 + 0.02]}>
+                            <boxGeometry args={[w*0.4, 2.6, 0.04]} />
+                            <meshStandardMaterial color="#bae6fd" emissive={isNight ? "#bae6fd" : "#000000"} emissiveIntensity={isNight ? 0.8 : 0} transparent opacity={0.8} />
+                        </mesh>
+                        {/* Entrance Canopy */}
+                        <mesh position={[0, -halfH + 3, d/2 + 0.9]} castShadow receiveShadow>
+                            <boxGeometry args={[w*0.6, 0.2, 1.8]} />
+                            <meshStandardMaterial color="#f8fafc" roughness={0.5} />
+                        </mesh>
+
+                        {/* Red Cross, lit at night */}
+                        <group position={[0, halfH - 2, d/2 + 0.08]}>
+                            {[[0.6, 2], [2, 0.6]].map(([cw, ch], i) => (
+                                <mesh key={`cross-${i}`}>
+                                    <boxGeometry args={[cw, ch, 0.1]} />
+                                    <meshStandardMaterial color="#dc2626" emissive="#dc2626" emissiveIntensity={isNight ? 2 : 0.2} />
+                                </mesh>
+                            ))}
+                        </group>
+
+                        {/* Helipad */}
+                        <mesh position={[0, halfH + 0.1, 0]} receiveShadow material={roofMat}>
+                            <boxGeometry args={[w, 0.2, d]} />
+                        </mesh>
+                        <mesh position={[0, halfH + 0.21, 0]} rotation={[-Math.PI/2, 0, 0]}>
+                            <ringGeometry args={[w*0.28, w*0.32, 24]} />
+                            <meshStandardMaterial color="#facc15" />
+                        </mesh>
+                    </>
+                );
+            case 'police_station':
+                return (
+                    <>
+                        <mesh position={[0, -halfH - 0.1, 0]} castShadow receiveShadow>
+                            <boxGeometry args={[w + 0.2, 0.2, d + 0.2]} />
+                            <meshStandardMaterial color="#1a1a1a" roughness={0.9} />
+                        </mesh>
+
+                        <mesh position={[0, 0, 0]} castShadow receiveShadow material={mainMat}>
+                            <boxGeometry args={[w, h, d]} />
+                        </mesh>
+
+                        {/* White Band */}
+                        <mesh position={[0, -halfH + 3.5, 0]}>
+                            <boxGeometry args={[w + 0.05, 0.6, d + 0.05]} />
+                            <meshStandardMaterial color="#f8fafc" roughness={0.6} />
+                        </mesh>
+
+                        {/* Double Doors */}
+                        <mesh position={[0, -halfH + 1.2, d/2 + 0.02]} material={detailMat}>
+                            <boxGeometry args={[2, 2.4, 0.06]} />
+                        </mesh>
+                        {/* Blue Lamps Either Side */}
+                        {[-1.5, 1.5].map((x, i) => (
+                            <mesh key={`lamp-${i}`} position={[x, -halfH + 2.6, d/2 + 0.2]}>
+                                <boxGeometry args={[0.4, 0.5, 0.4]} />
+                                <meshStandardMaterial color="#3b82f6" emissive="#3b82f6" emissiveIntensity={isNight ? 2.5 : 0.3} />
+                            </mesh>
+                        ))}
+
+                        {/* Sign Board */}
+                        <mesh position={[0, halfH - 1.5, d/2 + 0.1]} castShadow>
+                            <boxGeometry args={[w*0.7, 1.2, 0.15]} />
+                            <meshStandardMaterial color="#f8fafc" emissive="#f8fafc" emissiveIntensity={isNight ? 1 : 0} />
+                        </mesh>
+
+                        {/* Roof and Radio Mast */}
+                        <mesh position={[0, halfH + 0.1, 0]} castShadow receiveShadow material={roofMat}>
+                            <boxGeometry args={[w, 0.3, d]} />
+                        </mesh>
+                        <mesh position={[-w*0.3, halfH + 2.5, -d*0.3]} castShadow material={detailMat}>
+                            <cylinderGeometry args={[0.08, 0.12, 5, 6]} />
+                        </mesh>
+                    </>
+                );
             default:
                 return (
                     <>
@@ -368,12 +456,14 @@ const Building: React.FC<BuildingProps> = ({ entity, textures, isNight, stateRef
     // Building Y position: entity.pos.y is already set to half height in worldGen
     // This ensures the building center is at half height, so bottom touches ground
     const buildingY = entity.pos.y;
+    const isService = entity.buildingType === 'hospital' || entity.buildingType === 'police_station';
     
     return (
         <group 
             ref={groupRef} 
             position={[entity.pos.x, buildingY, entity.pos.z]}
-            rotation={[0, 0, 0]} // Ensure buildings are upright
+            // Upright, square to the grid; hospitals and police stations turn their entrance to the street
+            rotation={[0, isService ? entity.rotation.y : 0, 0]}
         >
             {renderArchitecture()}
         </group>
@@ -2,6 +2,9 @@ import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Entity, GameState, WeaponType } from '../../types';
+import { getEquipped } from '../../simulation/weapons';
+import { PUNCH_DURATION } from '../../simulation/systems/combat';
+import { PLAYER_MAX_SPEED, PLAYER_SPRINT_SPEED } from '../../constants';
 
 const CULL_DISTANCE = 150;
 
@@ -36,6 +39,8 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
     const rForearmRef = useRef<THREE.Group>(null);
     const rHandRef = useRef<THREE.Group>(null);
 
+    const gaitPhase = useRef(0);
+
     // --- MATERIALS ---
     const materials = useMemo(() => {
         // GTA-style colors - more vibrant and distinct
@@ -99,18 +104,29 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
         const speed = Math.sqrt(entity.vel.x**2 + entity.vel.z**2);
         const isMoving = speed > 0.1;
         const isPunching = entity.state === 'punching';
+        const isCowering = entity.state === 'cowering';
+        const isCarjacking = entity.state === 'carjacking';
+        const isSwimming = entity.state === 'swimming';
+        const isClimbing = entity.state === 'climbing';
+        const isStumbling = entity.state === 'stumbling';
+        const isAirborne = entity.vel.y !== 0 && !isSwimming && !isClimbing;
 
         // Animation Time Bases
         const t = state.clock.elapsedTime;
-        const walkCycle = t * 11;       // Fast frequency for running
+        gaitPhase.current += delta * (5 + speed * 0.75); // Cadence follows speed: a walk at 2.5 m/s, a jog at 8, a sprint at 11
+        const walkCycle = gaitPhase.current;
+        const gait = THREE.MathUtils.clamp(speed / PLAYER_SPRINT_SPEED, 0.25, 1); // Stride, bounce and arm swing scale with it
         const breathCycle = t * 2.5;    // Slow frequency for idle breathing
-        const punchTime = isPunching ? (t % 0.3) : 0; // 0.3 second punch animation
+        const isInCover = !!entity.coverPos && !isMoving;
+        // Timed from the blow itself, so every attacker's swing starts at the beginning
+        const punchProgress = isPunching ? Math.min(1, 1 - (entity.stateTimer ?? 0) / PUNCH_DURATION) : 0;
+        const punchEase = punchProgress < 0.5 ? punchProgress * 2 : 1 - ((punchProgress - 0.5) * 2); // Fast out, back again
 
         // -- Spine / Breathing --
         if (hipsRef.current && spineRef.current && chestRef.current) {
             if (isMoving) {
                 // Run/Walk: Active bouncy movement
-                const bounce = Math.abs(Math.sin(walkCycle)) * 0.06;
+                const bounce = Math.abs(Math.sin(walkCycle)) * 0.06 * gait;
                 hipsRef.current.position.y = 0.94 + bounce;
                 
                 // Counter-rotation for torque
@@ -118,7 +134,8 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
                 hipsRef.current.rotation.y = twist * 0.5;
                 spineRef.current.rotation.y = -twist * 0.3;
                 chestRef.current.rotation.y = -twist * 0.4; // Chest compensates to face forward
-                chestRef.current.rotation.x = 0.05; // Lean forward slightly when running
+                // Lean forward slightly when running, and into a sprint
+                chestRef.current.rotation.x = 0.05 * gait + Math.max(0, speed - PLAYER_MAX_SPEED) * 0.04;
             } else {
                 // Idle: Subtle breathing and weight shift
                 const breathe = Math.sin(breathCycle);
@@ -135,7 +152,7 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
         }
 
         // -- Legs --
-        const stride = 0.8;
+        const stride = 0.8 * gait;
         if (lThighRef.current && lShinRef.current && lFootRef.current) {
             if (isMoving) {
                 const phase = walkCycle;
@@ -165,12 +182,13 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
         }
 
         // -- Arms --
-        const hasWeapon = entity.inventory && entity.inventory[0] !== WeaponType.FIST;
+        const hasWeapon = !getEquipped(entity).melee;
+        const isReloading = entity.reloadTimer !== undefined;
 
         if (lArmRef.current && lForearmRef.current) {
             if (isMoving) {
                 const phase = walkCycle + Math.PI;
-                lArmRef.current.rotation.x = Math.sin(phase) * 0.6;
+                lArmRef.current.rotation.x = Math.sin(phase) * 0.6 * gait;
                 lArmRef.current.rotation.z = 0.1;
                 lForearmRef.current.rotation.x = -0.15 - Math.abs(Math.sin(phase)) * 0.4;
             } else {
@@ -186,15 +204,16 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
         if (rArmRef.current && rForearmRef.current && rHandRef.current) {
             if (isPunching) {
                 // Punch Animation: Quick forward punch
-                const punchProgress = Math.min(punchTime / 0.15, 1); // 0 to 1 over 0.15s
-                const punchEase = punchProgress < 0.5 
-                    ? punchProgress * 2  // Fast forward
-                    : 1 - ((punchProgress - 0.5) * 2); // Slow return
-                
                 rArmRef.current.rotation.x = -0.3 - (punchEase * 1.2); // Extend forward
                 rArmRef.current.rotation.z = -0.2 - (punchEase * 0.3); // Slight outward
                 rForearmRef.current.rotation.x = -0.2 - (punchEase * 0.5);
                 rHandRef.current.rotation.x = punchEase * 0.3; // Fist clench
+            } else if (hasWeapon && isReloading) {
+                // Gun lowered across the body while a fresh magazine goes in
+                rArmRef.current.rotation.x = THREE.MathUtils.lerp(rArmRef.current.rotation.x, -0.7, delta * 10);
+                rArmRef.current.rotation.z = 0.3;
+                rForearmRef.current.rotation.x = -0.9;
+                rHandRef.current.rotation.x = Math.sin(t * 12) * 0.15;
             } else if (hasWeapon) {
                 // Aim Pose - Add subtle breath noise
                 const breathNoise = Math.sin(breathCycle) * 0.005;
@@ -205,7 +224,7 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
             } else {
                 if (isMoving) {
                     const phase = walkCycle;
-                    rArmRef.current.rotation.x = Math.sin(phase) * 0.6;
+                    rArmRef.current.rotation.x = Math.sin(phase) * 0.6 * gait;
                     rArmRef.current.rotation.z = -0.1;
                     rForearmRef.current.rotation.x = -0.15 - Math.abs(Math.sin(phase)) * 0.4;
                 } else {
@@ -220,17 +239,123 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
         
         // Left arm also participates in punch (slight pull back)
         if (lArmRef.current && isPunching) {
-            const punchProgress = Math.min(punchTime / 0.15, 1);
-            const punchEase = punchProgress < 0.5 ? punchProgress * 2 : 1 - ((punchProgress - 0.5) * 2);
             lArmRef.current.rotation.x = 0.1 + (punchEase * 0.3); // Pull back slightly
             lArmRef.current.rotation.z = 0.1;
         }
 
+        // -- Cower: crouched low, head down, arms over the head --
+        if (isCowering && hipsRef.current && chestRef.current && lThighRef.current && rThighRef.current && lShinRef.current && rShinRef.current
+            && lArmRef.current && rArmRef.current && lForearmRef.current && rForearmRef.current) {
+            hipsRef.current.position.y = 0.55 + Math.sin(t * 30) * 0.01; // Trembling
+            chestRef.current.rotation.x = 0.5;
+            lThighRef.current.rotation.x = rThighRef.current.rotation.x = -1.4;
+            lShinRef.current.rotation.x = rShinRef.current.rotation.x = 1.6;
+            lArmRef.current.rotation.x = rArmRef.current.rotation.x = -2.6;
+            lArmRef.current.rotation.z = 0.3;
+            rArmRef.current.rotation.z = -0.3;
+            lForearmRef.current.rotation.x = rForearmRef.current.rotation.x = -1.6;
+        }
+
+        // -- Behind cover: down on one knee, gun kept up --
+        if (isInCover && hipsRef.current && chestRef.current && lThighRef.current && rThighRef.current && lShinRef.current && rShinRef.current) {
+            hipsRef.current.position.y = 0.55;
+            chestRef.current.rotation.x = 0.15;
+            lThighRef.current.rotation.x = -1.4;
+            lShinRef.current.rotation.x = 1.4;
+            rThighRef.current.rotation.x = 0.1;
+            rShinRef.current.rotation.x = 1.5;
+        }
+
+        // -- Carjack: both hands on the door, heaving back in jerks --
+        if (isCarjacking && hipsRef.current && chestRef.current && lArmRef.current && rArmRef.current && lForearmRef.current && rForearmRef.current) {
+            const tug = Math.max(0, Math.sin(t * 14));
+            hipsRef.current.position.y = 0.9;
+            chestRef.current.rotation.x = -0.15 - tug * 0.25;
+            lArmRef.current.rotation.x = rArmRef.current.rotation.x = -1.4 + tug * 0.3;
+            lArmRef.current.rotation.z = 0.15;
+            rArmRef.current.rotation.z = -0.15;
+            lForearmRef.current.rotation.x = rForearmRef.current.rotation.x = -0.3 - tug * 0.4;
+        }
+
+        // -- Whole-body poses. Swim: front crawl when moving, upright treading water when not; the root sits
+        // well below the surface, so the hips are raised to keep the head out. Then lying flat after a bad
+        // fall, hauling up a ledge, and mid-jump --
+        if (hipsRef.current && chestRef.current && lThighRef.current && rThighRef.current && lShinRef.current && rShinRef.current
+            && lArmRef.current && rArmRef.current && lForearmRef.current && rForearmRef.current) {
+            if (isSwimming && isMoving) {
+                const stroke = t * 5;
+                const kick = Math.sin(t * 14) * 0.35;
+                hipsRef.current.position.y = 1.45;
+                hipsRef.current.rotation.x = THREE.MathUtils.lerp(hipsRef.current.rotation.x, 1.35, delta * 6);
+                chestRef.current.rotation.x = -0.1;
+                lThighRef.current.rotation.x = kick;
+                rThighRef.current.rotation.x = -kick;
+                lShinRef.current.rotation.x = rShinRef.current.rotation.x = 0.2;
+                // Arms wheel over, half a turn apart
+                lArmRef.current.rotation.x = -(stroke % (Math.PI * 2));
+                rArmRef.current.rotation.x = -((stroke + Math.PI) % (Math.PI * 2));
+                lArmRef.current.rotation.z = 0.1;
+                rArmRef.current.rotation.z = -0.1;
+                lForearmRef.current.rotation.x = rForearmRef.current.rotation.x = -0.2;
+            } else if (isSwimming) {
+                const scull = Math.sin(t * 3);
+                hipsRef.current.position.y = 0.94 + scull * 0.04;
+                hipsRef.current.rotation.x = THREE.MathUtils.lerp(hipsRef.current.rotation.x, 0, delta * 6);
+                lThighRef.current.rotation.x = -0.4 + scull * 0.3;
+                rThighRef.current.rotation.x = -0.4 - scull * 0.3;
+                lShinRef.current.rotation.x = rShinRef.current.rotation.x = 0.6;
+                // Hands sweep in and out just under the surface
+                lArmRef.current.rotation.x = rArmRef.current.rotation.x = -0.6;
+                lArmRef.current.rotation.z = 0.9 + scull * 0.3;
+                rArmRef.current.rotation.z = -0.9 - scull * 0.3;
+                lForearmRef.current.rotation.x = rForearmRef.current.rotation.x = -0.3;
+            } else if (isStumbling) {
+                // Knocked flat on the back; limbs flail on impact and go limp as the timer runs down
+                const flail = Math.min(1, Math.max(0, (entity.stateTimer ?? 0) - 0.8)) * Math.sin(t * 18) * 0.5;
+                hipsRef.current.rotation.x = THREE.MathUtils.lerp(hipsRef.current.rotation.x, -1.45, delta * 12);
+                hipsRef.current.position.y = 0.94 - 0.74 * Math.min(1, hipsRef.current.rotation.x / -1.45); // Sinks as it tips
+                chestRef.current.rotation.x = -0.1;
+                lThighRef.current.rotation.x = -0.3 + flail;
+                rThighRef.current.rotation.x = -0.5 - flail;
+                lShinRef.current.rotation.x = 0.4;
+                rShinRef.current.rotation.x = 0.7;
+                lArmRef.current.rotation.x = rArmRef.current.rotation.x = -0.4 + flail;
+                lArmRef.current.rotation.z = 1.2 - flail;
+                rArmRef.current.rotation.z = -1.2 + flail;
+                lForearmRef.current.rotation.x = rForearmRef.current.rotation.x = -0.3;
+            } else if (isClimbing) {
+                // Hands on the ledge, one knee then the other coming up under the body
+                const pull = Math.sin(t * 10);
+                hipsRef.current.position.y = 0.94;
+                hipsRef.current.rotation.x = 0;
+                chestRef.current.rotation.x = 0.3;
+                lThighRef.current.rotation.x = -0.9 + pull * 0.5;
+                rThighRef.current.rotation.x = -0.9 - pull * 0.5;
+                lShinRef.current.rotation.x = rShinRef.current.rotation.x = 1.2;
+                lArmRef.current.rotation.x = rArmRef.current.rotation.x = -2.7;
+                lArmRef.current.rotation.z = 0.2;
+                rArmRef.current.rotation.z = -0.2;
+                lForearmRef.current.rotation.x = rForearmRef.current.rotation.x = -0.3;
+            } else if (isAirborne) {
+                // Knees tucked on the way up, legs reaching for the ground on the way down
+                const tuck = entity.vel.y > 0 ? 1 : 0.4;
+                hipsRef.current.rotation.x = 0;
+                lThighRef.current.rotation.x = -0.9 * tuck;
+                rThighRef.current.rotation.x = -0.5 * tuck;
+                lShinRef.current.rotation.x = rShinRef.current.rotation.x = 1.2 * tuck;
+                lArmRef.current.rotation.x = rArmRef.current.rotation.x = -1.2;
+                lArmRef.current.rotation.z = 0.6;
+                rArmRef.current.rotation.z = -0.6;
+            } else {
+                hipsRef.current.rotation.x = 0;
+            }
+        }
+
         // -- Head (Look & Stabilization) --
         if (headGroupRef.current) {
-            // Idle random look or horizon stabilizer
+            // Idle random look or horizon stabilizer; lifted clear of the water in a crawl, up at the ledge when climbing
              headGroupRef.current.rotation.y = Math.sin(breathCycle * 0.5) * 0.05;
-             headGroupRef.current.rotation.x = Math.cos(breathCycle) * 0.01;
+             headGroupRef.current.rotation.x = isCowering ? 0.4 : isSwimming && isMoving ? -0.9 : isClimbing ? -0.4 : Math.cos(breathCycle) * 0.01;
         }
     });
 
@@ -465,9 +590,9 @@ const Character: React.FC<CharacterProps> = ({ entity, isPlayer, stateRef }) =>
                                       </mesh>
 
                                       {/* WEAPON ATTACHMENT */}
-                                      {entity.inventory && entity.inventory[0] !== WeaponType.FIST && (
+                                      {!getEquipped(entity).melee && (
                                          <group position={[0, -0.06, 0.04]} rotation={[Math.PI/2, 0, 0]}>
-                                             {entity.inventory[0] === WeaponType.PISTOL ? (
+                                             {getEquipped(entity).type === WeaponType.PISTOL ? (
                                                   <group>
                                                       <mesh position={[0, 0.04, 0]} material={materials.weapon} castShadow>
                                                           <boxGeometry args={[0.04, 0.16, 0.04]} />
@@ -0,0 +1,86 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Entity, GameState, SupplyType, WeaponType } from '../../types';
+
+const CULL_DISTANCE = 120;
+const SPIN_SPEED = 2;    // Radians per second
+const BOB_HEIGHT = 0.15;
+
+interface PickupProps {
+    entity: Entity;
+    stateRef: React.MutableRefObject<GameState>;
+}
+
+// Floating, spinning weapon (or vest, or first aid kit) over a glowing ring so it reads from a distance
+const Pickup: React.FC<PickupProps> = ({ entity, stateRef }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const modelRef = useRef<THREE.Group>(null);
+
+    useFrame((state) => {
+        if (!groupRef.current || !modelRef.current) return;
+        const player = stateRef.current.player.pos;
+        groupRef.current.visible = (entity.pos.x - player.x) ** 2 + (entity.pos.z - player.z) ** 2 < CULL_DISTANCE ** 2;
+        const t = state.clock.elapsedTime;
+        modelRef.current.rotation.y = t * SPIN_SPEED;
+        modelRef.current.position.y = 0.8 + Math.sin(t * 2) * BOB_HEIGHT;
+    });
+
+    const weapon = entity.inventory?.[0];
+    const length = weapon === WeaponType.PISTOL ? 0.3 : weapon === WeaponType.UZI ? 0.45 : 0.8;
+
+    return (
+        <group ref={groupRef} position={[entity.pos.x, 0, entity.pos.z]}>
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.05, 0]}>
+                <ringGeometry args={[0.5, 0.7, 24]} />
+                <meshBasicMaterial color={entity.color} transparent opacity={0.6} />
+            </mesh>
+            <group ref={modelRef}>
+                {entity.supply === SupplyType.ARMOR ? (
+                    <>
+                        {/* Vest: torso plate with shoulder straps */}
+                        <mesh>
+                            <boxGeometry args={[0.45, 0.5, 0.14]} />
+                            <meshStandardMaterial color="#1e3a8a" emissive={entity.color} emissiveIntensity={0.4} />
+                        </mesh>
+                        {[-0.15, 0.15].map(x => (
+                            <mesh key={x} position={[x, 0.3, 0]}>
+                                <boxGeometry args={[0.1, 0.12, 0.14]} />
+                                <meshStandardMaterial color="#1e3a8a" emissive={entity.color} emissiveIntensity={0.4} />
+                            </mesh>
+                        ))}
+                    </>
+                ) : entity.supply === SupplyType.HEALTH ? (
+                    <>
+                        {/* Kit: white case with a cross on both faces */}
+                        <mesh>
+                            <boxGeometry args={[0.45, 0.32, 0.16]} />
+                            <meshStandardMaterial color="#f8fafc" emissive={entity.color} emissiveIntensity={0.2} />
+                        </mesh>
+                        <mesh>
+                            <boxGeometry args={[0.24, 0.07, 0.18]} />
+                            <meshBasicMaterial color={entity.color} />
+                        </mesh>
+                        <mesh>
+                            <boxGeometry args={[0.07, 0.24, 0.18]} />
+                            <meshBasicMaterial color={entity.color} />
+                        </mesh>
+                    </>
+                ) : (
+                    <>
+                        <mesh>
+                            <boxGeometry args={[0.08, 0.1, length]} />
+                            <meshStandardMaterial color="#1a1a1a" emissive={entity.color} emissiveIntensity={0.4} />
+                        </mesh>
+                        <mesh position={[0, -0.12, -length / 4]}>
+                            <boxGeometry args={[0.07, 0.18, 0.08]} />
+                            <meshStandardMaterial color="#1a1a1a" emissive={entity.color} emissiveIntensity={0.4} />
+                        </mesh>
+                    </>
+                )}
+            </group>
+        </group>
+    );
+};
+
+export default Pickup;
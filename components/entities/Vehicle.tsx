@@ -1,9 +1,31 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Entity, GameState } from '../../types';
+import { getVehicleCondition, VehicleCondition } from '../../simulation/systems/vehicleDamage';
+import { vehicleDefOf, VehicleModel } from '../../simulation/vehicleClasses';
 
 const CULL_DISTANCE = 150;
+const FLASH_RATE = 4; // Light bar swaps sides this many times a second
+const SOOT = new THREE.Color('#1c1917');
+const PUFFS = 5;
+const SMOKE_RISE = 3; // Metres a puff climbs before it fades
+const SWELL = 0.05;   // Radians boats pitch and roll on the waves
+
+// How far the shell has crumpled: cabin height kept, sideways lean and how low it sits
+const CRUMPLE: Record<VehicleCondition, { cabin: number; tilt: number; drop: number }> = {
+    intact: { cabin: 1, tilt: 0, drop: 0 },
+    dented: { cabin: 0.92, tilt: 0.02, drop: 0 },
+    smoking: { cabin: 0.82, tilt: 0.04, drop: 0.05 },
+    burning: { cabin: 0.78, tilt: 0.05, drop: 0.05 },
+    wrecked: { cabin: 0.65, tilt: 0.07, drop: 0.3 } // Tyres burnt away
+};
+
+const SMOKE_COLORS: Partial<Record<VehicleCondition, { color: string; opacity: number }>> = {
+    smoking: { color: '#9ca3af', opacity: 0.5 },
+    burning: { color: '#292524', opacity: 0.8 },
+    wrecked: { color: '#44403c', opacity: 0.3 }
+};
 
 interface VehicleProps {
     entity: Entity;
@@ -11,27 +33,195 @@ interface VehicleProps {
     stateRef: React.MutableRefObject<GameState>;
 }
 
-const Wheel = ({ position }: { position: [number, number, number] }) => (
+type Box = { size: [number, number, number]; pos: [number, number, number]; rot?: [number, number, number] };
+
+// Boxes in the car's frame (x right, y up from the road, z forward) for one body style
+interface ModelLayout {
+    paint: Box[];            // Bodywork in the car's colour
+    trim: Box[];             // Glass, seats, bumpers
+    cabin?: { width: number; height: number; length: number; bottom: number; z: number }; // Crumples from the roof down
+    wheels: [number, number][]; // x, z of each wheel
+    wheelRadius: number;
+    wheelWidth: number;
+    lights: number[];        // x of each headlight
+    lightHeight: number;
+}
+
+// One procedural builder per model in the vehicle catalogue, all scaled from the class's dimensions
+const MODELS: Record<VehicleModel, (x: number, y: number, z: number) => ModelLayout> = {
+    sedan: (x, _y, z) => ({
+        paint: [{ size: [x, 0.7, z], pos: [0, 0.7, 0] }],
+        trim: [],
+        cabin: { width: x * 0.85, height: 0.6, length: z * 0.5, bottom: 1.0, z: -0.3 },
+        wheels: [[x * 0.45, z * 0.35], [-x * 0.45, z * 0.35], [x * 0.45, -z * 0.35], [-x * 0.45, -z * 0.35]],
+        wheelRadius: 0.35, wheelWidth: 0.25,
+        lights: [0.6, -0.6], lightHeight: 0.7
+    }),
+    sports: (x, _y, z) => ({
+        paint: [
+            { size: [x, 0.5, z], pos: [0, 0.55, 0] },
+            { size: [x * 0.9, 0.06, 0.45], pos: [0, 1.05, -z / 2 + 0.3] } // Spoiler
+        ],
+        trim: [
+            { size: [0.08, 0.25, 0.08], pos: [x * 0.3, 0.9, -z / 2 + 0.3] },
+            { size: [0.08, 0.25, 0.08], pos: [-x * 0.3, 0.9, -z / 2 + 0.3] }
+        ],
+        cabin: { width: x * 0.8, height: 0.38, length: z * 0.38, bottom: 0.78, z: -0.4 },
+        wheels: [[x * 0.45, z * 0.33], [-x * 0.45, z * 0.33], [x * 0.45, -z * 0.33], [-x * 0.45, -z * 0.33]],
+        wheelRadius: 0.33, wheelWidth: 0.3,
+        lights: [0.65, -0.65], lightHeight: 0.55
+    }),
+    pickup: (x, _y, z) => ({
+        paint: [
+            { size: [x, 0.7, z], pos: [0, 0.8, 0] },
+            // Bed walls and tailgate
+            { size: [0.1, 0.45, z * 0.5], pos: [x / 2 - 0.05, 1.37, -z * 0.25] },
+            { size: [0.1, 0.45, z * 0.5], pos: [-x / 2 + 0.05, 1.37, -z * 0.25] },
+            { size: [x, 0.45, 0.1], pos: [0, 1.37, -z / 2 + 0.05] }
+        ],
+        trim: [{ size: [x + 0.1, 0.2, 0.2], pos: [0, 0.5, z / 2] }], // Bull bar
+        cabin: { width: x * 0.92, height: 0.7, length: z * 0.3, bottom: 1.15, z: z * 0.1 },
+        wheels: [[x * 0.45, z * 0.33], [-x * 0.45, z * 0.33], [x * 0.45, -z * 0.3], [-x * 0.45, -z * 0.3]],
+        wheelRadius: 0.42, wheelWidth: 0.3,
+        lights: [0.7, -0.7], lightHeight: 0.85
+    }),
+    boxTruck: (x, y, z) => ({
+        paint: [
+            { size: [x, 1.4, z * 0.28], pos: [0, 1.3, z * 0.36] },                  // Cab
+            { size: [x, y - 0.9, z * 0.68], pos: [0, (y + 0.9) / 2, -z * 0.15] }   // Cargo box
+        ],
+        trim: [{ size: [x * 0.9, 0.3, z * 0.95], pos: [0, 0.6, 0] }], // Chassis rails
+        cabin: { width: x * 0.92, height: 0.65, length: z * 0.22, bottom: 2.0, z: z * 0.37 },
+        wheels: [[x * 0.42, z * 0.36], [-x * 0.42, z * 0.36], [x * 0.42, -z * 0.28], [-x * 0.42, -z * 0.28], [x * 0.42, -z * 0.4], [-x * 0.42, -z * 0.4]],
+        wheelRadius: 0.5, wheelWidth: 0.35,
+        lights: [0.9, -0.9], lightHeight: 0.9
+    }),
+    bus: (x, y, z) => ({
+        paint: [{ size: [x, y - 0.3, z], pos: [0, (y + 0.3) / 2, 0] }],
+        trim: [{ size: [x * 0.8, 1.1, 0.05], pos: [0, 2.0, z / 2] }], // Windscreen
+        cabin: { width: x + 0.04, height: 0.8, length: z * 0.85, bottom: 1.7, z: -z * 0.05 }, // Window band
+        wheels: [[x * 0.42, z * 0.34], [-x * 0.42, z * 0.34], [x * 0.42, -z * 0.3], [-x * 0.42, -z * 0.3]],
+        wheelRadius: 0.5, wheelWidth: 0.35,
+        lights: [0.9, -0.9], lightHeight: 0.7
+    }),
+    motorbike: (_x, _y, z) => ({
+        paint: [
+            { size: [0.35, 0.3, 0.7], pos: [0, 0.85, 0.15] },    // Tank
+            { size: [0.25, 0.15, 0.6], pos: [0, 0.75, -0.75] }   // Tail
+        ],
+        trim: [
+            { size: [0.3, 0.12, 0.65], pos: [0, 0.95, -0.35] },  // Seat
+            { size: [0.2, 0.3, 1.3], pos: [0, 0.55, 0] },        // Frame and engine
+            { size: [0.08, 0.75, 0.08], pos: [0, 0.7, z * 0.33] }, // Forks
+            { size: [0.7, 0.05, 0.05], pos: [0, 1.1, z * 0.33] }   // Handlebars
+        ],
+        wheels: [[0, z * 0.35], [0, -z * 0.35]],
+        wheelRadius: 0.33, wheelWidth: 0.15,
+        lights: [0], lightHeight: 0.95
+    }),
+    speedboat: (x, _y, z) => ({
+        paint: [
+            { size: [x, 0.9, z * 0.75], pos: [0, 0.45, -z * 0.12] },
+            { size: [x * 0.71, 0.9, x * 0.71], pos: [0, 0.45, z * 0.25], rot: [0, Math.PI / 4, 0] } // Pointed bow
+        ],
+        trim: [
+            { size: [x * 0.8, 0.45, 0.08], pos: [0, 1.1, z * 0.05] },    // Windscreen
+            { size: [x * 0.7, 0.25, 0.8], pos: [0, 0.95, -z * 0.15] },   // Bench
+            { size: [0.4, 0.9, 0.4], pos: [0, 0.6, -z / 2 - 0.1] }       // Outboard motor
+        ],
+        wheels: [],
+        wheelRadius: 0, wheelWidth: 0,
+        lights: [0.5, -0.5], lightHeight: 0.9
+    })
+};
+
+const Wheel: React.FC<{ position: [number, number, number]; radius: number; width: number }> = ({ position, radius, width }) => (
     <group position={position}>
         <mesh rotation={[0, 0, Math.PI / 2]} castShadow>
-            <cylinderGeometry args={[0.35, 0.35, 0.25, 16]} />
+            <cylinderGeometry args={[radius, radius, width, 16]} />
             <meshStandardMaterial color="#1a1a1a" roughness={0.9} />
         </mesh>
-        <mesh rotation={[0, 0, Math.PI / 2]} position={[0.13, 0, 0]}>
-            <cylinderGeometry args={[0.2, 0.2, 0.05, 8]} />
+        <mesh rotation={[0, 0, Math.PI / 2]} position={[width / 2, 0, 0]}>
+            <cylinderGeometry args={[radius * 0.57, radius * 0.57, 0.05, 8]} />
             <meshStandardMaterial color="#94a3b8" metalness={0.8} roughness={0.2} />
         </mesh>
-        <mesh rotation={[0, 0, Math.PI / 2]} position={[-0.13, 0, 0]}>
-             <cylinderGeometry args={[0.2, 0.2, 0.05, 8]} />
+        <mesh rotation={[0, 0, Math.PI / 2]} position={[-width / 2, 0, 0]}>
+             <cylinderGeometry args={[radius * 0.57, radius * 0.57, 0.05, 8]} />
              <meshStandardMaterial color="#94a3b8" metalness={0.8} roughness={0.2} />
         </mesh>
     </group>
 );
 
+// Engine smoke from the bonnet once the car is badly hurt, and flames while it burns
+const DamageEffects: React.FC<{ entity: Entity }> = ({ entity }) => {
+    const smokeRef = useRef<THREE.Group>(null);
+    const fireRef = useRef<THREE.Group>(null);
+    const puffs = useRef<(THREE.Mesh | null)[]>([]);
+
+    useFrame((state) => {
+        if (!smokeRef.current || !fireRef.current) return;
+        const condition = getVehicleCondition(entity);
+        const smoke = SMOKE_COLORS[condition];
+        smokeRef.current.visible = !!smoke;
+        fireRef.current.visible = condition === 'burning';
+
+        const t = state.clock.elapsedTime;
+        if (smoke) {
+            puffs.current.forEach((puff, i) => {
+                if (!puff) return;
+                const phase = (t * 0.8 + i / PUFFS) % 1;
+                puff.position.set(Math.sin(i * 2.3 + t) * 0.2, phase * SMOKE_RISE, Math.cos(i * 1.7) * 0.2);
+                puff.scale.setScalar(0.4 + phase * 1.2);
+                const material = puff.material as THREE.MeshBasicMaterial;
+                material.color.set(smoke.color);
+                material.opacity = (1 - phase) * smoke.opacity;
+            });
+        }
+        if (fireRef.current.visible) {
+            fireRef.current.children.forEach((flame, i) => {
+                flame.scale.y = 1 + Math.sin(t * 18 + i * 2) * 0.3;
+            });
+        }
+    });
+
+    return (
+        <group position={[0, 1.05, entity.size.z * 0.35]}>
+            <group ref={smokeRef} visible={false}>
+                {Array(PUFFS).fill(0).map((_, i) => (
+                    <mesh key={i} ref={el => { puffs.current[i] = el; }}>
+                        <sphereGeometry args={[0.35, 8, 6]} />
+                        <meshBasicMaterial transparent depthWrite={false} />
+                    </mesh>
+                ))}
+            </group>
+            <group ref={fireRef} visible={false}>
+                {[[0, 0.5, '#f97316'], [0.35, 0.35, '#facc15'], [-0.35, 0.4, '#ef4444']].map(([x, h, color], i) => (
+                    <mesh key={i} position={[x as number, (h as number) / 2, 0]}>
+                        <coneGeometry args={[0.3, (h as number) * 2, 8]} />
+                        <meshBasicMaterial color={color as string} transparent opacity={0.85} depthWrite={false} blending={THREE.AdditiveBlending} />
+                    </mesh>
+                ))}
+            </group>
+        </group>
+    );
+};
+
 const Vehicle: React.FC<VehicleProps> = ({ entity, lightsOn, stateRef }) => {
     const groupRef = useRef<THREE.Group>(null);
-    const w = entity.size.x * 0.45; // Wheel offset width
-    const l = entity.size.z * 0.35; // Wheel offset length
+    const shellRef = useRef<THREE.Group>(null);
+    const cabinRef = useRef<THREE.Group>(null);
+    const wheelsRef = useRef<THREE.Group>(null);
+    const riderRef = useRef<THREE.Group>(null);
+    const riderPaintRef = useRef<THREE.MeshStandardMaterial>(null);
+    const redRef = useRef<THREE.MeshBasicMaterial>(null);
+    const blueRef = useRef<THREE.MeshBasicMaterial>(null);
+    const def = vehicleDefOf(entity);
+    const layout = useMemo(() => MODELS[def.model](entity.size.x, entity.size.y, entity.size.z), [def.model, entity.size]);
+    // Shared by every painted panel so damage darkens them together
+    const paint = useMemo(() => new THREE.MeshStandardMaterial({ metalness: 0.4, roughness: 0.3, envMapIntensity: 1.2 }), []);
+    useEffect(() => () => paint.dispose(), [paint]);
+    const cabin = layout.cabin;
+    const roof = cabin ? cabin.bottom + cabin.height : entity.size.y;
     
     useFrame((state, delta) => {
         if (groupRef.current) {
@@ -48,47 +238,119 @@ const Vehicle: React.FC<VehicleProps> = ({ entity, lightsOn, stateRef }) => {
             while (rotDiff > Math.PI) rotDiff -= Math.PI * 2;
             while (rotDiff < -Math.PI) rotDiff += Math.PI * 2;
             groupRef.current.rotation.y += rotDiff * 15 * delta;
+
+            // Dents and soot: paint darkens with damage and chars once burnt out
+            const condition = getVehicleCondition(entity);
+            const crumple = CRUMPLE[condition];
+            const wear = condition === 'wrecked' ? 0.9 : (1 - entity.health / entity.maxHealth) * 0.6;
+            paint.color.set(entity.color).lerp(SOOT, wear);
+            if (shellRef.current && wheelsRef.current) {
+                // Boats ride the swell; the simulation only floats them at their waterline
+                const t = state.clock.elapsedTime + entity.pos.x * 0.1;
+                const swell = def.water && condition !== 'wrecked' ? SWELL : 0;
+                shellRef.current.rotation.x = Math.sin(t * 1.1) * swell;
+                shellRef.current.rotation.z = crumple.tilt + Math.sin(t * 1.7) * swell;
+                shellRef.current.position.y = -crumple.drop;
+                wheelsRef.current.visible = condition !== 'wrecked';
+            }
+            if (cabinRef.current) cabinRef.current.scale.y = crumple.cabin; // Squashed from the roof down
+
+            // Riders sit in the open; everyone else is hidden inside
+            if (riderRef.current && riderPaintRef.current) {
+                const id = entity.vehicleId;
+                const rider = !id ? undefined : id === stateRef.current.player.id ? stateRef.current.player : stateRef.current.entities.find(e => e.id === id);
+                riderRef.current.visible = !!rider;
+                if (rider) riderPaintRef.current.color.set(rider.color);
+            }
+
+            // Light bar runs while the police are after someone
+            if (redRef.current && blueRef.current) {
+                const active = stateRef.current.wantedLevel > 0 && entity.state !== 'dead';
+                const phase = Math.floor(state.clock.elapsedTime * FLASH_RATE) % 2;
+                redRef.current.color.set(active && phase ? '#ff2020' : '#5b1010');
+                blueRef.current.color.set(active && !phase ? '#2050ff' : '#101a5b');
+            }
         }
     });
 
     return (
         <group ref={groupRef}>
-            {/* Body */}
-            <mesh castShadow receiveShadow position={[0, 0.7, 0]}>
-                <boxGeometry args={[entity.size.x, 0.7, entity.size.z]} />
-                <meshStandardMaterial color={entity.color} metalness={0.4} roughness={0.3} envMapIntensity={1.2} />
-            </mesh>
-            {/* Cabin/Windows */}
-            <mesh position={[0, 1.3, -0.3]} castShadow>
-                <boxGeometry args={[entity.size.x * 0.85, 0.6, entity.size.z * 0.5]} />
-                <meshStandardMaterial color="#111" metalness={0.8} roughness={0.1} />
-            </mesh>
-            
+            {/* Body shell, crumpled and lowered as it takes damage */}
+            <group ref={shellRef}>
+                {layout.paint.map((box, i) => (
+                    <mesh key={i} castShadow receiveShadow position={box.pos} rotation={box.rot} material={paint}>
+                        <boxGeometry args={box.size} />
+                    </mesh>
+                ))}
+                {layout.trim.map((box, i) => (
+                    <mesh key={i} castShadow position={box.pos} rotation={box.rot}>
+                        <boxGeometry args={box.size} />
+                        <meshStandardMaterial color="#1f2937" metalness={0.5} roughness={0.5} />
+                    </mesh>
+                ))}
+                {/* Cabin/Windows */}
+                {cabin && (
+                    <group ref={cabinRef} position={[0, cabin.bottom, cabin.z]}>
+                        <mesh position={[0, cabin.height / 2, 0]} castShadow>
+                            <boxGeometry args={[cabin.width, cabin.height, cabin.length]} />
+                            <meshStandardMaterial color="#111" metalness={0.8} roughness={0.1} />
+                        </mesh>
+                    </group>
+                )}
+
+                {/* Light bar */}
+                {def.lightBar && (
+                    <group position={[0, roof + 0.08, cabin?.z ?? 0]}>
+                        <mesh position={[0.35, 0, 0]}>
+                            <boxGeometry args={[0.6, 0.15, 0.3]} />
+                            <meshBasicMaterial ref={redRef} color="#5b1010" />
+                        </mesh>
+                        <mesh position={[-0.35, 0, 0]}>
+                            <boxGeometry args={[0.6, 0.15, 0.3]} />
+                            <meshBasicMaterial ref={blueRef} color="#101a5b" />
+                        </mesh>
+                    </group>
+                )}
+
+                {/* Rider, on anything without a cabin to hide in */}
+                {!cabin && (
+                    <group ref={riderRef} position={[0, 0.95, -0.3]} visible={false}>
+                        <mesh position={[0, 0.35, 0]} rotation={[0.3, 0, 0]} castShadow>
+                            <boxGeometry args={[0.45, 0.6, 0.3]} />
+                            <meshStandardMaterial ref={riderPaintRef} />
+                        </mesh>
+                        <mesh position={[0, 0.8, 0.15]} castShadow>
+                            <sphereGeometry args={[0.16, 12, 10]} />
+                            <meshStandardMaterial color="#111" metalness={0.6} roughness={0.3} />
+                        </mesh>
+                    </group>
+                )}
+            </group>
+
             {/* Wheels */}
-            <Wheel position={[w, 0.35, l]} />
-            <Wheel position={[-w, 0.35, l]} />
-            <Wheel position={[w, 0.35, -l]} />
-            <Wheel position={[-w, 0.35, -l]} />
+            <group ref={wheelsRef}>
+                {layout.wheels.map(([x, z], i) => (
+                    <Wheel key={i} position={[x, layout.wheelRadius, z]} radius={layout.wheelRadius} width={layout.wheelWidth} />
+                ))}
+            </group>
+
+            <DamageEffects entity={entity} />
 
             {/* Fake Drop Shadow */}
-            <mesh position={[0, 0.02, 0]} rotation={[-Math.PI/2, 0, 0]}>
-                <planeGeometry args={[entity.size.x + 0.5, entity.size.z + 0.5]} />
-                <meshBasicMaterial color="#000" transparent opacity={0.4} />
-            </mesh>
+            {!def.water && (
+                <mesh position={[0, 0.02, 0]} rotation={[-Math.PI/2, 0, 0]}>
+                    <planeGeometry args={[entity.size.x + 0.5, entity.size.z + 0.5]} />
+                    <meshBasicMaterial color="#000" transparent opacity={0.4} />
+                </mesh>
+            )}
 
             {/* Headlights */}
-            {lightsOn && (
-                <>
-                <mesh position={[0.6, 0.7, 2.5]} rotation={[Math.PI/2, 0, 0]}>
+            {lightsOn && entity.state !== 'dead' && layout.lights.map(x => (
+                <mesh key={x} position={[x, layout.lightHeight, entity.size.z / 2 + 0.1]} rotation={[Math.PI/2, 0, 0]}>
                     <coneGeometry args={[0.5, 4, 16, 1, true]} />
                     <meshBasicMaterial color="#fff" transparent opacity={0.1} depthWrite={false} blending={THREE.AdditiveBlending} />
                 </mesh>
-                <mesh position={[-0.6, 0.7, 2.5]} rotation={[Math.PI/2, 0, 0]}>
-                    <coneGeometry args={[0.5, 4, 16, 1, true]} />
-                    <meshBasicMaterial color="#fff" transparent opacity={0.1} depthWrite={false} blending={THREE.AdditiveBlending} />
-                </mesh>
-                </>
-            )}
+            ))}
         </group>
     );
 };
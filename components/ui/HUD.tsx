@@ -1,14 +1,42 @@
-import React from 'react';
-import { GameState, WeaponType } from '../../types';
-import { Clock, Shield, DollarSign, MessageCircle, Map as MapIcon, Crosshair } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { GameState } from '../../types';
+import { Clock, Shield, DollarSign, MessageCircle, Crosshair, Target, Swords } from 'lucide-react';
 import { audioManager } from '../../utils/audio';
+import { GameCanvasHandle } from '../GameCanvas';
+import Radar from './Radar';
+import WeaponWheel from './WeaponWheel';
+import { describeObjective } from '../../simulation/systems/missions';
+import { getEquipped } from '../../simulation/weapons';
+import { MAX_BREATH } from '../../simulation/systems/terrain';
+import { SPRINT_MIN } from '../../simulation/systems/movement';
+import { PLAYER_MAX_ARMOR, PLAYER_STAMINA } from '../../constants';
 
 interface HUDProps {
   state: Partial<GameState>;
   onMissionClick: () => void;
+  game: React.MutableRefObject<GameCanvasHandle | null>;
 }
 
-const HUD: React.FC<HUDProps> = ({ state, onMissionClick }) => {
+const DAMAGE_FLASH_MS = 250;
+
+const HUD: React.FC<HUDProps> = ({ state, onMissionClick, game }) => {
+  const health = state.player?.health ?? 100;
+  const maxHealth = state.player?.maxHealth ?? 100;
+  const armor = state.player?.armor ?? 0;
+
+  // Bars flash white for a moment whenever a hit lands, on armour or health
+  const [hurt, setHurt] = useState(false);
+  const lastVitals = useRef(health + armor);
+  useEffect(() => {
+    const vitals = health + armor;
+    const hit = vitals < lastVitals.current;
+    lastVitals.current = vitals;
+    if (!hit) return;
+    setHurt(true);
+    const timer = setTimeout(() => setHurt(false), DAMAGE_FLASH_MS);
+    return () => clearTimeout(timer);
+  }, [health, armor]);
+
   const formatTime = (minutes: number) => {
     const h = Math.floor(minutes / 60);
     const m = Math.floor(minutes % 60);
@@ -20,6 +48,14 @@ const HUD: React.FC<HUDProps> = ({ state, onMissionClick }) => {
     onMissionClick();
   };
 
+  const objective = describeObjective(state.mission);
+  const weapon = state.player ? getEquipped(state.player) : null;
+  const ammo = weapon && state.player?.ammo?.[weapon.type];
+  const formatCountdown = (seconds: number) => {
+    const s = Math.ceil(seconds);
+    return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+  };
+
   // Wanted Stars
   const stars = Array(5).fill(0).map((_, i) => (
     <span key={i} className={`text-2xl ${i < (state.wantedLevel || 0) ? 'text-yellow-500' : 'text-gray-800'}`}>★</span>
@@ -27,6 +63,37 @@ const HUD: React.FC<HUDProps> = ({ state, onMissionClick }) => {
 
   return (
     <div className="absolute inset-0 pointer-events-none p-4 flex flex-col justify-between">
+      {/* Top Left: Active Mission */}
+      {state.mission && objective && (
+          <div className="absolute top-4 left-4 bg-black/80 border-l-4 border-yellow-500 text-white p-3 rounded max-w-xs">
+              <div className="text-xs text-yellow-500 uppercase tracking-widest font-bold flex items-center gap-2">
+                  <Target size={14} />
+                  {state.mission.title}
+              </div>
+              <div className="mt-1 text-lg leading-snug">{objective.text}</div>
+              {objective.timeLeft !== null && (
+                  <div className={`mt-1 font-mono text-2xl ${objective.timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+                      {formatCountdown(objective.timeLeft)}
+                  </div>
+              )}
+          </div>
+      )}
+
+      {/* Top Centre: Gang War */}
+      {state.gangWar && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black/80 border-b-4 border-red-600 text-white px-4 py-2 rounded text-center">
+              <div className="text-xs text-red-500 uppercase tracking-widest font-bold flex items-center justify-center gap-2">
+                  <Swords size={14} />
+                  Gang War
+              </div>
+              <div className="mt-1 text-lg">
+                  {state.gangWar.wave > 0
+                      ? `Wave ${state.gangWar.wave}/${state.gangWar.waves} · ${state.gangWar.remaining} left`
+                      : 'Here they come...'}
+              </div>
+          </div>
+      )}
+
       {/* Top Right: Stats */}
       <div className="flex flex-col items-end gap-2">
         <div className="bg-black/80 text-green-400 p-2 rounded-lg font-mono text-xl border-2 border-green-800 flex items-center gap-2">
@@ -37,12 +104,16 @@ const HUD: React.FC<HUDProps> = ({ state, onMissionClick }) => {
            <Clock size={20} />
            {formatTime(state.timeOfDay || 0)}
         </div>
-        <div className="flex gap-1 bg-black/50 p-1 rounded-full">
+        {/* Stars flash while the police search for the player */}
+        <div className={`flex gap-1 bg-black/50 p-1 rounded-full ${state.pursuit?.searching ? 'animate-pulse' : ''}`}>
             {stars}
         </div>
         <div className="bg-black/80 text-white p-2 rounded-lg max-w-sm text-right">
              <div className="text-xs text-gray-400 uppercase tracking-widest mb-1">Current Zone</div>
              <div className="font-bold text-xl text-yellow-500">LOS REACTOS</div>
+             {state.seed !== undefined && (
+                 <div className="text-[10px] text-gray-500 font-mono mt-1">SEED {state.seed}</div>
+             )}
         </div>
       </div>
 
@@ -55,60 +126,98 @@ const HUD: React.FC<HUDProps> = ({ state, onMissionClick }) => {
             </div>
         )}
 
-        {state.mission && (
-             <div className="mt-4 bg-yellow-500 text-black p-4 rounded-lg font-bold shadow-lg animate-pulse">
-                NEW MISSION: {state.mission}
+        {state.missionResult && (
+             <div className="mt-4 text-center drop-shadow-lg animate-fade-in-up">
+                <div
+                    className={`text-6xl font-black uppercase tracking-tighter ${state.missionResult.passed ? 'text-yellow-400' : 'text-red-500'}`}
+                    style={{ fontFamily: 'Impact, sans-serif' }}
+                >
+                    {state.missionResult.heading ?? (state.missionResult.passed ? 'Mission Passed!' : 'Mission Failed!')}
+                </div>
+                <div className={`text-2xl font-bold mt-1 ${state.missionResult.passed ? 'text-green-400' : 'text-white'}`}>
+                    {state.missionResult.text}
+                </div>
              </div>
         )}
       </div>
 
       {/* Bottom Left: Mini-map / Health */}
       <div className="flex items-end gap-4">
-        {/* Radar / Minimap Placeholder */}
-        <div className="w-32 h-32 bg-gray-900 rounded-full border-4 border-gray-600 relative overflow-hidden opacity-90 hidden sm:block">
-            <div className="absolute inset-0 flex items-center justify-center text-gray-600">
-                <MapIcon size={32} />
-            </div>
-            {/* Player Blip */}
-            <div className="absolute top-1/2 left-1/2 w-3 h-3 bg-white rounded-full transform -translate-x-1/2 -translate-y-1/2 shadow-lg z-10"></div>
-        </div>
+        <Radar game={game} />
 
         <div className="flex flex-col gap-2">
              {/* Weapon */}
              <div className="bg-black/70 text-white p-2 rounded flex items-center gap-2">
                  <Crosshair size={18} />
-                 <span className="font-bold">{state.player?.inventory?.[0] || 'Fist'}</span>
+                 <span className="font-bold">{weapon?.type ?? 'Fist'}</span>
                  {/* Combo Counter for Melee */}
-                 {(state.player?.inventory?.[0] === 'Fist' || !state.player?.inventory?.[0]) && (state as any).meleeCombo > 0 && (
+                 {(!weapon || weapon.melee) && (state as any).meleeCombo > 0 && (
                      <span className="ml-auto text-yellow-400 font-bold text-sm">
                          COMBO x{(state as any).meleeCombo}
                      </span>
                  )}
+                 {/* Magazine / reserve for guns */}
+                 {ammo && (
+                     state.player?.reloadTimer !== undefined
+                         ? <span className="ml-auto text-yellow-400 font-bold text-sm animate-pulse">RELOADING</span>
+                         : <span className={`ml-auto font-mono ${ammo.clip === 0 ? 'text-red-500' : ''}`}>
+                               {ammo.clip}<span className="text-gray-400"> / {ammo.reserve}</span>
+                           </span>
+                 )}
              </div>
 
-             {/* Health Bar */}
-             <div className="w-48 h-6 bg-gray-800 rounded-full overflow-hidden border-2 border-gray-600 relative">
-                 <div 
-                    className="h-full bg-red-600 transition-all duration-300" 
-                    style={{ width: `${state.player?.health || 100}%` }}
-                 ></div>
-                 <Shield size={14} className="absolute top-1 left-2 text-white/50" />
-             </div>
-             {/* Armor Bar (Fake for visual) */}
-             <div className="w-48 h-4 bg-gray-800 rounded-full overflow-hidden border-2 border-gray-600 relative -mt-1">
-                 <div className="h-full bg-blue-500 w-1/2"></div>
+             <div className="flex items-center gap-2">
+                 {/* Health Bar */}
+                 <div className={`w-48 h-6 bg-gray-800 rounded-full overflow-hidden border-2 relative ${hurt ? 'border-white' : 'border-gray-600'}`}>
+                     <div 
+                        className={`h-full transition-all duration-300 ${hurt ? 'bg-red-300' : 'bg-red-600'}`}
+                        style={{ width: `${Math.max(0, health) / maxHealth * 100}%` }}
+                     ></div>
+                     <Shield size={14} className="absolute top-1 left-2 text-white/50" />
+                 </div>
+                 {/* Stamina beside it; the track lengthens as the stat grows, and turns orange when winded */}
+                 <div
+                    className="h-3 bg-gray-800 rounded-full overflow-hidden border-2 border-gray-600"
+                    style={{ width: `${(state.player?.maxStamina ?? PLAYER_STAMINA) * 0.6}px` }}
+                 >
+                     <div
+                        className={`h-full transition-all duration-200 ${(state.player?.stamina ?? PLAYER_STAMINA) < SPRINT_MIN ? 'bg-orange-500' : 'bg-lime-400'}`}
+                        style={{ width: `${(state.player?.stamina ?? PLAYER_STAMINA) / (state.player?.maxStamina ?? PLAYER_STAMINA) * 100}%` }}
+                     ></div>
+                 </div>
              </div>
+             {/* Armor Bar, only while wearing some */}
+             {armor > 0 && (
+                 <div className={`w-48 h-4 bg-gray-800 rounded-full overflow-hidden border-2 relative -mt-1 ${hurt ? 'border-white' : 'border-gray-600'}`}>
+                     <div
+                        className={`h-full transition-all duration-300 ${hurt ? 'bg-blue-200' : 'bg-blue-500'}`}
+                        style={{ width: `${armor / PLAYER_MAX_ARMOR * 100}%` }}
+                     ></div>
+                 </div>
+             )}
+             {/* Breath, only while in the water; flashes when nearly out */}
+             {state.player?.breath !== undefined && (
+                 <div className={`w-48 h-3 bg-gray-800 rounded-full overflow-hidden border-2 border-gray-600 -mt-1 ${state.player.breath < MAX_BREATH * 0.25 ? 'animate-pulse' : ''}`}>
+                     <div className="h-full bg-cyan-300 transition-all duration-200" style={{ width: `${state.player.breath / MAX_BREATH * 100}%` }}></div>
+                 </div>
+             )}
         </div>
       </div>
 
+      <WeaponWheel game={game} />
+
       {/* Floating Instructions */}
       <div className="absolute bottom-4 right-4 text-white/50 text-xs text-right font-mono pointer-events-none">
          <p>CLICK to Lock Mouse / Attack</p>
          <p>MOUSE to Look</p>
-         <p>WASD to Move</p>
+         <p>WASD to Move • SHIFT to Sprint • C to Walk</p>
          <p>V to Change View</p>
-         <p>F to Enter/Exit Vehicle</p>
+         <p>F to Enter/Exit Vehicle • SPACE for Handbrake</p>
+         <p>SPACE to Jump (into a ledge to Climb) • hold to Dive</p>
+         <p>R to Reload • SCROLL / Q / E / 1-4 to Switch</p>
+         <p>TAB (hold) for Weapon Wheel</p>
          <p>T to Talk</p>
+         <p>M to Open Map</p>
          <p className="text-yellow-400 mt-1">FIST: Click to Punch (Combo System!)</p>
       </div>
 
@@ -1,11 +1,14 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { audioManager } from '../../utils/audio';
+import { parseSeed } from '../../utils/random';
 
 interface IntroScreenProps {
-    onStart: () => void;
+    onStart: (seed?: number) => void; // Undefined seed = random city
+    onLoad: () => void;
 }
 
-const IntroScreen: React.FC<IntroScreenProps> = ({ onStart }) => {
+const IntroScreen: React.FC<IntroScreenProps> = ({ onStart, onLoad }) => {
+    const [seedText, setSeedText] = useState('');
     
     useEffect(() => {
         // Attempt to resume context on mount if possible, though browsers block it until interaction
@@ -29,7 +32,7 @@ const IntroScreen: React.FC<IntroScreenProps> = ({ onStart }) => {
         // Resume context in case the user hasn't clicked anything yet (e.g. tabbed to button)
         audioManager.resume();
         audioManager.setMusic('none'); // Transition happens in GameScene
-        onStart();
+        onStart(seedText.trim() ? parseSeed(seedText) : undefined);
     };
 
     console.log('IntroScreen rendering');
@@ -148,6 +151,24 @@ const IntroScreen: React.FC<IntroScreenProps> = ({ onStart }) => {
                     </span>
                 </button>
 
+                <button
+                    onMouseEnter={() => audioManager.playUI('hover')}
+                    onClick={() => { audioManager.playUI('click'); audioManager.resume(); onLoad(); }}
+                    className="mt-6 text-sm font-bold text-gray-400 hover:text-yellow-400 uppercase tracking-[0.3em] transition-colors"
+                >
+                    Load Game
+                </button>
+
+                {/* World Seed (blank = random city) */}
+                <input
+                    type="text"
+                    value={seedText}
+                    onChange={(e) => setSeedText(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleStart(); }}
+                    placeholder="World seed (optional)"
+                    className="mt-8 w-72 px-4 py-2 bg-black/50 border border-white/10 focus:border-yellow-500 focus:outline-none rounded-sm text-center text-sm font-mono text-yellow-100 tracking-widest placeholder:text-white/20 transition-colors"
+                />
+
                 <div className="mt-20 text-[10px] text-white/20 font-mono tracking-widest uppercase">
                     Procedural City Engine • Built with React Three Fiber
                 </div>
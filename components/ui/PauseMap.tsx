@@ -0,0 +1,226 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { GameCanvasHandle } from '../GameCanvas';
+import { TileType } from '../../types';
+import { FACTION_COLORS } from '../../constants';
+import { audioManager } from '../../utils/audio';
+import { DISTRICTS } from '../../utils/districts';
+import { getWaypoint, setWaypoint } from '../../simulation/systems/navigation';
+import { drawBlip, drawMapImage, drawPlayerArrow, drawRoute, drawTurf, getBlip, MAP_COLORS, OBJECTIVE_COLOR, WAYPOINT_COLOR } from '../../utils/mapRender';
+
+const MAX_ZOOM = 6;        // Screen pixels per world unit
+const ZOOM_STEP = 1.15;    // Per wheel notch
+const DRAG_THRESHOLD = 4;  // Pixels of movement before a click becomes a pan
+
+interface PauseMapProps {
+    game: React.MutableRefObject<GameCanvasHandle | null>;
+    onClose: () => void;
+}
+
+const LEGEND: { label: string, color: string, shape: 'dot' | 'square' | 'line' }[] = [
+    { label: 'Waypoint / GPS', color: WAYPOINT_COLOR, shape: 'line' },
+    { label: 'Mission', color: OBJECTIVE_COLOR, shape: 'dot' },
+    { label: 'Vehicle', color: '#e5e7eb', shape: 'square' },
+    { label: 'Weapon', color: '#fb923c', shape: 'square' },
+    { label: 'Body Armour', color: '#38bdf8', shape: 'square' },
+    { label: 'Health Pack', color: '#f43f5e', shape: 'square' },
+    { label: 'Hospital', color: '#ffffff', shape: 'square' },
+    { label: 'Police Station', color: '#1d4ed8', shape: 'square' },
+    { label: 'Police', color: '#3b82f6', shape: 'dot' },
+    { label: 'Grove Street', color: FACTION_COLORS.groves, shape: 'dot' },
+    { label: 'Ballas', color: FACTION_COLORS.ballas, shape: 'dot' },
+    { label: 'Grove Street turf', color: FACTION_COLORS.groves, shape: 'square' },
+    { label: 'Ballas turf', color: FACTION_COLORS.ballas, shape: 'square' },
+    { label: 'Road', color: MAP_COLORS[TileType.ROAD], shape: 'square' },
+    { label: 'Water', color: MAP_COLORS[TileType.WATER], shape: 'square' },
+    { label: 'Mountain', color: MAP_COLORS[TileType.MOUNTAIN], shape: 'square' }
+];
+
+const PauseMap: React.FC<PauseMapProps> = ({ game, onClose }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const handle = game.current;
+        if (!canvas || !handle) return;
+        const ctx = canvas.getContext('2d')!;
+        const state = handle.getState();
+        const map = state.map;
+        const worldSize = Math.max(map.width, map.height) * map.tileSize;
+
+        // View: world point at the screen centre and pixels per world unit
+        const view = { x: state.player.pos.x, z: state.player.pos.z, zoom: 1 };
+        const minZoom = () => Math.min(canvas.clientWidth, canvas.clientHeight) / worldSize * 0.8;
+        view.zoom = minZoom() * 1.5;
+
+        const toWorld = (sx: number, sy: number) => ({
+            x: view.x + (sx - canvas.clientWidth / 2) / view.zoom,
+            z: view.z + (sy - canvas.clientHeight / 2) / view.zoom
+        });
+        const toScreen = (x: number, z: number) => ({
+            x: (x - view.x) * view.zoom + canvas.clientWidth / 2,
+            y: (z - view.z) * view.zoom + canvas.clientHeight / 2
+        });
+
+        let frame = 0;
+        const draw = () => {
+            frame = requestAnimationFrame(draw);
+            const dpr = window.devicePixelRatio || 1;
+            const w = canvas.clientWidth, h = canvas.clientHeight;
+            if (canvas.width !== w * dpr || canvas.height !== h * dpr) {
+                canvas.width = w * dpr;
+                canvas.height = h * dpr;
+            }
+
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.fillStyle = '#0b1220';
+            ctx.fillRect(0, 0, w, h);
+
+            // Terrain and route in world units
+            ctx.save();
+            ctx.translate(w / 2, h / 2);
+            ctx.scale(view.zoom, view.zoom);
+            ctx.translate(-view.x, -view.z);
+            drawMapImage(ctx, map);
+            drawTurf(ctx, map, state.turf, state.gangWar, state.clock, 1.5 / view.zoom);
+            if (state.route) drawRoute(ctx, state.route, state.player.pos, 4 / view.zoom);
+            ctx.restore();
+
+            // District names
+            ctx.font = `bold ${Math.round(Math.min(22, Math.max(11, view.zoom * 14)))}px sans-serif`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            for (const d of DISTRICTS) {
+                const p = toScreen((d.minX + d.maxX) / 2 * map.tileSize, (d.minZ + d.maxZ) / 2 * map.tileSize);
+                ctx.lineWidth = 3;
+                ctx.strokeStyle = 'rgba(0,0,0,0.8)';
+                ctx.strokeText(d.name.toUpperCase(), p.x, p.y);
+                ctx.fillStyle = 'rgba(255,255,255,0.75)';
+                ctx.fillText(d.name.toUpperCase(), p.x, p.y);
+            }
+
+            // Blips
+            for (const e of state.entities) {
+                const blip = getBlip(e, state.clock);
+                if (!blip || e.id === state.player.vehicleId) continue;
+                const p = toScreen(e.pos.x, e.pos.z);
+                if (p.x < -10 || p.y < -10 || p.x > w + 10 || p.y > h + 10) continue;
+                drawBlip(ctx, p.x, p.y, blip);
+            }
+
+            for (const marker of state.markers) {
+                const p = toScreen(marker.pos.x, marker.pos.z);
+                drawBlip(ctx, p.x, p.y, {
+                    color: marker.kind === 'objective' ? OBJECTIVE_COLOR : WAYPOINT_COLOR,
+                    size: 12,
+                    shape: 'dot'
+                });
+            }
+
+            const player = toScreen(state.player.pos.x, state.player.pos.z);
+            drawPlayerArrow(ctx, player.x, player.y, Math.PI - state.player.rotation.y, 9);
+        };
+        frame = requestAnimationFrame(draw);
+
+        // --- Input: drag to pan, wheel to zoom, click to place, right-click to clear ---
+        let drag: { x: number, y: number, moved: boolean } | null = null;
+
+        const onMouseDown = (e: MouseEvent) => {
+            drag = { x: e.clientX, y: e.clientY, moved: false };
+        };
+        const onMouseMove = (e: MouseEvent) => {
+            if (!drag || !(e.buttons & 1)) return;
+            const dx = e.clientX - drag.x, dy = e.clientY - drag.y;
+            if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+            drag.moved = true;
+            view.x -= dx / view.zoom;
+            view.z -= dy / view.zoom;
+            drag.x = e.clientX;
+            drag.y = e.clientY;
+        };
+        const onMouseUp = (e: MouseEvent) => {
+            const wasDrag = drag?.moved;
+            drag = null;
+            if (wasDrag) return;
+            const rect = canvas.getBoundingClientRect();
+            if (e.button === 2) {
+                if (getWaypoint(state)) audioManager.playUI('click');
+                setWaypoint(state, null);
+                return;
+            }
+            if (e.button !== 0) return;
+            const pos = toWorld(e.clientX - rect.left, e.clientY - rect.top);
+            audioManager.playUI('click');
+            setWaypoint(state, { x: pos.x, y: 0, z: pos.z });
+        };
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = canvas.getBoundingClientRect();
+            const sx = e.clientX - rect.left, sy = e.clientY - rect.top;
+            const anchor = toWorld(sx, sy);
+            view.zoom = Math.min(MAX_ZOOM, Math.max(minZoom(), view.zoom * (e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)));
+            // Keep the point under the cursor fixed
+            view.x = anchor.x - (sx - canvas.clientWidth / 2) / view.zoom;
+            view.z = anchor.z - (sy - canvas.clientHeight / 2) / view.zoom;
+        };
+        const onContextMenu = (e: MouseEvent) => e.preventDefault();
+
+        canvas.addEventListener('mousedown', onMouseDown);
+        window.addEventListener('mousemove', onMouseMove);
+        canvas.addEventListener('mouseup', onMouseUp);
+        canvas.addEventListener('wheel', onWheel, { passive: false });
+        canvas.addEventListener('contextmenu', onContextMenu);
+        return () => {
+            cancelAnimationFrame(frame);
+            canvas.removeEventListener('mousedown', onMouseDown);
+            window.removeEventListener('mousemove', onMouseMove);
+            canvas.removeEventListener('mouseup', onMouseUp);
+            canvas.removeEventListener('wheel', onWheel);
+            canvas.removeEventListener('contextmenu', onContextMenu);
+        };
+    }, [game]);
+
+    return (
+        <div className="fixed inset-0 z-[70] bg-black">
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full cursor-crosshair" />
+
+            <button
+                onClick={() => { audioManager.playUI('click'); onClose(); }}
+                className="absolute top-6 right-6 z-10 text-white/50 hover:text-white hover:scale-110 transition-transform"
+            >
+                <X size={32} />
+            </button>
+
+            <div className="absolute top-6 left-6 pointer-events-none">
+                <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-br from-yellow-400 to-yellow-700 italic tracking-tighter uppercase drop-shadow-sm">
+                    Map
+                </h2>
+                <div className="h-1 w-16 bg-yellow-600 mt-2 rounded-full"></div>
+            </div>
+
+            {/* Legend */}
+            <div className="absolute bottom-6 right-6 bg-black/80 border border-white/10 rounded-lg p-4 flex flex-col gap-2 pointer-events-none">
+                <div className="text-xs text-gray-400 uppercase tracking-widest mb-1">Legend</div>
+                <div className="flex items-center gap-3 text-sm text-white">
+                    <span className="w-3 text-center text-white leading-none">▲</span> You
+                </div>
+                {LEGEND.map(item => (
+                    <div key={item.label} className="flex items-center gap-3 text-sm text-white">
+                        <span
+                            className={item.shape === 'dot' ? 'w-3 h-3 rounded-full' : item.shape === 'line' ? 'w-3 h-1 rounded' : 'w-3 h-3'}
+                            style={{ backgroundColor: item.color }}
+                        />
+                        {item.label}
+                    </div>
+                ))}
+            </div>
+
+            <div className="absolute bottom-6 left-6 text-white/50 text-xs font-mono pointer-events-none">
+                <p>CLICK to Set Waypoint • RIGHT CLICK to Clear</p>
+                <p>DRAG to Pan • WHEEL to Zoom • M to Close</p>
+            </div>
+        </div>
+    );
+};
+
+export default PauseMap;
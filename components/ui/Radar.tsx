@@ -0,0 +1,142 @@
+import React, { useEffect, useRef } from 'react';
+import { GameCanvasHandle } from '../GameCanvas';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { drawBlip, drawMapImage, drawPlayerArrow, drawRoute, drawTurf, getBlip, OBJECTIVE_COLOR, WAYPOINT_COLOR } from '../../utils/mapRender';
+
+const RADAR_PX = 120;          // CSS size of the radar disc inside its border
+const BASE_RANGE = 70;         // World units from centre to edge when on foot / slow
+const MAX_RANGE = 180;
+const RANGE_PER_SPEED = 3;     // Extra range per m/s of vehicle speed
+const ZOOM_RATE = 1.5;         // How quickly the range eases towards its target
+const EDGE_MARGIN = 8;         // Pixels kept between clamped icons and the rim
+
+interface RadarProps {
+    game: React.MutableRefObject<GameCanvasHandle | null>;
+}
+
+// Draws straight from the live game state every frame instead of going through React
+const Radar: React.FC<RadarProps> = ({ game }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = RADAR_PX * dpr;
+        canvas.height = RADAR_PX * dpr;
+        const ctx = canvas.getContext('2d')!;
+
+        let range = BASE_RANGE;
+        let last = performance.now();
+        let frame = 0;
+
+        const draw = (now: number) => {
+            frame = requestAnimationFrame(draw);
+            const dt = Math.min(0.1, (now - last) / 1000);
+            last = now;
+
+            const handle = game.current;
+            if (!handle) return;
+            const state = handle.getState();
+            const player = state.player;
+
+            // Widen the view with speed so there's time to react to what's coming
+            const car = player.vehicleId ? state.entities.find(e => e.id === player.vehicleId) : null;
+            const speed = car ? Math.sqrt(car.vel.x ** 2 + car.vel.z ** 2) : 0;
+            const targetRange = Math.min(MAX_RANGE, BASE_RANGE + speed * RANGE_PER_SPEED);
+            range += (targetRange - range) * Math.min(1, dt * ZOOM_RATE);
+
+            // Rotate so the camera's forward direction points up
+            const yaw = handle.getCameraYaw();
+            const rotation = Math.PI + yaw;
+            const cos = Math.cos(rotation);
+            const sin = Math.sin(rotation);
+            const radius = RADAR_PX / 2;
+            const scale = radius / range;
+
+            // World offset from the player -> radar pixels from the centre
+            const project = (x: number, z: number) => {
+                const dx = x - player.pos.x;
+                const dz = z - player.pos.z;
+                return { x: (dx * cos - dz * sin) * scale, y: (dx * sin + dz * cos) * scale };
+            };
+
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.clearRect(0, 0, RADAR_PX, RADAR_PX);
+            ctx.save();
+            ctx.beginPath();
+            ctx.arc(radius, radius, radius, 0, Math.PI * 2);
+            ctx.clip();
+            ctx.fillStyle = '#0b1220';
+            ctx.fillRect(0, 0, RADAR_PX, RADAR_PX);
+
+            // Terrain
+            ctx.save();
+            ctx.translate(radius, radius);
+            ctx.rotate(rotation);
+            ctx.scale(scale, scale);
+            ctx.translate(-player.pos.x, -player.pos.z);
+            drawMapImage(ctx, state.map);
+            drawTurf(ctx, state.map, state.turf, state.gangWar, state.clock, 1 / scale);
+            if (state.route) drawRoute(ctx, state.route, player.pos, 3 / scale);
+            ctx.restore();
+
+            // Blips stay upright, only their positions rotate
+            ctx.translate(radius, radius);
+            for (const e of getSpatialIndex(state).queryRadius(player.pos.x, player.pos.z, range * Math.SQRT2)) {
+                if (e.id === player.vehicleId) continue;
+                const blip = getBlip(e, state.clock);
+                if (!blip) continue;
+                const p = project(e.pos.x, e.pos.z);
+                if (p.x * p.x + p.y * p.y > radius * radius) continue;
+                drawBlip(ctx, p.x, p.y, blip);
+            }
+
+            drawPlayerArrow(ctx, 0, 0, rotation + Math.PI - player.rotation.y, 6);
+            ctx.restore();
+
+            // Objectives are clamped to the rim so they're never lost off-radar
+            ctx.save();
+            ctx.translate(radius, radius);
+            for (const marker of state.markers) {
+                const p = project(marker.pos.x, marker.pos.z);
+                const dist = Math.sqrt(p.x * p.x + p.y * p.y);
+                const maxDist = radius - EDGE_MARGIN;
+                const clamped = dist > maxDist;
+                const k = clamped ? maxDist / dist : 1;
+                drawBlip(ctx, p.x * k, p.y * k, {
+                    color: marker.kind === 'objective' ? OBJECTIVE_COLOR : WAYPOINT_COLOR,
+                    size: clamped ? 7 : 9,
+                    shape: 'dot'
+                });
+            }
+
+            // North marker rides the rim
+            const north = project(player.pos.x, player.pos.z - 1);
+            const len = Math.sqrt(north.x * north.x + north.y * north.y) || 1;
+            const nx = (north.x / len) * (radius - 7);
+            const ny = (north.y / len) * (radius - 7);
+            ctx.fillStyle = 'rgba(0,0,0,0.7)';
+            ctx.beginPath();
+            ctx.arc(nx, ny, 6, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.fillStyle = '#ffffff';
+            ctx.font = 'bold 9px monospace';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText('N', nx, ny + 0.5);
+            ctx.restore();
+        };
+
+        frame = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(frame);
+    }, [game]);
+
+    return (
+        <div className="w-32 h-32 bg-gray-900 rounded-full border-4 border-gray-600 relative overflow-hidden opacity-90 hidden sm:block">
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+        </div>
+    );
+};
+
+export default Radar;
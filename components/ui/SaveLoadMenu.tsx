@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { X, Save, FolderOpen, Trash2, MapPin, DollarSign, Clock } from 'lucide-react';
+import { audioManager } from '../../utils/audio';
+import { listSaveSlots, deleteSave, SaveMeta } from '../../services/saveGame';
+
+interface SaveLoadMenuProps {
+    mode: 'save' | 'load';
+    onClose: () => void;
+    onSelect: (slot: number) => void; // Throws to report a failed save/load
+}
+
+const formatPlayTime = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = Math.floor(seconds % 60);
+    return h > 0 ? `${h}h ${m.toString().padStart(2, '0')}m` : `${m}m ${s.toString().padStart(2, '0')}s`;
+};
+
+const SaveLoadMenu: React.FC<SaveLoadMenuProps> = ({ mode, onClose, onSelect }) => {
+    const [slots, setSlots] = useState<(SaveMeta | null)[]>(() => listSaveSlots());
+    const [status, setStatus] = useState<string | null>(null);
+
+    const handleSelect = (slot: number) => {
+        if (mode === 'load' && !slots[slot]) return;
+        audioManager.playUI('click');
+        try {
+            onSelect(slot);
+            if (mode === 'save') {
+                audioManager.playUI('mission');
+                setStatus(`Saved to slot ${slot + 1}`);
+                setSlots(listSaveSlots());
+            }
+        } catch (err) {
+            console.error(`Failed to ${mode} slot ${slot}`, err);
+            setStatus(`Could not ${mode} slot ${slot + 1}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const handleDelete = (slot: number) => {
+        audioManager.playUI('click');
+        deleteSave(slot);
+        setSlots(listSaveSlots());
+        setStatus(`Slot ${slot + 1} cleared`);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-md">
+            <div className="w-full max-w-4xl rounded-xl overflow-hidden shadow-2xl border border-white/10 bg-[#0f172a] relative p-10">
+                <button
+                    onClick={() => { audioManager.playUI('click'); onClose(); }}
+                    className="absolute top-6 right-6 z-10 text-white/50 hover:text-white hover:scale-110 transition-transform"
+                >
+                    <X size={32} />
+                </button>
+
+                <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-br from-yellow-400 to-yellow-700 italic tracking-tighter uppercase drop-shadow-sm flex items-center gap-3">
+                    {mode === 'save' ? <Save className="text-yellow-500" /> : <FolderOpen className="text-yellow-500" />}
+                    {mode === 'save' ? 'Save Game' : 'Load Game'}
+                </h2>
+                <div className="h-1 w-16 bg-yellow-600 mt-2 mb-8 rounded-full"></div>
+
+                <div className="flex flex-col gap-4">
+                    {slots.map((meta, slot) => (
+                        <div key={slot} className="flex items-stretch gap-2">
+                            <button
+                                onClick={() => handleSelect(slot)}
+                                onMouseEnter={() => audioManager.playUI('hover')}
+                                disabled={mode === 'load' && !meta}
+                                className="group flex-1 flex items-center gap-6 p-4 bg-white/5 rounded border border-white/10 hover:border-yellow-500 hover:bg-yellow-500/10 disabled:opacity-40 disabled:hover:border-white/10 disabled:hover:bg-white/5 transition-all text-left"
+                            >
+                                <div className="w-40 h-24 bg-black/60 rounded overflow-hidden flex-shrink-0 flex items-center justify-center border border-white/10">
+                                    {meta?.thumbnail
+                                        ? <img src={meta.thumbnail} alt="" className="w-full h-full object-cover" />
+                                        : <span className="text-gray-600 font-mono text-xs">NO IMAGE</span>}
+                                </div>
+
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-yellow-500 font-black uppercase tracking-widest text-sm">Slot {slot + 1}</div>
+                                    {meta ? (
+                                        <>
+                                            <div className="text-white font-bold text-xl flex items-center gap-2 mt-1"><MapPin size={16} /> {meta.location}</div>
+                                            <div className="flex gap-6 mt-2 text-sm font-mono text-gray-400">
+                                                <span className="flex items-center gap-1 text-green-400"><DollarSign size={14} />{meta.money.toLocaleString()}</span>
+                                                <span className="flex items-center gap-1"><Clock size={14} />{formatPlayTime(meta.playTime)}</span>
+                                                <span>{new Date(meta.savedAt).toLocaleString()}</span>
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <div className="text-gray-500 font-medium text-xl mt-1">Empty Slot</div>
+                                    )}
+                                </div>
+                            </button>
+
+                            {meta && (
+                                <button
+                                    onClick={() => handleDelete(slot)}
+                                    aria-label={`Delete slot ${slot + 1}`}
+                                    className="px-4 bg-white/5 rounded border border-white/10 text-gray-600 hover:text-red-500 hover:border-red-500 transition-colors"
+                                >
+                                    <Trash2 size={20} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {status && (
+                    <div className="mt-6 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded text-yellow-200 text-sm">
+                        {status}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SaveLoadMenu;
@@ -1,12 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { X, Volume2, Monitor, Keyboard, Gamepad2, Laptop, Save, LogOut } from 'lucide-react';
+import { X, Volume2, Monitor, Keyboard, Gamepad2, Laptop, Save, LogOut, Globe, RotateCcw } from 'lucide-react';
 import { audioManager } from '../../utils/audio';
+import { parseSeed, randomSeed } from '../../utils/random';
 import { GameSettings } from '../../types';
+import { DEFAULT_SETTINGS, FRAME_CAPS, QUALITY_LEVELS, RESOLUTIONS } from '../../services/settings';
 
 interface SettingsMenuProps {
   onClose: () => void;
   currentSettings: GameSettings;
   onApply: (settings: GameSettings) => void;
+  seed: number;
+  onNewGame: (seed: number) => void;
+  onSaveGame: () => void;
 }
 
 interface TabButtonProps {
@@ -30,7 +35,7 @@ const TabButton: React.FC<TabButtonProps> = ({ icon: Icon, label, active, onClic
     </button>
 );
 
-const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, currentSettings, onApply }) => {
+const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, currentSettings, onApply, seed, onNewGame, onSaveGame }) => {
     const [activeTab, setActiveTab] = useState<'audio' | 'graphics' | 'controls' | 'gameplay' | 'system'>('audio');
     
     // State initialization
@@ -42,11 +47,39 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, currentSettings, o
     const [quality, setQuality] = useState(currentSettings.graphics.quality);
     const [bloom, setBloom] = useState(currentSettings.graphics.bloom);
     const [ao, setAo] = useState(currentSettings.graphics.ambientOcclusion);
+    const [vsync, setVsync] = useState(currentSettings.graphics.vsync);
+    const [frameCap, setFrameCap] = useState(currentSettings.graphics.frameCap);
     
     const [sensitivity, setSensitivity] = useState(currentSettings.gameplay.sensitivity);
     const [invertY, setInvertY] = useState(currentSettings.gameplay.invertY);
     const [showHud, setShowHud] = useState(currentSettings.gameplay.showHud);
 
+    const [seedText, setSeedText] = useState('');
+
+    const handleNewGame = () => {
+        audioManager.playUI('click');
+        onNewGame(seedText.trim() ? parseSeed(seedText) : randomSeed());
+    };
+
+    // Only fills the form; nothing changes until Apply
+    const handleReset = () => {
+        audioManager.playUI('click');
+        const d = DEFAULT_SETTINGS;
+        setMasterVol(d.audio.master * 100);
+        setMusicVol(d.audio.music * 100);
+        setSfxVol(d.audio.sfx * 100);
+        audioManager.setMasterVolume(d.audio.master); // Keep the live preview in sync
+        setResolution(d.graphics.resolution);
+        setQuality(d.graphics.quality);
+        setBloom(d.graphics.bloom);
+        setAo(d.graphics.ambientOcclusion);
+        setVsync(d.graphics.vsync);
+        setFrameCap(d.graphics.frameCap);
+        setSensitivity(d.gameplay.sensitivity);
+        setInvertY(d.gameplay.invertY);
+        setShowHud(d.gameplay.showHud);
+    };
+
     const handleApply = () => {
         audioManager.playUI('mission'); // Success sound
         
@@ -59,7 +92,8 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, currentSettings, o
             graphics: {
                 resolution,
                 quality,
-                vsync: currentSettings.graphics.vsync,
+                vsync,
+                frameCap,
                 ambientOcclusion: ao,
                 bloom: bloom
             },
@@ -148,15 +182,25 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, currentSettings, o
                                 <SelectControl 
                                     label="Resolution" 
                                     value={resolution} 
-                                    options={['3840x2160', '2560x1440', '1920x1080', '1280x720']} 
+                                    options={RESOLUTIONS} 
                                     onChange={(e) => setResolution(e.target.value)} 
                                 />
                                 <SelectControl 
                                     label="Graphics Quality" 
                                     value={quality} 
-                                    options={['Ultra', 'High', 'Medium', 'Low']} 
+                                    options={QUALITY_LEVELS} 
                                     onChange={(e) => setQuality(e.target.value)} 
                                 />
+                                <SelectControl 
+                                    label="Frame Rate Limit" 
+                                    value={frameCap ? `${frameCap} FPS` : 'Unlimited'} 
+                                    options={FRAME_CAPS.map(fps => fps ? `${fps} FPS` : 'Unlimited')} 
+                                    onChange={(e) => setFrameCap(parseInt(e.target.value) || 0)} 
+                                />
+                                <div className="flex items-center justify-between p-4 bg-white/5 rounded border border-white/10">
+                                    <span className="text-white font-medium">V-Sync</span>
+                                    <Toggle checked={vsync} onChange={() => setVsync(!vsync)} />
+                                </div>
                                 <div className="flex items-center justify-between p-4 bg-white/5 rounded border border-white/10">
                                     <span className="text-white font-medium">Ambient Occlusion</span>
                                     <Toggle checked={ao} onChange={() => setAo(!ao)} />
@@ -174,7 +218,9 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, currentSettings, o
                                 <KeyBind action="Move Backward" k="S" />
                                 <KeyBind action="Move Left" k="A" />
                                 <KeyBind action="Move Right" k="D" />
-                                <KeyBind action="Jump" k="SPACE" />
+                                <KeyBind action="Sprint" k="SHIFT" />
+                                <KeyBind action="Walk" k="C" />
+                                <KeyBind action="Jump / Climb / Handbrake" k="SPACE" />
                                 <KeyBind action="Enter/Exit Vehicle" k="F" />
                                 <KeyBind action="Interact / Talk" k="T" />
                                 <KeyBind action="Change Camera" k="V" />
@@ -199,7 +245,31 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, currentSettings, o
 
                         {activeTab === 'system' && (
                             <div className="grid grid-cols-2 gap-6 max-w-2xl">
-                                <button className="p-8 bg-green-900/30 border border-green-500/30 hover:bg-green-900/50 hover:border-green-500 transition-all rounded-lg flex flex-col items-center gap-4 group">
+                                {/* World Seed: share it to reproduce this exact city */}
+                                <div className="col-span-2 p-6 bg-white/5 rounded border border-white/10 flex flex-col gap-4">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-white font-medium flex items-center gap-2"><Globe size={18} className="text-yellow-500" /> World Seed</span>
+                                        <span className="font-mono font-bold text-yellow-500 select-text">{seed}</span>
+                                    </div>
+                                    <div className="flex gap-3">
+                                        <input
+                                            type="text"
+                                            value={seedText}
+                                            onChange={(e) => setSeedText(e.target.value)}
+                                            placeholder="Seed for new game (blank = random)"
+                                            className="flex-1 p-3 bg-black/50 border border-white/20 rounded text-white font-mono focus:border-yellow-500 focus:outline-none transition-colors"
+                                        />
+                                        <button
+                                            onClick={handleNewGame}
+                                            className="px-6 py-3 rounded bg-yellow-600 hover:bg-yellow-500 text-black font-black uppercase tracking-widest transition-colors"
+                                        >
+                                            New Game
+                                        </button>
+                                    </div>
+                                </div>
+                                <button 
+                                    onClick={() => { audioManager.playUI('click'); onSaveGame(); }}
+                                    className="p-8 bg-green-900/30 border border-green-500/30 hover:bg-green-900/50 hover:border-green-500 transition-all rounded-lg flex flex-col items-center gap-4 group">
                                     <Save size={40} className="text-green-500 group-hover:scale-110 transition-transform" />
                                     <span className="text-white font-bold text-lg">Save Game</span>
                                 </button>
@@ -217,6 +287,13 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, currentSettings, o
 
                     {/* Bottom Action Bar */}
                     <div className="absolute bottom-0 left-0 right-0 p-6 bg-black/40 border-t border-white/10 backdrop-blur-md flex justify-end gap-4">
+                         <button 
+                             onClick={handleReset}
+                             className="mr-auto px-6 py-3 rounded text-gray-400 font-bold uppercase tracking-widest hover:text-white hover:bg-white/10 transition-colors flex items-center gap-2"
+                         >
+                             <RotateCcw size={18} />
+                             Reset to Defaults
+                         </button>
                          <button 
                              onClick={() => { audioManager.playUI('click'); onClose(); }}
                              className="px-8 py-3 rounded text-white font-bold uppercase tracking-widest hover:bg-white/10 transition-colors"
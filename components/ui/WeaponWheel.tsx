@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameCanvasHandle } from '../GameCanvas';
+import { audioManager } from '../../utils/audio';
+import { getEquipped, roundsLeft, WEAPONS, WeaponDef } from '../../simulation/weapons';
+
+const RADIUS = 110;          // Pixels from the centre to each weapon
+const SELECT_DISTANCE = 40;  // Mouse travel before a direction counts as a choice
+
+interface WeaponWheelProps {
+    game: React.MutableRefObject<GameCanvasHandle | null>;
+}
+
+// Weapons laid out clockwise from the top in slot order
+const SLOTS: WeaponDef[] = Object.values(WEAPONS).sort((a, b) => a.slot - b.slot);
+const slotAngle = (i: number) => (i / SLOTS.length) * Math.PI * 2;
+
+/**
+ * Hold Tab to open, point with the mouse, release to equip. The mouse still turns the camera
+ * underneath, so the wheel reads raw movement rather than a cursor position.
+ */
+const WeaponWheel: React.FC<WeaponWheelProps> = ({ game }) => {
+    const [open, setOpen] = useState(false);
+    const [carried, setCarried] = useState<string[]>([]);
+    const [highlight, setHighlight] = useState<string | null>(null);
+    const aim = useRef({ x: 0, y: 0 });
+    const choice = useRef<string | null>(null);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'Tab') return;
+            e.preventDefault();
+            if (e.repeat) return;
+            const player = game.current?.getState().player;
+            if (!player || player.vehicleId || player.state === 'dead' || player.state === 'busted') return;
+            aim.current = { x: 0, y: 0 };
+            choice.current = getEquipped(player).type;
+            setCarried(player.inventory ?? []);
+            setHighlight(choice.current);
+            setOpen(true);
+        };
+        const onKeyUp = (e: KeyboardEvent) => {
+            if (e.key !== 'Tab' || !choice.current) return;
+            game.current?.selectWeapon(choice.current);
+            choice.current = null; // Set only while the wheel is open
+            setOpen(false);
+        };
+        const onMouseMove = (e: MouseEvent) => {
+            if (!choice.current) return;
+            const a = aim.current;
+            a.x += e.movementX;
+            a.y += e.movementY;
+            const len = Math.hypot(a.x, a.y);
+            if (len < SELECT_DISTANCE) return;
+            // Keep the vector short so changing direction stays responsive
+            if (len > SELECT_DISTANCE * 2) { a.x *= SELECT_DISTANCE * 2 / len; a.y *= SELECT_DISTANCE * 2 / len; }
+            const angle = (Math.atan2(a.x, -a.y) + Math.PI * 2) % (Math.PI * 2);
+            const index = Math.round(angle / (Math.PI * 2) * SLOTS.length) % SLOTS.length;
+            const picked = SLOTS[index].type;
+            if (picked === choice.current || !game.current?.getState().player.inventory?.includes(picked)) return;
+            choice.current = picked;
+            setHighlight(picked);
+            audioManager.playUI('hover');
+        };
+        window.addEventListener('keydown', onKeyDown);
+        window.addEventListener('keyup', onKeyUp);
+        document.addEventListener('mousemove', onMouseMove);
+        return () => {
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+            document.removeEventListener('mousemove', onMouseMove);
+        };
+    }, [game]);
+
+    if (!open) return null;
+    const player = game.current?.getState().player;
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="relative w-72 h-72 rounded-full bg-black/60 border-2 border-white/10">
+                {SLOTS.map((weapon, i) => {
+                    const x = Math.sin(slotAngle(i)) * RADIUS;
+                    const y = -Math.cos(slotAngle(i)) * RADIUS;
+                    const has = carried.includes(weapon.type);
+                    const rounds = player && has ? roundsLeft(player, weapon) : 0;
+                    return (
+                        <div
+                            key={weapon.type}
+                            className={`absolute w-24 -ml-12 -mt-6 text-center rounded px-2 py-1 ${
+                                highlight === weapon.type ? 'bg-yellow-500 text-black scale-110' : has ? 'bg-black/80 text-white' : 'bg-black/40 text-gray-600'
+                            }`}
+                            style={{ left: `calc(50% + ${x}px)`, top: `calc(50% + ${y}px)` }}
+                        >
+                            <div className="font-bold uppercase text-sm">{weapon.type}</div>
+                            <div className="font-mono text-xs">{!has ? '—' : rounds === Infinity ? '∞' : rounds}</div>
+                        </div>
+                    );
+                })}
+                <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-400 uppercase tracking-widest">
+                    {highlight}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WeaponWheel;
@@ -1,7 +1,8 @@
 import React, { useRef, useMemo, useLayoutEffect, memo } from 'react';
 import * as THREE from 'three';
 import { GameMap, TileType } from '../../types';
-import { TILE_SIZE, WORLD_COLORS } from '../../constants';
+import { TILE_SIZE, WATER_LEVEL, WORLD_COLORS } from '../../constants';
+import { createRng, deriveSeed } from '../../utils/random';
 import { useRoadTextures, useSidewalkTexture, useNatureTexture } from '../../hooks/useProceduralTextures';
 
 interface CityMapProps {
@@ -44,6 +45,8 @@ const CityMap = memo(({ map }: CityMapProps) => {
         const cCol: number[] = [];
 
         const dummy = new THREE.Object3D();
+        // Seeded so the same world seed always scatters the same ground detail
+        const rng = createRng(deriveSeed(map.seed, 'clutter'));
 
         map.tiles.forEach((row, z) => row.forEach((tile, x) => {
             dummy.position.set(x * TILE_SIZE, 0, z * TILE_SIZE);
@@ -55,7 +58,7 @@ const CityMap = memo(({ map }: CityMapProps) => {
                 dummy.updateMatrix();
                 rMat.push(dummy.matrix.clone());
             } else if (tile === TileType.WATER) {
-                dummy.position.y = -0.2;
+                dummy.position.y = WATER_LEVEL;
                 dummy.updateMatrix();
                 wMat.push(dummy.matrix.clone());
             } else if (tile === TileType.SIDEWALK || tile === TileType.FLOOR) {
@@ -82,35 +85,35 @@ const CityMap = memo(({ map }: CityMapProps) => {
                 baseColor.getHSL(hsl);
                 // Subtle random shift
                 baseColor.setHSL(
-                    hsl.h + (Math.random() - 0.5) * 0.06, 
+                    hsl.h + (rng.next() - 0.5) * 0.06, 
                     hsl.s, 
-                    hsl.l + (Math.random() - 0.5) * 0.1
+                    hsl.l + (rng.next() - 0.5) * 0.1
                 );
                 nCol.push(baseColor.getHex());
 
                 // SCATTER CLUTTER (Only on Grass)
-                if (tile === TileType.GRASS && Math.random() > 0.6) {
-                    const clutterCount = Math.floor(Math.random() * 3) + 1;
+                if (tile === TileType.GRASS && rng.next() > 0.6) {
+                    const clutterCount = rng.int(3) + 1;
                     for(let k=0; k<clutterCount; k++) {
                         // Random offset within tile
-                        const cx = (x * TILE_SIZE) + (Math.random() - 0.5) * TILE_SIZE * 0.8;
-                        const cz = (z * TILE_SIZE) + (Math.random() - 0.5) * TILE_SIZE * 0.8;
+                        const cx = (x * TILE_SIZE) + (rng.next() - 0.5) * TILE_SIZE * 0.8;
+                        const cz = (z * TILE_SIZE) + (rng.next() - 0.5) * TILE_SIZE * 0.8;
                         
                         // Scale variation
-                        const scale = 0.2 + Math.random() * 0.4;
+                        const scale = 0.2 + rng.next() * 0.4;
                         
                         dummy.position.set(cx, scale * 0.4, cz);
-                        dummy.rotation.set(Math.random() * 0.2, Math.random() * Math.PI, Math.random() * 0.2);
+                        dummy.rotation.set(rng.next() * 0.2, rng.next() * Math.PI, rng.next() * 0.2);
                         dummy.scale.set(scale, scale, scale);
                         dummy.updateMatrix();
                         
                         cMat.push(dummy.matrix.clone());
                         
                         // Random Clutter Color (Green Bush or Grey Rock)
-                        const isBush = Math.random() > 0.4;
+                        const isBush = rng.next() > 0.4;
                         const clutterColor = isBush 
-                             ? new THREE.Color("#166534").multiplyScalar(0.8 + Math.random() * 0.4) // Green
-                             : new THREE.Color("#78716c").multiplyScalar(0.8 + Math.random() * 0.4); // Grey
+                             ? new THREE.Color("#166534").multiplyScalar(0.8 + rng.next() * 0.4) // Green
+                             : new THREE.Color("#78716c").multiplyScalar(0.8 + rng.next() * 0.4); // Grey
                         
                         cCol.push(clutterColor.getHex());
                     }
@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vector3 } from '../../types';
+
+const LIFETIME = 1.2;     // Seconds from the flash to the last of the smoke
+const MAX_BLASTS = 6;     // Chain reactions rarely set off more at once
+const FIREBALL_SIZE = 5;  // Radius at full bloom
+
+export interface Blast {
+    pos: Vector3;
+    age: number;
+}
+
+interface ExplosionsProps {
+    blasts: React.MutableRefObject<Blast[]>;
+}
+
+// A fireball that blooms and fades into a smoke cloud, from a small fixed pool of meshes
+const Explosions: React.FC<ExplosionsProps> = ({ blasts }) => {
+    const fireRefs = useRef<(THREE.Mesh | null)[]>([]);
+    const smokeRefs = useRef<(THREE.Mesh | null)[]>([]);
+    const lightRef = useRef<THREE.PointLight>(null);
+
+    useFrame((_, delta) => {
+        const list = blasts.current;
+        if (list.length > MAX_BLASTS) list.splice(0, list.length - MAX_BLASTS);
+        for (const blast of list) blast.age += delta;
+        blasts.current = list.filter(blast => blast.age < LIFETIME);
+
+        for (let i = 0; i < MAX_BLASTS; i++) {
+            const fire = fireRefs.current[i];
+            const smoke = smokeRefs.current[i];
+            if (!fire || !smoke) continue;
+            const blast = blasts.current[i];
+            fire.visible = smoke.visible = !!blast;
+            if (!blast) continue;
+
+            const k = blast.age / LIFETIME;
+            fire.position.set(blast.pos.x, 1 + k * 2, blast.pos.z);
+            fire.scale.setScalar(FIREBALL_SIZE * Math.min(1, k * 4) * (1 - k * 0.5));
+            (fire.material as THREE.MeshBasicMaterial).opacity = Math.max(0, 1 - k * 2);
+            smoke.position.set(blast.pos.x, 2 + k * 5, blast.pos.z);
+            smoke.scale.setScalar(FIREBALL_SIZE * (0.5 + k));
+            (smoke.material as THREE.MeshBasicMaterial).opacity = 0.6 * (1 - k);
+        }
+
+        // One light is enough to sell the flash; it follows the newest blast
+        if (lightRef.current) {
+            const latest = blasts.current[blasts.current.length - 1];
+            lightRef.current.intensity = latest ? 40 * Math.max(0, 1 - latest.age * 3) : 0;
+            if (latest) lightRef.current.position.set(latest.pos.x, 3, latest.pos.z);
+        }
+    });
+
+    return (
+        <>
+            {Array(MAX_BLASTS).fill(0).map((_, i) => (
+                <React.Fragment key={i}>
+                    <mesh ref={el => { fireRefs.current[i] = el; }} visible={false}>
+                        <sphereGeometry args={[1, 16, 12]} />
+                        <meshBasicMaterial color="#fb923c" transparent depthWrite={false} blending={THREE.AdditiveBlending} toneMapped={false} />
+                    </mesh>
+                    <mesh ref={el => { smokeRefs.current[i] = el; }} visible={false}>
+                        <sphereGeometry args={[1, 12, 8]} />
+                        <meshBasicMaterial color="#292524" transparent depthWrite={false} />
+                    </mesh>
+                </React.Fragment>
+            ))}
+            <pointLight ref={lightRef} color="#fdba74" intensity={0} distance={30} decay={2} />
+        </>
+    );
+};
+
+export default Explosions;
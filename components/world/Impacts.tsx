@@ -0,0 +1,89 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vector3 } from '../../types';
+import { ImpactMaterial } from '../../simulation/types';
+
+const LIFETIME = 0.4;      // Seconds a burst stays on screen
+const PARTICLES = 6;       // Chips per burst
+const MAX_IMPACTS = 48;    // Oldest bursts are dropped beyond this
+const GRAVITY = 9.8;
+
+// Colour and burst speed per surface: metal throws bright sparks, walls and hillsides puff dust
+const STYLES: Record<ImpactMaterial, { color: string; speed: number; size: number }> = {
+    concrete: { color: '#d6d3d1', speed: 2.5, size: 0.12 },
+    metal: { color: '#fde047', speed: 6, size: 0.06 },
+    wood: { color: '#92400e', speed: 3, size: 0.1 },
+    flesh: { color: '#991b1b', speed: 2, size: 0.1 },
+    rock: { color: '#a8a29e', speed: 2.5, size: 0.14 }
+};
+
+export interface Impact {
+    pos: Vector3;
+    material: ImpactMaterial;
+    age: number;
+}
+
+interface ImpactsProps {
+    impacts: React.MutableRefObject<Impact[]>;
+}
+
+// Fixed scatter directions, shared by every burst and rotated per impact so neighbours don't look identical
+const DIRECTIONS = Array(PARTICLES).fill(0).map((_, i) => {
+    const yaw = (i / PARTICLES) * Math.PI * 2;
+    const up = 0.4 + (i % 3) * 0.3;
+    return new THREE.Vector3(Math.cos(yaw), up, Math.sin(yaw)).normalize();
+});
+
+// Short-lived chips thrown off wherever a bullet lands
+const Impacts: React.FC<ImpactsProps> = ({ impacts }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+    const color = useMemo(() => new THREE.Color(), []);
+    // Attached up front so the material is compiled with per-instance colours
+    const colors = useMemo(() => new Float32Array(MAX_IMPACTS * PARTICLES * 3), []);
+
+    useFrame((_, delta) => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const list = impacts.current;
+        if (list.length > MAX_IMPACTS) list.splice(0, list.length - MAX_IMPACTS);
+        for (const impact of list) impact.age += delta;
+        impacts.current = list.filter(impact => impact.age < LIFETIME);
+
+        let n = 0;
+        impacts.current.forEach((impact, k) => {
+            const style = STYLES[impact.material];
+            const fade = 1 - impact.age / LIFETIME;
+            const turn = k * 1.7;
+            color.set(style.color);
+            for (const dir of DIRECTIONS) {
+                const dx = dir.x * Math.cos(turn) - dir.z * Math.sin(turn);
+                const dz = dir.x * Math.sin(turn) + dir.z * Math.cos(turn);
+                dummy.position.set(
+                    impact.pos.x + dx * style.speed * impact.age,
+                    impact.pos.y + dir.y * style.speed * impact.age - GRAVITY * impact.age * impact.age / 2,
+                    impact.pos.z + dz * style.speed * impact.age
+                );
+                dummy.scale.setScalar(style.size * fade);
+                dummy.updateMatrix();
+                mesh.setMatrixAt(n, dummy.matrix);
+                mesh.setColorAt(n, color);
+                n++;
+            }
+        });
+        mesh.count = n;
+        mesh.instanceMatrix.needsUpdate = true;
+        mesh.instanceColor!.needsUpdate = true;
+    });
+
+    return (
+        <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_IMPACTS * PARTICLES]} frustumCulled={false}>
+            <boxGeometry args={[1, 1, 1]} />
+            <instancedBufferAttribute attach="instanceColor" args={[colors, 3]} />
+            <meshBasicMaterial toneMapped={false} />
+        </instancedMesh>
+    );
+};
+
+export default Impacts;
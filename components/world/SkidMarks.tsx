@@ -0,0 +1,96 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Entity, EntityType, GameState, TileType, Vector3 } from '../../types';
+import { lateralSlip, SKID_SLIP } from '../../simulation/systems/vehicles';
+import { vehicleDefOf } from '../../simulation/vehicleClasses';
+import { worldToTile } from '../../utils/pathfinding';
+
+const MAX_MARKS = 600;     // Oldest segments are reused beyond this
+const LIFETIME = 20;       // Seconds before a mark has worn away
+const FADE = 5;            // ...thinning out over the last few
+const SEGMENT = 0.4;       // Metres a tyre travels between segments
+const MARK_WIDTH = 0.25;
+const MARK_RANGE = 80;     // Only cars this close to the player leave marks
+
+// Marks sit just above the surface they're drawn on; grass and sand don't take them
+const SURFACE_HEIGHT: Partial<Record<TileType, number>> = {
+    [TileType.ROAD]: 0.07,
+    [TileType.SIDEWALK]: 0.22,
+    [TileType.FLOOR]: 0.22
+};
+
+interface Mark { from: THREE.Vector3; to: THREE.Vector3; age: number }
+
+interface SkidMarksProps {
+    stateRef: React.MutableRefObject<GameState>;
+}
+
+// Where each rear tyre touches the road
+const rearWheels = (car: Entity): Vector3[] => {
+    const track = vehicleDefOf(car).model === 'motorbike' ? [0] : [car.size.x * 0.42, -car.size.x * 0.42];
+    const back = -car.size.z * 0.33;
+    const cos = Math.cos(car.rotation.y), sin = Math.sin(car.rotation.y);
+    return track.map(x => ({ x: car.pos.x + x * cos + back * sin, y: 0, z: car.pos.z - x * sin + back * cos }));
+};
+
+// Dark rubber streaks left behind by sliding tyres, drawn as one instanced batch of flat strips
+const SkidMarks: React.FC<SkidMarksProps> = ({ stateRef }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const marks = useRef<Mark[]>([]);
+    // Last point each sliding tyre marked, per car; dropped when it stops sliding
+    const last = useRef(new WeakMap<Entity, THREE.Vector3[]>());
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+
+    useFrame((_, delta) => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const state = stateRef.current;
+        const player = state.player;
+
+        for (const car of state.entities) {
+            if (car.type !== EntityType.VEHICLE || car.state === 'dead') continue;
+            if (Math.hypot(car.pos.x - player.pos.x, car.pos.z - player.pos.z) > MARK_RANGE) continue;
+            const { x, z } = worldToTile(car.pos, state.map);
+            const height = SURFACE_HEIGHT[state.map.tiles[z]?.[x]];
+            if (height === undefined || Math.abs(lateralSlip(car)) < SKID_SLIP) {
+                last.current.delete(car);
+                continue;
+            }
+            const wheels = rearWheels(car).map(w => new THREE.Vector3(w.x, height, w.z));
+            const previous = last.current.get(car);
+            if (!previous) {
+                last.current.set(car, wheels);
+                continue;
+            }
+            if (previous[0].distanceTo(wheels[0]) < SEGMENT) continue;
+            wheels.forEach((to, i) => marks.current.push({ from: previous[i], to, age: 0 }));
+            last.current.set(car, wheels);
+        }
+
+        const list = marks.current;
+        if (list.length > MAX_MARKS) list.splice(0, list.length - MAX_MARKS);
+        for (const mark of list) mark.age += delta;
+        marks.current = list.filter(mark => mark.age < LIFETIME);
+
+        marks.current.forEach((mark, i) => {
+            const dx = mark.to.x - mark.from.x, dz = mark.to.z - mark.from.z;
+            dummy.position.set((mark.from.x + mark.to.x) / 2, mark.to.y, (mark.from.z + mark.to.z) / 2);
+            dummy.rotation.set(-Math.PI / 2, 0, Math.atan2(dx, dz));
+            dummy.scale.set(MARK_WIDTH * Math.min(1, (LIFETIME - mark.age) / FADE), Math.hypot(dx, dz), 1);
+            dummy.updateMatrix();
+            mesh.setMatrixAt(i, dummy.matrix);
+        });
+        mesh.count = marks.current.length;
+        mesh.instanceMatrix.needsUpdate = true;
+    });
+
+    return (
+        <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_MARKS]} frustumCulled={false}>
+            <planeGeometry args={[1, 1]} />
+            <meshBasicMaterial color="#111" transparent opacity={0.55} depthWrite={false} />
+        </instancedMesh>
+    );
+};
+
+export default SkidMarks;
@@ -1,12 +1,14 @@
 import { TileType } from './types';
 
-export const CANVAS_WIDTH = window.innerWidth;
-export const CANVAS_HEIGHT = window.innerHeight;
+// Guarded so the simulation can import constants outside the browser
+export const CANVAS_WIDTH = typeof window !== 'undefined' ? window.innerWidth : 0;
+export const CANVAS_HEIGHT = typeof window !== 'undefined' ? window.innerHeight : 0;
 
 // 3D Scale: 1 unit = 1 meter approx
 export const TILE_SIZE = 10; 
 export const MAP_WIDTH = 100;
 export const MAP_HEIGHT = 100;
+export const WATER_LEVEL = -0.2; // Height of the sea surface
 
 export const WORLD_COLORS = {
   [TileType.GRASS]: '#10b981', // emerald-500
@@ -26,15 +28,11 @@ export const ROTATION_SPEED = 0.05;
 // Physics Tuning
 export const PLAYER_ACCEL = 80.0; // Very snappy acceleration
 export const PLAYER_FRICTION = 40.0; // High friction = instant stopping (no sliding)
-export const PLAYER_MAX_SPEED = 8.0; // Good running speed
-
-// Vehicle Physics
-export const VEHICLE_ACCEL = 20.0;
-export const VEHICLE_BRAKE = 15.0;
-export const VEHICLE_MAX_SPEED = 35.0;
-export const VEHICLE_FRICTION = 2.0; // Rolling resistance
-export const VEHICLE_DRAG = 0.5; // Air resistance
-export const VEHICLE_STEER_SPEED = 2.5;
+export const PLAYER_WALK_SPEED = 2.5; // Holding the walk key
+export const PLAYER_MAX_SPEED = 8.0; // Jogging, the default pace
+export const PLAYER_SPRINT_SPEED = 11.0; // Sprinting, for as long as stamina lasts
+export const PLAYER_MAX_ARMOR = 100;
+export const PLAYER_STAMINA = 100; // Stamina a new player starts with; sprinting trains it up
 
 export const FACTION_COLORS = {
   civilian: '#fca5a5',
@@ -3,6 +3,7 @@ import { useThree, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { GameState, EntityType, GameSettings } from '../types';
 import { damp, intersectRayAABB } from '../utils/math';
+import { getSpatialIndex } from '../utils/spatialGrid';
 
 const CAMERA_MODES = [
   { name: 'NORMAL', dist: 5.5 },
@@ -62,10 +63,9 @@ export const useGameCamera = (stateRef: React.MutableRefObject<GameState>, sub:
         // Camera Collision
         let collisionLimit = targetDist;
         const rayOrigin = pivotPos;
-        const nearbySq = 40*40;
-        for (const e of stateRef.current.entities) {
+        const candidates = getSpatialIndex(stateRef.current).queryRay(pivotPos.x, pivotPos.z, dir.x, dir.z, targetDist);
+        for (const e of candidates) {
              if (e.type !== EntityType.BUILDING) continue;
-             if ((e.pos.x-pivotPos.x)**2 + (e.pos.z-pivotPos.z)**2 > nearbySq) continue;
              const b = 0.5;
              const t = intersectRayAABB(rayOrigin, dir, 
                 new THREE.Vector3(e.pos.x-e.size.x/2-b, e.pos.y-e.size.y/2-b, e.pos.z-e.size.z/2-b),
@@ -1,3 +1,5 @@
+import { MISSION_SCRIPTS } from '../simulation/missions/scripts';
+
 // Replaced AI service with static generators
 const NPC_DIALOGUES = {
   civilian: [
@@ -45,18 +47,12 @@ const NPC_DIALOGUES = {
   ]
 };
 
-const MISSIONS = [
-    { title: "Turf War", description: "Take out the rival gang members at the park." },
-    { title: "Delivery Run", description: "Deliver the package to the docks in under 2 minutes." },
-    { title: "Car Jacking", description: "Steal a blue sports car and bring it to the garage." },
-    { title: "Street Race", description: "Win the race around the downtown block." },
-    { title: "Protection", description: "Defend the shop from looters." },
-    { title: "Payback", description: "Teach the Ballas a lesson." },
-    { title: "Joyride", description: "Drive at top speed for 30 seconds without crashing." },
-    { title: "Taxi Duty", description: "Pick up a fare and drop them off safely." },
-    { title: "Heist Prep", description: "Scout the bank downtown for security cameras." },
-    { title: "Vigilante", description: "Stop the fleeing criminal vehicle." }
-];
+// Offered on the phone; the scripts themselves live with the simulation
+const MISSIONS = Object.entries(MISSION_SCRIPTS).map(([id, script]) => ({
+    id,
+    title: script.title,
+    description: script.description
+}));
 
 export const generateNpcDialogue = async (
   npcRole: string,
@@ -72,7 +68,7 @@ export const generateNpcDialogue = async (
   return lines[Math.floor(Math.random() * lines.length)];
 };
 
-export const generateMission = async (): Promise<{ title: string; description: string }> => {
+export const generateMission = async (): Promise<{ id: string; title: string; description: string }> => {
   await new Promise(resolve => setTimeout(resolve, 100));
   return MISSIONS[Math.floor(Math.random() * MISSIONS.length)];
 };
\ No newline at end of file
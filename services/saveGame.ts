@@ -0,0 +1,243 @@
+import { ActiveMission, Entity, EntityType, GameState, Territory, VehicleClass, WeaponAmmo } from '../types';
+import { PLAYER_STAMINA } from '../constants';
+import { generateWorld, placeServices } from '../utils/worldGen';
+import { getLocationName } from '../utils/districts';
+import { createPursuitState } from '../simulation/systems/police';
+import { getWeaponDef } from '../simulation/weapons';
+import { createRng, deriveSeed } from '../utils/random';
+
+// Bump when SavedGameState changes shape, and add a migration from the previous version below
+export const SAVE_VERSION = 10;
+export const SAVE_SLOTS = 3;
+
+const KEY_PREFIX = 'san-reactos:save';
+const metaKey = (slot: number) => `${KEY_PREFIX}:${slot}:meta`;
+const dataKey = (slot: number) => `${KEY_PREFIX}:${slot}:data`;
+
+// The map is not stored: it is regenerated from the seed on load
+export interface SavedGameState {
+    seed: number;
+    player: Entity;
+    entities: Entity[];
+    money: number;
+    wantedLevel: number;
+    timeOfDay: number;
+    mission: ActiveMission | null;
+    clock: number;
+    tick: number;
+    turf: Territory[];
+}
+
+export interface SaveMeta {
+    slot: number;
+    version: number;
+    savedAt: number;    // Epoch ms
+    playTime: number;   // Seconds of simulated play
+    location: string;
+    money: number;
+    seed: number;
+    thumbnail: string | null; // Small JPEG data URL
+}
+
+export interface SaveFile {
+    version: number;
+    meta: SaveMeta;
+    state: SavedGameState;
+}
+
+// A save part-way through migration. Only the version can be relied on; the state is whatever that version
+// wrote, so beyond the fields every version has stored, each step checks what it reads
+interface VersionedSave {
+    version: number;
+    meta?: Partial<SaveMeta>;
+    state: LegacyState;
+}
+
+interface LegacyState {
+    seed: number;
+    player: Entity;
+    entities: Entity[];
+    [field: string]: unknown;
+}
+
+type Migration = (save: VersionedSave) => VersionedSave;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isVersionedSave = (raw: unknown): raw is VersionedSave =>
+    isObject(raw) && typeof raw.version === 'number' && isObject(raw.state) &&
+    typeof raw.state.seed === 'number' && isObject(raw.state.player) && Array.isArray(raw.state.entities);
+
+// Entities a migration brings in from a freshly generated world, renamed so they can't take the id of
+// anything the save already holds
+const withFreshIds = (save: VersionedSave, added: Entity[], salt: string): Entity[] => {
+    const rng = createRng(deriveSeed(save.state.seed, salt));
+    const taken = new Set([save.state.player.id, ...save.state.entities.map(e => e.id)]);
+    return added.map(e => {
+        let id = rng.id();
+        while (taken.has(id)) id = rng.id();
+        taken.add(id);
+        return { ...e, id };
+    });
+};
+
+/**
+ * Upgrades a save written by version N to N + 1. Keyed by the version being migrated FROM.
+ * e.g. `1: (save) => ({ ...save, version: 2, state: { ...save.state, newField: defaultValue } })`
+ */
+const MIGRATIONS: Record<number, Migration> = {
+    // v1 stored only the announced mission title; there is no script state to resume from
+    1: (save) => ({ ...save, version: 2, state: { ...save.state, mission: null } }),
+    // v2 predates gang turf: start from the seed's opening map of who holds what
+    2: (save) => ({ ...save, version: 3, state: { ...save.state, turf: generateWorld(save.state.seed).turf } }),
+    // v3 guns never ran dry: hand over a full magazine plus a pickup's worth of rounds for each one
+    3: (save) => {
+        const player: Entity = save.state.player;
+        const ammo: Record<string, WeaponAmmo> = {};
+        for (const weapon of player.inventory ?? []) {
+            const def = getWeaponDef(weapon);
+            if (!def.melee) ammo[def.type] = { clip: def.magazine, reserve: def.pickupAmmo };
+        }
+        return { ...save, version: 4, state: { ...save.state, player: { ...player, weaponSlot: 0, ammo } } };
+    },
+    // v4 NPCs hovered at chest height, where bullets now pass under their feet: stand them on the ground
+    4: (save) => {
+        const onFoot = [EntityType.CIVILIAN, EntityType.GANG_MEMBER, EntityType.POLICE];
+        const entities = save.state.entities.map((e: Entity) => onFoot.includes(e.type) ? { ...e, pos: { ...e.pos, y: 0 } } : e);
+        return { ...save, version: 5, state: { ...save.state, entities } };
+    },
+    // v5 had one kind of car: cruisers keep their light bars, everything else was a sedan
+    5: (save) => {
+        const entities = save.state.entities.map((e: Entity) => e.type !== EntityType.VEHICLE ? e
+            : { ...e, vehicleClass: e.faction === 'police' ? VehicleClass.POLICE : VehicleClass.SEDAN });
+        return { ...save, version: 6, state: { ...save.state, entities } };
+    },
+    // v6 had no boats: launch the seed's fleet
+    6: (save) => {
+        const fleet = generateWorld(save.state.seed).entities.filter(e => e.vehicleClass === VehicleClass.BOAT);
+        const boats = withFreshIds(save, fleet, 'migrate:boats');
+        return { ...save, version: 7, state: { ...save.state, entities: [...save.state.entities, ...boats] } };
+    },
+    // v7 ran flat out forever: start the player's stamina from scratch
+    7: (save) => ({
+        ...save, version: 8,
+        state: { ...save.state, player: { ...save.state.player, stamina: PLAYER_STAMINA, maxStamina: PLAYER_STAMINA } }
+    }),
+    // v8 had no armour or health packs: put out the seed's
+    8: (save) => {
+        const supplies = withFreshIds(save, generateWorld(save.state.seed).entities.filter(e => e.supply), 'migrate:supplies');
+        return { ...save, version: 9, state: { ...save.state, entities: [...save.state.entities, ...supplies] } };
+    },
+    // v9 had nowhere to come round but the start: open hospitals and police stations in the save's own
+    // buildings, picked from the seed's streets the way a new game picks them
+    9: (save) => {
+        const entities = save.state.entities.map((e: Entity) => e.type === EntityType.BUILDING ? { ...e } : e);
+        placeServices(entities.filter(e => e.type === EntityType.BUILDING), generateWorld(save.state.seed).map.tiles);
+        return { ...save, version: 10, state: { ...save.state, entities } };
+    }
+    // No step for gang guns: the shape didn't change, so gang members in saves from before they were armed
+    // stay on their fists, and only a new game hands them weapons
+};
+
+export const migrateSave = (raw: unknown): SaveFile => {
+    if (!isVersionedSave(raw)) throw new Error('Not a save file');
+    let save = raw;
+    while (save.version < SAVE_VERSION) {
+        const migrate = MIGRATIONS[save.version];
+        if (!migrate) throw new Error(`No migration from save version ${save.version}`);
+        save = migrate(save);
+    }
+    if (save.version > SAVE_VERSION) throw new Error(`Save version ${save.version} is newer than this game (${SAVE_VERSION})`);
+    // Brought up to SAVE_VERSION, the state has the shape this build writes
+    return { ...save, meta: { ...save.meta, version: save.version } } as unknown as SaveFile;
+};
+
+// Deep copies so the live game keeps mutating its own objects
+export const serializeGameState = (state: GameState): SavedGameState => JSON.parse(JSON.stringify({
+    seed: state.seed,
+    player: state.player,
+    // Bullets in flight are not worth persisting
+    entities: state.entities.filter(e => e.type !== EntityType.PROJECTILE),
+    money: state.money,
+    wantedLevel: state.wantedLevel,
+    timeOfDay: state.timeOfDay,
+    mission: state.mission,
+    clock: state.clock,
+    tick: state.tick,
+    turf: state.turf
+}));
+
+export const deserializeGameState = (saved: SavedGameState): GameState => {
+    const { map } = generateWorld(saved.seed);
+    return {
+        ...JSON.parse(JSON.stringify(saved)),
+        map,
+        pursuit: createPursuitState(),
+        dialogue: null,
+        paused: false,
+        markers: [], // Re-derived by whatever placed them (missions, waypoints)
+        route: null,
+        gangWar: null // A war in progress is forfeited; its attackers are saved like anyone else
+    };
+};
+
+export const createSave = (slot: number, state: GameState, thumbnail: string | null): SaveFile => ({
+    version: SAVE_VERSION,
+    meta: {
+        slot,
+        version: SAVE_VERSION,
+        savedAt: Date.now(),
+        playTime: state.clock,
+        location: getLocationName(state.player.pos, state.map),
+        money: state.money,
+        seed: state.seed,
+        thumbnail
+    },
+    state: serializeGameState(state)
+});
+
+// Throws if storage is full or unavailable so the UI can report it. The meta only goes in once the data
+// has, and a failure in between puts the slot back as it was, so a slot's meta always describes its data
+export const writeSave = (save: SaveFile) => {
+    const slot = save.meta.slot;
+    const previous = localStorage.getItem(dataKey(slot));
+    localStorage.setItem(dataKey(slot), JSON.stringify(save));
+    try {
+        localStorage.setItem(metaKey(slot), JSON.stringify(save.meta));
+    } catch (err) {
+        try {
+            if (previous === null) localStorage.removeItem(dataKey(slot));
+            else localStorage.setItem(dataKey(slot), previous);
+        } catch {
+            deleteSave(slot); // Couldn't even restore it: better an empty slot than a mismatched one
+        }
+        throw err;
+    }
+};
+
+export const readSave = (slot: number): SaveFile | null => {
+    const raw = localStorage.getItem(dataKey(slot));
+    if (!raw) return null;
+    try {
+        return migrateSave(JSON.parse(raw));
+    } catch (err) {
+        console.error(`Failed to read save slot ${slot}`, err);
+        return null;
+    }
+};
+
+export const deleteSave = (slot: number) => {
+    localStorage.removeItem(dataKey(slot));
+    localStorage.removeItem(metaKey(slot));
+};
+
+// Slot metadata only, so the load screen never parses full world snapshots
+export const listSaveSlots = (): (SaveMeta | null)[] =>
+    Array(SAVE_SLOTS).fill(0).map((_, slot) => {
+        try {
+            const raw = localStorage.getItem(metaKey(slot));
+            return raw ? JSON.parse(raw) as SaveMeta : null;
+        } catch {
+            return null;
+        }
+    });
@@ -0,0 +1,102 @@
+import { GameSettings } from '../types';
+
+// Bump to discard stored settings whose meaning changed (unknown or invalid fields already fall back to defaults)
+const SETTINGS_VERSION = 1;
+const SETTINGS_KEY = 'san-reactos:settings';
+
+export const RESOLUTIONS = ['3840x2160', '2560x1440', '1920x1080', '1280x720'];
+export const QUALITY_LEVELS: GameSettings['graphics']['quality'][] = ['Ultra', 'High', 'Medium', 'Low'];
+export const FRAME_CAPS = [0, 30, 60, 120, 144]; // 0 = uncapped
+
+export const DEFAULT_SETTINGS: GameSettings = {
+    audio: { master: 0.3, music: 0.8, sfx: 0.75 },
+    graphics: {
+        resolution: '1920x1080',
+        quality: 'High',
+        vsync: true,
+        frameCap: 0,
+        ambientOcclusion: true,
+        bloom: true
+    },
+    gameplay: {
+        sensitivity: 50,
+        invertY: false,
+        showHud: true
+    }
+};
+
+// Each reader returns the fallback unless the stored value is the right type and in range
+const readNumber = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const readBoolean = (value: unknown, fallback: boolean) =>
+    typeof value === 'boolean' ? value : fallback;
+
+const readOption = <T,>(value: unknown, options: readonly T[], fallback: T): T =>
+    options.includes(value as T) ? value as T : fallback;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// A section of the stored settings, or an empty one if it's missing or not an object
+const readSection = (raw: unknown, key: string): Record<string, unknown> => {
+    const section = isObject(raw) ? raw[key] : undefined;
+    return isObject(section) ? section : {};
+};
+
+/** Coerces anything (old versions, hand-edited storage, partial objects) into complete, valid settings. */
+export const validateSettings = (raw: unknown): GameSettings => {
+    const d = DEFAULT_SETTINGS;
+    const audio = readSection(raw, 'audio');
+    const graphics = readSection(raw, 'graphics');
+    const gameplay = readSection(raw, 'gameplay');
+    return {
+        audio: {
+            master: readNumber(audio.master, d.audio.master, 0, 1),
+            music: readNumber(audio.music, d.audio.music, 0, 1),
+            sfx: readNumber(audio.sfx, d.audio.sfx, 0, 1)
+        },
+        graphics: {
+            resolution: readOption(graphics.resolution, RESOLUTIONS, d.graphics.resolution),
+            quality: readOption(graphics.quality, QUALITY_LEVELS, d.graphics.quality),
+            vsync: readBoolean(graphics.vsync, d.graphics.vsync),
+            frameCap: readOption(graphics.frameCap, FRAME_CAPS, d.graphics.frameCap),
+            ambientOcclusion: readBoolean(graphics.ambientOcclusion, d.graphics.ambientOcclusion),
+            bloom: readBoolean(graphics.bloom, d.graphics.bloom)
+        },
+        gameplay: {
+            sensitivity: readNumber(gameplay.sensitivity, d.gameplay.sensitivity, 1, 100),
+            invertY: readBoolean(gameplay.invertY, d.gameplay.invertY),
+            showHud: readBoolean(gameplay.showHud, d.gameplay.showHud)
+        }
+    };
+};
+
+export const loadSettings = (): GameSettings => {
+    try {
+        const raw = localStorage.getItem(SETTINGS_KEY);
+        if (!raw) return DEFAULT_SETTINGS;
+        const stored: unknown = JSON.parse(raw);
+        if (!isObject(stored) || stored.version !== SETTINGS_VERSION) return DEFAULT_SETTINGS;
+        return validateSettings(stored.settings);
+    } catch (err) {
+        console.warn('Ignoring unreadable settings', err);
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const saveSettings = (settings: GameSettings) => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+    } catch (err) {
+        // Settings still apply for this session
+        console.warn('Could not persist settings', err);
+    }
+};
+
+// Device pixel ratio that makes the drawing buffer match the chosen resolution at the current viewport size
+export const getRenderScale = (settings: GameSettings, viewportHeight: number): number => {
+    const qualityScale = { Low: 0.6, Medium: 0.8, High: 1.0, Ultra: 1.5 }[settings.graphics.quality] ?? 1.0;
+    const targetHeight = parseInt(settings.graphics.resolution.split('x')[1], 10) || 1080;
+    const scale = (targetHeight / Math.max(1, viewportHeight)) * qualityScale;
+    return Math.min(3, Math.max(0.25, scale));
+};
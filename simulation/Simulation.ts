@@ -0,0 +1,124 @@
+import { Entity, EntityType, GameState, WeaponType } from '../types';
+import { PLAYER_STAMINA, TILE_SIZE } from '../constants';
+import { generateWorld, SPAWN_COORDS, WorldGenOptions } from '../utils/worldGen';
+import { createRng, deriveSeed } from '../utils/random';
+import { getSpatialIndex } from '../utils/spatialGrid';
+import { SimContext, SimEvent, SimInput } from './types';
+import { lifecycleSystem } from './systems/lifecycle';
+import { timeSystem } from './systems/time';
+import { combatSystem } from './systems/combat';
+import { projectileSystem } from './systems/projectiles';
+import { pickupSystem } from './systems/pickups';
+import { terrainSystem } from './systems/terrain';
+import { vehicleSystem } from './systems/vehicles';
+import { vehicleDamageSystem } from './systems/vehicleDamage';
+import { movementSystem } from './systems/movement';
+import { navigationSystem } from './systems/navigation';
+import { failMission, missionSystem } from './systems/missions';
+import { createPursuitState, policeSystem } from './systems/police';
+import { pedestrianSystem } from './systems/pedestrians';
+import { trafficSystem } from './systems/traffic';
+import { endGangWar, turfSystem } from './systems/turf';
+
+type System = (state: GameState, ctx: SimContext) => void;
+
+// Wasted or busted: either way the world waits for the respawn
+const isPlayerDown = (state: GameState) => state.player.state === 'dead' || state.player.state === 'busted';
+
+// Run order matters: combat spawns bullets before they fly, terrain can kill before anyone moves
+const SYSTEMS: System[] = [
+    timeSystem,
+    combatSystem,
+    projectileSystem,
+    pickupSystem,
+    terrainSystem,
+    vehicleSystem,
+    vehicleDamageSystem,
+    movementSystem,
+    policeSystem,
+    trafficSystem,
+    pedestrianSystem,
+    turfSystem,
+    navigationSystem,
+    missionSystem
+];
+
+export const createPlayer = (): Entity => ({
+    id: 'player',
+    type: EntityType.PLAYER,
+    // Initialize player at the safe spawn road intersection
+    pos: { x: SPAWN_COORDS.x * TILE_SIZE, y: 0.5, z: SPAWN_COORDS.z * TILE_SIZE },
+    vel: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    health: 100,
+    maxHealth: 100,
+    color: '#fff',
+    size: { x: 0.8, y: 1.8, z: 0.8 },
+    state: 'idle',
+    stamina: PLAYER_STAMINA,
+    maxStamina: PLAYER_STAMINA,
+    inventory: [WeaponType.FIST],
+    weaponSlot: 0,
+    ammo: {},
+    faction: 'groves'
+});
+
+export const createGameState = (seed: number, options: Partial<WorldGenOptions> = {}): GameState => {
+    const { map, entities, turf } = generateWorld(seed, options);
+    return {
+        player: createPlayer(),
+        entities,
+        map,
+        seed,
+        timeOfDay: 720,
+        money: 350,
+        wantedLevel: 0,
+        pursuit: createPursuitState(),
+        dialogue: null,
+        mission: null,
+        paused: false,
+        clock: 0,
+        tick: 0,
+        markers: [],
+        route: null,
+        turf,
+        gangWar: null,
+        penalty: null
+    };
+};
+
+/**
+ * Advances the world by `dt` seconds. Mutates `state` in place and returns what happened,
+ * so callers (renderer, server, tests) decide how to present it.
+ */
+export const step = (state: GameState, input: SimInput, dt: number): SimEvent[] => {
+    const events: SimEvent[] = [];
+    const ctx: SimContext = {
+        input,
+        dt,
+        // Fresh stream per step keeps runs reproducible from (seed, inputs) alone
+        rng: createRng(deriveSeed(state.seed, `step:${state.tick}`)),
+        emit: (event) => { events.push(event); }
+    };
+
+    state.clock += dt;
+    state.tick++;
+
+    // Pick up anything spawned or removed outside the simulation since the last step
+    getSpatialIndex(state).sync(state.entities);
+
+    lifecycleSystem(state, ctx);
+    if (isPlayerDown(state)) {
+        failMission(state, state.player.state === 'busted' ? 'You got busted' : 'You got wasted', ctx);
+        endGangWar(state, false, ctx);
+        return events; // World is frozen behind the wasted screen
+    }
+
+    for (const system of SYSTEMS) {
+        system(state, ctx);
+        if (isPlayerDown(state)) break;
+    }
+    return events;
+};
+
+export const Simulation = { step, createGameState, createPlayer };
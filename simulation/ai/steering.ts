@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import { Entity, EntityType, GameState, Vector3 } from '../../types';
+import { intersectRayAABB } from '../../utils/math';
+import { checkCollision } from '../../utils/physics';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+
+const EYE_HEIGHT = 1.5;
+
+export const distXZ = (a: Vector3, b: Vector3) => Math.hypot(a.x - b.x, a.z - b.z);
+
+export const speedXZ = (e: Entity) => Math.hypot(e.vel.x, e.vel.z);
+
+export const faceTowards = (e: Entity, target: Vector3) => {
+    e.rotation.y = Math.atan2(target.x - e.pos.x, target.z - e.pos.z);
+};
+
+export const stopMoving = (e: Entity) => { e.vel.x = 0; e.vel.z = 0; };
+
+// Walk towards a point, sliding along obstacles the same way player movement does
+export const walkTowards = (state: GameState, e: Entity, target: Vector3, speed: number, dt: number) => {
+    const dx = target.x - e.pos.x;
+    const dz = target.z - e.pos.z;
+    const dist = Math.hypot(dx, dz);
+    if (dist < 0.1) { stopMoving(e); return; }
+    e.vel.x = (dx / dist) * speed;
+    e.vel.z = (dz / dist) * speed;
+    faceTowards(e, target);
+
+    const grid = getSpatialIndex(state);
+    const nextX = e.pos.x + e.vel.x * dt;
+    if (!checkCollision({ x: nextX, y: 0, z: e.pos.z }, e.size, grid, e.id)) e.pos.x = nextX;
+    const nextZ = e.pos.z + e.vel.z * dt;
+    if (!checkCollision({ x: e.pos.x, y: 0, z: nextZ }, e.size, grid, e.id)) e.pos.z = nextZ;
+    grid.update(e);
+};
+
+export const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+// True when no building stands between the two points, tested at eye height
+export const hasLineOfSight = (state: GameState, from: Vector3, to: Vector3): boolean => {
+    const dir = new THREE.Vector3(to.x - from.x, 0, to.z - from.z);
+    const dist = dir.length();
+    if (dist < 1e-6) return true;
+    dir.divideScalar(dist);
+    const origin = new THREE.Vector3(from.x, EYE_HEIGHT, from.z);
+    for (const e of getSpatialIndex(state).queryRay(from.x, from.z, dir.x, dir.z, dist)) {
+        if (e.type !== EntityType.BUILDING) continue;
+        const t = intersectRayAABB(origin, dir,
+            new THREE.Vector3(e.pos.x - e.size.x / 2, e.pos.y - e.size.y / 2, e.pos.z - e.size.z / 2),
+            new THREE.Vector3(e.pos.x + e.size.x / 2, e.pos.y + e.size.y / 2, e.pos.z + e.size.z / 2)
+        );
+        if (t !== null && t < dist) return false;
+    }
+    return true;
+};
@@ -0,0 +1,126 @@
+import { ActiveMission, Entity, EntityType, GameState, MissionActor } from '../../types';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { distXZ, faceTowards, stopMoving, walkTowards } from '../ai/steering';
+import { applyDamage, attack } from '../systems/combat';
+import { SimContext } from '../types';
+import { vehicleDefOf } from '../vehicleClasses';
+import { getEquipped } from '../weapons';
+
+const WALK_SPEED = 3.5;
+const RUN_SPEED = 5.5;
+const AGGRO_RANGE = 30;     // Hostiles start chasing inside this distance
+const MELEE_REACH = 1.8;
+const GUN_RANGE = 18;
+const BOARD_RANGE = 6;      // Escorts climb into the player's car from this close
+const WAYPOINT_REACHED = 2; // Drivers move on to the next path point within this distance
+const RAM_RANGE = 4;        // Car centres closer than this count as a hit
+const RAM_MIN_SPEED = 8;    // Player car speed needed to do damage
+const RAM_DAMAGE = 1.5;     // Per m/s of player car speed
+const RAM_COOLDOWN = 0.5;
+
+const hostile = (state: GameState, e: Entity, ctx: SimContext) => {
+    const player = state.player;
+    const dist = distXZ(e.pos, player.pos);
+    if (dist > AGGRO_RANGE || player.state === 'dead') { stopMoving(e); return; }
+
+    const weapon = getEquipped(e);
+    const reach = weapon.melee ? MELEE_REACH : Math.min(GUN_RANGE, weapon.range);
+    if (dist > reach) {
+        walkTowards(state, e, player.pos, RUN_SPEED, ctx.dt);
+        return;
+    }
+    stopMoving(e);
+    faceTowards(e, player.pos);
+    attack(state, e, ctx); // Same cooldowns and combo rules as the player
+};
+
+// Looters walk their road path (if any) and then straight to the target
+const looter = (state: GameState, actor: MissionActor, e: Entity, ctx: SimContext) => {
+    if (!actor.target || actor.arrived) { stopMoving(e); return; }
+    const path = actor.path ?? [];
+    let index = actor.pathIndex ?? 0;
+    while (index < path.length && distXZ(e.pos, path[index]) < WAYPOINT_REACHED) index++;
+    actor.pathIndex = index;
+    if (index >= path.length && distXZ(e.pos, actor.target) < 1.5) { stopMoving(e); actor.arrived = true; return; }
+    walkTowards(state, e, path[index] ?? actor.target, WALK_SPEED, ctx.dt);
+};
+
+// The player at the wheel takes one seat; anyone already riding along takes the others
+const hasFreeSeat = (state: GameState, car: Entity, rider: Entity) => {
+    const riding = state.entities.filter(o => o !== rider && o.type !== EntityType.VEHICLE && o.vehicleId === car.id).length;
+    return 1 + riding < vehicleDefOf(car).seats;
+};
+
+// Escorts trail the player on foot and ride along when the player drives something with room for them
+const follow = (state: GameState, e: Entity, ctx: SimContext) => {
+    const player = state.player;
+    if (player.vehicleId) {
+        const car = state.entities.find(v => v.id === player.vehicleId);
+        if (!car) return;
+        if (e.vehicleId === car.id || (distXZ(e.pos, car.pos) < BOARD_RANGE && hasFreeSeat(state, car, e))) {
+            if (e.vehicleId !== car.id) ctx.emit({ type: 'entitiesChanged' }); // Hide them inside
+            e.vehicleId = car.id;
+            e.pos = { ...car.pos, y: e.pos.y };
+            stopMoving(e);
+            getSpatialIndex(state).update(e);
+            return;
+        }
+    }
+    if (e.vehicleId) {
+        // Player got out: step out beside them
+        e.vehicleId = null;
+        e.pos = { x: player.pos.x + 1.5, y: e.pos.y, z: player.pos.z };
+        ctx.emit({ type: 'entitiesChanged' });
+    }
+    const dist = distXZ(e.pos, player.pos);
+    if (dist < 3) { stopMoving(e); return; }
+    walkTowards(state, e, player.pos, dist > 8 ? RUN_SPEED : WALK_SPEED, ctx.dt);
+};
+
+// Mission cars follow a pre-computed road path, ignoring traffic
+const drive = (state: GameState, actor: MissionActor, e: Entity, ctx: SimContext) => {
+    const path = actor.path;
+    if (!path || actor.arrived) { stopMoving(e); return; }
+    let index = actor.pathIndex ?? 0;
+    while (index < path.length && distXZ(e.pos, path[index]) < WAYPOINT_REACHED) index++;
+    actor.pathIndex = index;
+    if (index >= path.length) { actor.arrived = true; stopMoving(e); return; }
+
+    const target = path[index];
+    const dx = target.x - e.pos.x;
+    const dz = target.z - e.pos.z;
+    const dist = Math.hypot(dx, dz);
+    const speed = actor.speed ?? 15;
+    const travel = Math.min(dist, speed * ctx.dt);
+    e.vel.x = (dx / dist) * speed;
+    e.vel.z = (dz / dist) * speed;
+    e.pos.x += (dx / dist) * travel;
+    e.pos.z += (dz / dist) * travel;
+    faceTowards(e, target);
+    getSpatialIndex(state).update(e);
+
+    // Mission cars ignore collisions, so ramming them is resolved here
+    const car = state.player.vehicleId ? state.entities.find(v => v.id === state.player.vehicleId) : null;
+    if (!car || distXZ(car.pos, e.pos) > RAM_RANGE) return;
+    const ramSpeed = Math.hypot(car.vel.x, car.vel.z);
+    if (ramSpeed < RAM_MIN_SPEED || state.clock - (e.lastAttackTime ?? -Infinity) < RAM_COOLDOWN) return;
+    e.lastAttackTime = state.clock; // Reused as "last rammed" so one impact isn't counted every step
+    applyDamage(state, e, ramSpeed * RAM_DAMAGE, 'vehicle', ctx);
+    car.vel.x *= -0.3;
+    car.vel.z *= -0.3;
+};
+
+export const updateActors = (state: GameState, mission: ActiveMission, ctx: SimContext) => {
+    for (const actor of mission.actors) {
+        if (mission.index < (actor.activeFrom ?? 0)) continue;
+        const e = state.entities.find(ent => ent.id === actor.id);
+        if (!e || e.state === 'dead') continue;
+        if (e.state === 'punching') continue; // Let the punch pose finish
+        switch (actor.behaviour) {
+            case 'hostile': hostile(state, e, ctx); break;
+            case 'looter': looter(state, actor, e, ctx); break;
+            case 'follow': follow(state, e, ctx); break;
+            case 'drive': drive(state, actor, e, ctx); break;
+        }
+    }
+};
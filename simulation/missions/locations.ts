@@ -0,0 +1,122 @@
+import { Entity, EntityType, GameState, TileType, Vector3 } from '../../types';
+import { FACTION_COLORS, TILE_SIZE } from '../../constants';
+import { DISTRICTS } from '../../utils/districts';
+import { nearestRoadTile } from '../../utils/pathfinding';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { Rng } from '../../utils/random';
+import { SimContext } from '../types';
+import { getVehicleDef } from '../vehicleClasses';
+
+export interface TileQuery {
+    tile?: TileType;
+    district?: string;          // District id from utils/districts
+    near?: Vector3;
+    minDist?: number;           // World units from `near`
+    maxDist?: number;
+    where?: (x: number, z: number) => boolean;
+}
+
+const tileCentre = (x: number, z: number): Vector3 => ({ x: x * TILE_SIZE, y: 0, z: z * TILE_SIZE });
+
+// Random tile matching every filter, as a world position at its centre; null if none match
+export const findTile = (state: GameState, rng: Rng, query: TileQuery): Vector3 | null => {
+    const { map } = state;
+    const district = query.district ? DISTRICTS.find(d => d.id === query.district) : undefined;
+    const candidates: Vector3[] = [];
+    for (let z = district?.minZ ?? 0; z < (district?.maxZ ?? map.height); z++) {
+        for (let x = district?.minX ?? 0; x < (district?.maxX ?? map.width); x++) {
+            if (query.tile !== undefined && map.tiles[z]?.[x] !== query.tile) continue;
+            if (query.where && !query.where(x, z)) continue;
+            const pos = tileCentre(x, z);
+            if (query.near) {
+                const d = Math.hypot(pos.x - query.near.x, pos.z - query.near.z);
+                if (d < (query.minDist ?? 0) || d > (query.maxDist ?? Infinity)) continue;
+            }
+            candidates.push(pos);
+        }
+    }
+    return candidates.length ? rng.pick(candidates) : null;
+};
+
+// Road tile, preferring the distance band and loosening it if the map has nothing there
+export const findRoad = (state: GameState, rng: Rng, query: Omit<TileQuery, 'tile'> = {}): Vector3 =>
+    findTile(state, rng, { ...query, tile: TileType.ROAD })
+    ?? findTile(state, rng, { tile: TileType.ROAD, district: query.district })
+    ?? findTile(state, rng, { tile: TileType.ROAD })!;
+
+// End of a quay at the docks, where the boats tie up; any docks road if the seed built no quays
+export const findDock = (state: GameState, rng: Rng, near?: Vector3): Vector3 =>
+    findTile(state, rng, {
+        tile: TileType.FLOOR,
+        where: (x, z) => state.map.tiles[z + 1]?.[x] === TileType.WATER && state.map.tiles[z][x + 1] === TileType.WATER
+    })
+    ?? findRoad(state, rng, { district: 'docks', near, minDist: 150 });
+
+const RING_ATTEMPTS = 6;
+
+// Road tile centre between `min` and `max` from the player, e.g. off-screen for reinforcements and traffic
+export const findRoadInRing = (state: GameState, rng: Rng, min: number, max: number): Vector3 | null => {
+    const { player, map } = state;
+    for (let i = 0; i < RING_ATTEMPTS; i++) {
+        const angle = rng.next() * Math.PI * 2;
+        const dist = min + rng.next() * (max - min);
+        const tile = nearestRoadTile(map,
+            Math.round((player.pos.x + Math.sin(angle) * dist) / map.tileSize),
+            Math.round((player.pos.z + Math.cos(angle) * dist) / map.tileSize));
+        if (!tile) continue;
+        const pos = tileCentre(tile.x, tile.z);
+        const d = Math.hypot(pos.x - player.pos.x, pos.z - player.pos.z);
+        if (d >= min && d <= max * 1.5) return pos;
+    }
+    return null;
+};
+
+export const isNextToRoad = (state: GameState, x: number, z: number) =>
+    [[1, 0], [-1, 0], [0, 1], [0, -1]].some(([dx, dz]) => state.map.tiles[z + dz]?.[x + dx] === TileType.ROAD);
+
+// Nothing solid within `radius` of the tile centre, so spawned characters are not stuck inside a building
+export const isOpenGround = (state: GameState, x: number, z: number, radius = 4) =>
+    !getSpatialIndex(state).queryRadius(x * TILE_SIZE, z * TILE_SIZE, radius)
+        .some(e => e.type === EntityType.BUILDING || e.type === EntityType.PROP);
+
+// Points evenly spread on a ring, for placing a group without stacking them
+export const around = (centre: Vector3, count: number, radius: number): Vector3[] =>
+    Array(count).fill(0).map((_, i) => {
+        const a = (i / count) * Math.PI * 2;
+        return { x: centre.x + Math.cos(a) * radius, y: 0, z: centre.z + Math.sin(a) * radius };
+    });
+
+const CHARACTER_SIZE = { x: 0.8, y: 1.8, z: 0.8 };
+
+// Same shape as worldGen's entities so renderers and systems treat mission spawns like any other
+export const spawnEntity = (state: GameState, ctx: SimContext, type: EntityType, pos: Vector3, props: Partial<Entity> = {}): Entity => {
+    const vehicle = type === EntityType.VEHICLE ? getVehicleDef(props.vehicleClass) : undefined;
+    const entity: Entity = {
+        id: ctx.rng.id(),
+        type,
+        pos: { x: pos.x, y: 0, z: pos.z },
+        vel: { x: 0, y: 0, z: 0 },
+        rotation: { x: 0, y: ctx.rng.next() * Math.PI * 2, z: 0 },
+        health: vehicle?.health ?? 100,
+        maxHealth: vehicle?.health ?? 100,
+        color: '#fff',
+        size: vehicle ? { ...vehicle.size } : { ...CHARACTER_SIZE },
+        state: 'idle',
+        ...props
+    };
+    state.entities.push(entity);
+    ctx.emit({ type: 'entitiesChanged' });
+    return entity;
+};
+
+export const removeEntity = (state: GameState, e: Entity) => {
+    const i = state.entities.indexOf(e);
+    if (i >= 0) state.entities.splice(i, 1);
+    getSpatialIndex(state).remove(e);
+};
+
+export const spawnGangMember = (state: GameState, ctx: SimContext, faction: 'groves' | 'ballas', pos: Vector3, props: Partial<Entity> = {}) =>
+    spawnEntity(state, ctx, EntityType.GANG_MEMBER, pos, { faction, color: FACTION_COLORS[faction], accessory: 'bandana', ...props });
+
+export const spawnCivilian = (state: GameState, ctx: SimContext, pos: Vector3, props: Partial<Entity> = {}) =>
+    spawnEntity(state, ctx, EntityType.CIVILIAN, pos, { faction: 'civilian', color: FACTION_COLORS.civilian, ...props });
@@ -0,0 +1,279 @@
+import { Entity, EntityType, GameState, MissionActor, MissionSpawner, Objective, TileType, Vector3, VehicleClass, WeaponType } from '../../types';
+import { DISTRICTS, getLocationName } from '../../utils/districts';
+import { findRoadPath, nearestRoadTile } from '../../utils/pathfinding';
+import { SimContext } from '../types';
+import { around, findDock, findRoad, findTile, isNextToRoad, isOpenGround, spawnCivilian, spawnEntity, spawnGangMember } from './locations';
+
+// What a script hands the mission runtime; everything else about the mission starts at zero
+export interface MissionSetup {
+    objectives: Objective[];
+    actors?: MissionActor[];
+    spawner?: MissionSpawner;
+}
+
+export interface MissionScript {
+    title: string;
+    description: string;
+    reward: number;
+    setup: (state: GameState, ctx: SimContext) => MissionSetup;
+}
+
+const BLUE = '#3b82f6';
+
+// A grass tile away from the roads, i.e. somewhere in a park
+const findPark = (state: GameState, ctx: SimContext, near: Vector3) =>
+    findTile(state, ctx.rng, {
+        tile: TileType.GRASS, near, minDist: 120, maxDist: 400,
+        where: (x, z) => !isNextToRoad(state, x, z) && isOpenGround(state, x, z)
+    }) ?? findRoad(state, ctx.rng, { near, minDist: 120, maxDist: 400 });
+
+// Road tile closest to a district corner, as a world position
+const districtCorner = (state: GameState, x: number, z: number): Vector3 => {
+    const tile = nearestRoadTile(state.map, x, z)!;
+    return { x: tile.x * state.map.tileSize, y: 0, z: tile.z * state.map.tileSize };
+};
+
+const buildingsIn = (state: GameState, districtId: string) => {
+    const d = DISTRICTS.find(d => d.id === districtId)!;
+    const t = state.map.tileSize;
+    return state.entities.filter(e => e.type === EntityType.BUILDING &&
+        e.pos.x >= d.minX * t && e.pos.x < d.maxX * t && e.pos.z >= d.minZ * t && e.pos.z < d.maxZ * t);
+};
+
+export const MISSION_SCRIPTS: Record<string, MissionScript> = {
+    turf_war: {
+        title: 'Turf War',
+        description: 'Take out the rival gang members at the park.',
+        reward: 500,
+        setup: (state, ctx) => {
+            const park = findPark(state, ctx, state.player.pos);
+            const rivals = around(park, 4, 3).map(pos => spawnGangMember(state, ctx, 'ballas', pos));
+            return {
+                objectives: [
+                    { type: 'goto', target: park, radius: 25, text: `Go to the park in ${getLocationName(park, state.map)}` },
+                    { type: 'kill', targetIds: rivals.map(r => r.id), text: 'Take out the Ballas' }
+                ],
+                actors: rivals.map(r => ({ id: r.id, behaviour: 'hostile' }))
+            };
+        }
+    },
+
+    delivery_run: {
+        title: 'Delivery Run',
+        description: 'Deliver the package to the docks in under 2 minutes.',
+        reward: 400,
+        setup: (state, ctx) => {
+            const docks = findDock(state, ctx.rng, state.player.pos);
+            return {
+                objectives: [
+                    { type: 'goto', target: docks, radius: 8, timeLimit: 120, text: 'Deliver the package to the docks' }
+                ]
+            };
+        }
+    },
+
+    car_jacking: {
+        title: 'Car Jacking',
+        description: 'Steal a blue sports car and bring it to the garage.',
+        reward: 600,
+        setup: (state, ctx) => {
+            const spot = findRoad(state, ctx.rng, { near: state.player.pos, minDist: 80, maxDist: 250 });
+            const car = spawnEntity(state, ctx, EntityType.VEHICLE, spot, { vehicleClass: VehicleClass.SPORTS, color: BLUE });
+            const garage = findRoad(state, ctx.rng, { near: spot, minDist: 200, maxDist: 450 });
+            return {
+                objectives: [
+                    { type: 'stealVehicle', color: BLUE, vehicleClass: VehicleClass.SPORTS, hintId: car.id, text: 'Steal a blue sports car' },
+                    {
+                        type: 'goto', target: garage, radius: 8, missionVehicle: true,
+                        text: `Bring the car to the garage in ${getLocationName(garage, state.map)}`,
+                        fail: { vehicleDestroyed: true }
+                    }
+                ]
+            };
+        }
+    },
+
+    street_race: {
+        title: 'Street Race',
+        description: 'Win the race around the downtown block.',
+        reward: 700,
+        setup: (state, ctx) => {
+            const d = DISTRICTS.find(d => d.id === 'downtown')!;
+            const corners = [
+                districtCorner(state, d.minX, d.minZ),
+                districtCorner(state, d.maxX, d.minZ),
+                districtCorner(state, d.maxX, d.maxZ),
+                districtCorner(state, d.minX, d.maxZ)
+            ];
+            const checkpoints = [...corners.slice(1), corners[0]];
+
+            // Rival waits on the start line and follows the same loop by road
+            const path: Vector3[] = [];
+            let from = corners[0];
+            for (const to of checkpoints) {
+                path.push(...(findRoadPath(state.map, from, to) ?? [from, to]).slice(1));
+                from = to;
+            }
+            const rival = spawnEntity(state, ctx, EntityType.VEHICLE, { x: corners[0].x + 3, y: 0, z: corners[0].z }, { color: '#f59e0b' });
+
+            return {
+                objectives: [
+                    { type: 'goto', target: corners[0], radius: 10, inVehicle: true, text: 'Get a car to the start line downtown' },
+                    {
+                        type: 'checkpoints', points: checkpoints, radius: 12, text: 'Win the race',
+                        fail: { leaveVehicle: true, actorArrives: { id: rival.id, text: 'The rival won the race' } }
+                    }
+                ],
+                actors: [{ id: rival.id, behaviour: 'drive', path, speed: 20, activeFrom: 1 }]
+            };
+        }
+    },
+
+    protection: {
+        title: 'Protection',
+        description: 'Defend the shop from looters.',
+        reward: 450,
+        setup: (state, ctx) => {
+            // Buildings sit one sidewalk tile back from the road; looters head for the side facing it
+            const t = state.map.tileSize;
+            const roadSide = (e: Entity) => {
+                const x = Math.round(e.pos.x / t), z = Math.round(e.pos.z / t);
+                return [[1, 0], [-1, 0], [0, 1], [0, -1]].find(([dx, dz]) => state.map.tiles[z + dz * 2]?.[x + dx * 2] === TileType.ROAD);
+            };
+            const shops = state.entities.filter(e => e.type === EntityType.BUILDING && e.buildingType === 'commercial' && roadSide(e) &&
+                Math.hypot(e.pos.x - state.player.pos.x, e.pos.z - state.player.pos.z) < 300);
+            const shop = shops.length ? ctx.rng.pick(shops) : null;
+            const [dx, dz] = (shop && roadSide(shop)) ?? [1, 0];
+            const shopPos = shop?.pos ?? findRoad(state, ctx.rng, { near: state.player.pos, maxDist: 200 });
+            // Just off the sidewalk centreline, where street lights and hydrants stand
+            const front = { x: shopPos.x + dx * 5.5 + dz * 1.5, y: 0, z: shopPos.z + dz * 5.5 + dx * 1.5 };
+            const origin = findRoad(state, ctx.rng, { near: front, minDist: 40, maxDist: 70 });
+
+            return {
+                objectives: [
+                    { type: 'goto', target: front, radius: 12, text: 'Get to the shop' },
+                    {
+                        type: 'survive', duration: 60, text: 'Defend the shop from looters',
+                        fail: { anyLooterArrives: 'The looters cleaned out the shop' }
+                    }
+                ],
+                spawner: { objective: 1, every: 10, timer: 2, count: 2, origin, target: front, behaviour: 'looter', faction: 'civilian' }
+            };
+        }
+    },
+
+    payback: {
+        title: 'Payback',
+        description: 'Teach the Ballas a lesson.',
+        reward: 800,
+        setup: (state, ctx) => {
+            const hangout = findTile(state, ctx.rng, {
+                tile: TileType.GRASS, near: state.player.pos, minDist: 150, maxDist: 400,
+                where: (x, z) => isNextToRoad(state, x, z) && isOpenGround(state, x, z)
+            }) ?? findRoad(state, ctx.rng, { near: state.player.pos, minDist: 150 });
+            const leader = spawnGangMember(state, ctx, 'ballas', hangout, { health: 200, maxHealth: 200, accessory: 'hat' });
+            const crew = around(hangout, 3, 3).map(pos => spawnGangMember(state, ctx, 'ballas', pos));
+            const all = [leader, ...crew];
+            return {
+                objectives: [
+                    { type: 'goto', target: hangout, radius: 25, text: `Find the Ballas crew in ${getLocationName(hangout, state.map)}` },
+                    { type: 'kill', targetIds: all.map(e => e.id), text: 'Teach the Ballas a lesson' },
+                    { type: 'survive', duration: 30, text: 'Survive the retaliation' }
+                ],
+                actors: all.map(e => ({ id: e.id, behaviour: 'hostile' })),
+                spawner: { objective: 2, every: 8, timer: 3, count: 2, origin: hangout, target: hangout, behaviour: 'hostile', faction: 'ballas' }
+            };
+        }
+    },
+
+    joyride: {
+        title: 'Joyride',
+        description: 'Drive at top speed for 30 seconds without crashing.',
+        reward: 350,
+        setup: () => ({
+            objectives: [
+                { type: 'enterVehicle', text: 'Get in a car' },
+                {
+                    type: 'speed', minSpeed: 22, duration: 30, text: 'Keep it above 80 km/h',
+                    fail: { crash: true, leaveVehicle: true, vehicleDestroyed: true }
+                }
+            ]
+        })
+    },
+
+    taxi_duty: {
+        title: 'Taxi Duty',
+        description: 'Pick up a fare and drop them off safely.',
+        reward: 300,
+        setup: (state, ctx) => {
+            const curb = findTile(state, ctx.rng, {
+                tile: TileType.GRASS, near: state.player.pos, minDist: 60, maxDist: 200,
+                where: (x, z) => isNextToRoad(state, x, z) && isOpenGround(state, x, z)
+            }) ?? findRoad(state, ctx.rng, { near: state.player.pos, minDist: 60 });
+            const fare = spawnCivilian(state, ctx, curb, { accessory: 'backpack' });
+            const destination = findRoad(state, ctx.rng, { near: curb, minDist: 250, maxDist: 500 });
+            return {
+                objectives: [
+                    { type: 'enterVehicle', text: 'Get a car' },
+                    { type: 'goto', target: curb, radius: 8, missionVehicle: true, text: 'Pick up the fare', fail: { vehicleDestroyed: true } },
+                    {
+                        type: 'escort', escortId: fare.id, target: destination, radius: 10, maxDistance: 80,
+                        text: `Drive the fare to ${getLocationName(destination, state.map)}`,
+                        fail: { vehicleDestroyed: true }
+                    }
+                ],
+                actors: [{ id: fare.id, behaviour: 'follow', activeFrom: 2 }]
+            };
+        }
+    },
+
+    heist_prep: {
+        title: 'Heist Prep',
+        description: 'Scout the bank downtown for security cameras.',
+        reward: 400,
+        setup: (state, ctx) => {
+            const downtown = buildingsIn(state, 'downtown');
+            const candidates = downtown.length ? downtown : state.entities.filter(e => e.type === EntityType.BUILDING);
+            // The tallest building is the bank; a city without buildings gets a street corner to case instead
+            const bank = candidates.length ? candidates.reduce((a, b) => (b.size.y > a.size.y ? b : a)) : null;
+            const bankPos = bank ? { x: bank.pos.x, y: 0, z: bank.pos.z } : findRoad(state, ctx.rng, { near: state.player.pos, minDist: 60 });
+            const reach = (bank ? bank.size.x / 2 : 0) + 3;
+            const cameras = [[-1, -1], [1, -1], [1, 1]].map(([sx, sz]) => ({ x: bankPos.x + sx * reach, y: 0, z: bankPos.z + sz * reach }));
+            return {
+                objectives: [
+                    { type: 'goto', target: bankPos, radius: 30, text: `Go to the bank in ${getLocationName(bankPos, state.map)}` },
+                    {
+                        type: 'scout', points: cameras, radius: 4, text: 'Find the security cameras',
+                        fail: { wanted: true }
+                    }
+                ]
+            };
+        }
+    },
+
+    vigilante: {
+        title: 'Vigilante',
+        description: 'Stop the fleeing criminal vehicle.',
+        reward: 550,
+        setup: (state, ctx) => {
+            const start = findRoad(state, ctx.rng, { near: state.player.pos, minDist: 60, maxDist: 120 });
+            const hideout = findRoad(state, ctx.rng, { near: start, minDist: 450 });
+            const car = spawnEntity(state, ctx, EntityType.VEHICLE, start, { color: '#111827', health: 150, maxHealth: 150 });
+            const path = findRoadPath(state.map, start, hideout) ?? [hideout];
+            return {
+                objectives: [
+                    {
+                        type: 'kill', targetIds: [car.id], timeLimit: 180, text: 'Stop the fleeing criminal',
+                        fail: { actorArrives: { id: car.id, text: 'The criminal got away' } }
+                    }
+                ],
+                actors: [{ id: car.id, behaviour: 'drive', path, speed: 18 }]
+            };
+        }
+    }
+};
+
+export const spawnWaveMember = (state: GameState, ctx: SimContext, spawner: MissionSpawner, pos: Vector3) =>
+    spawner.faction === 'civilian'
+        ? spawnCivilian(state, ctx, pos)
+        : spawnGangMember(state, ctx, spawner.faction, pos, spawner.behaviour === 'hostile' && ctx.rng.chance(0.3) ? { inventory: [WeaponType.PISTOL] } : {});
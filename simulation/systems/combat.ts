@@ -0,0 +1,249 @@
+import * as THREE from 'three';
+import { Entity, EntityType, GameState } from '../../types';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { DamageCause, SimContext } from '../types';
+import { getEquipped, WeaponDef } from '../weapons';
+import { assessPenalty } from './lifecycle';
+
+const MELEE_COMBO_RESET = 1.0; // Reset combo after 1 second
+export const PUNCH_DURATION = 0.2;
+const MUZZLE_HEIGHT = 1.3; // Chest height above the shooter's feet
+
+export const WASTED_DURATION = 4; // Seconds the wasted (or busted) screen stays up
+export const MAX_WANTED = 5;
+
+// Crimes are reported from where the player is, so the police know where to start looking
+export const raiseWanted = (state: GameState, level: number, ctx: SimContext) => {
+    state.pursuit.lastSeen = { ...state.player.pos };
+    state.pursuit.searchTime = 0;
+    level = Math.min(MAX_WANTED, level);
+    if (state.wantedLevel >= level) return;
+    state.wantedLevel = level;
+    ctx.emit({ type: 'wantedChanged', level });
+};
+
+// Player violence against the public is a two star offence; killing a cop adds another star
+export const reportAssault = (state: GameState, target: Entity, ctx: SimContext) => {
+    if (target.type !== EntityType.CIVILIAN && target.type !== EntityType.POLICE) return;
+    raiseWanted(state, 2, ctx);
+    if (target.type === EntityType.POLICE && target.state === 'dead') raiseWanted(state, state.wantedLevel + 1, ctx);
+};
+
+export const killPlayer = (state: GameState, cause: DamageCause, ctx: SimContext) => {
+    const player = state.player;
+    if (player.state === 'dead') return;
+    player.health = 0;
+    player.state = 'dead';
+    player.stateTimer = WASTED_DURATION;
+    state.penalty = assessPenalty(state, cause);
+    ctx.emit({ type: 'playerDied', cause });
+};
+
+// Single entry point for hurting anything, so death, rewards and events stay consistent; `attacker` is
+// whoever threw the punch or fired the round, when there is someone
+export const applyDamage = (state: GameState, target: Entity, amount: number, cause: DamageCause, ctx: SimContext, attacker?: Entity) => {
+    if (target.health <= 0) return;
+    // Body armour stops bullets and blows until it's shot through; it does nothing against falls, fire or water
+    if (target.armor && (cause === 'bullet' || cause === 'melee')) {
+        const absorbed = Math.min(target.armor, amount);
+        target.armor -= absorbed;
+        amount -= absorbed;
+    }
+    target.health -= amount;
+    ctx.emit({ type: 'damaged', targetId: target.id, amount, cause });
+
+    if (target.health > 0) {
+        // Gang members turn on whoever hurt them, unless they're already busy with someone; a stray round
+        // from their own crew is let go
+        if (attacker && target.type === EntityType.GANG_MEMBER && !target.targetEntityId &&
+            (attacker === state.player || attacker.faction !== target.faction)) target.targetEntityId = attacker.id;
+        return;
+    }
+    if (target.type === EntityType.VEHICLE) {
+        // A car out of health catches fire and blows up on its own schedule (see vehicleDamage)
+        target.health = 0;
+        return;
+    }
+    if (target.type === EntityType.PLAYER) {
+        killPlayer(state, cause, ctx);
+        return;
+    }
+
+    target.health = 0;
+    target.state = 'dead';
+    target.killedBy = attacker?.id;
+    ctx.emit({ type: 'killed', targetId: target.id, cause, attackerId: attacker?.id });
+};
+
+// Drop money on the player's melee kills (not on street fights between NPCs)
+const lootBody = (state: GameState, target: Entity, ctx: SimContext) => {
+    if (target.state !== 'dead' || (target.type !== EntityType.CIVILIAN && target.type !== EntityType.GANG_MEMBER)) return;
+    state.money += ctx.rng.int(50) + 20;
+    ctx.emit({ type: 'moneyChanged', money: state.money });
+};
+
+const startReload = (attacker: Entity, weapon: WeaponDef, ctx: SimContext) => {
+    const ammo = attacker.ammo?.[weapon.type];
+    if (!ammo || attacker.reloadTimer !== undefined || ammo.reserve <= 0 || ammo.clip >= weapon.magazine) return;
+    attacker.reloadTimer = weapon.reloadTime;
+    ctx.emit({ type: 'reloadStarted', entityId: attacker.id, weapon: weapon.type });
+};
+
+// Tops the magazine up from the reserve once the reload time has passed
+const updateReload = (attacker: Entity, ctx: SimContext) => {
+    if (attacker.reloadTimer === undefined) return;
+    attacker.reloadTimer -= ctx.dt;
+    if (attacker.reloadTimer > 0) return;
+    attacker.reloadTimer = undefined;
+    const weapon = getEquipped(attacker);
+    const ammo = attacker.ammo?.[weapon.type];
+    if (!ammo) return;
+    const load = Math.min(weapon.magazine - ammo.clip, ammo.reserve);
+    ammo.clip += load;
+    ammo.reserve -= load;
+    ctx.emit({ type: 'reloaded', entityId: attacker.id, weapon: weapon.type });
+};
+
+const fireWeapon = (state: GameState, attacker: Entity, weapon: WeaponDef, ctx: SimContext) => {
+    if (attacker.reloadTimer !== undefined) return;
+    if (state.clock - (attacker.lastAttackTime ?? -Infinity) < weapon.fireRate) return; // Fire rate limit
+    attacker.lastAttackTime = state.clock;
+
+    // Entities without an ammo record (NPCs) never run dry
+    const ammo = attacker.ammo?.[weapon.type];
+    if (attacker.ammo && !ammo?.clip) {
+        if (ammo?.reserve) startReload(attacker, weapon, ctx);
+        else ctx.emit({ type: 'dryFire', entityId: attacker.id });
+        return;
+    }
+    if (ammo) ammo.clip--;
+
+    // Instant wanted level for shooting
+    if (attacker.type === EntityType.PLAYER) raiseWanted(state, 1, ctx);
+
+    const spawnPos = { x: attacker.pos.x + Math.sin(attacker.rotation.y) * 0.5, y: attacker.pos.y + MUZZLE_HEIGHT, z: attacker.pos.z + Math.cos(attacker.rotation.y) * 0.5 };
+    for (let i = 0; i < weapon.pellets; i++) {
+        const yaw = attacker.rotation.y + (ctx.rng.next() * 2 - 1) * weapon.spread;
+        const bullet: Entity = {
+            id: ctx.rng.id(),
+            type: EntityType.PROJECTILE,
+            pos: { ...spawnPos },
+            vel: { x: Math.sin(yaw) * weapon.projectileSpeed, y: 0, z: Math.cos(yaw) * weapon.projectileSpeed },
+            size: { x: 0.1, y: 0.1, z: 0.1 },
+            color: 'yellow',
+            health: 1,
+            maxHealth: 1,
+            rotation: { x: 0, y: 0, z: 0 },
+            state: 'idle',
+            targetEntityId: attacker.id, // Owner, so the shooter is never hit by their own bullet
+            damage: weapon.damage,
+            range: weapon.range
+        };
+        state.entities.push(bullet);
+    }
+
+    ctx.emit({ type: 'shot', shooterId: attacker.id, weapon: weapon.type });
+    ctx.emit({ type: 'entitiesChanged' });
+
+    // Reload straight away when the magazine runs out
+    if (ammo && ammo.clip === 0) startReload(attacker, weapon, ctx);
+};
+
+const punch = (state: GameState, attacker: Entity, weapon: WeaponDef, ctx: SimContext) => {
+    const lastAttack = attacker.lastAttackTime ?? -Infinity;
+    if (state.clock - lastAttack < weapon.fireRate) return;
+
+    // Reset combo if too much time passed
+    if (state.clock - lastAttack > MELEE_COMBO_RESET) attacker.comboCount = 0;
+
+    attacker.lastAttackTime = state.clock;
+    const combo = ((attacker.comboCount ?? 0) + 1) % 4; // 0-3 combo hits
+    attacker.comboCount = combo;
+
+    const comboMultiplier = 1 + (combo * 0.25); // 1x, 1.25x, 1.5x, 1.75x
+    const damage = Math.floor(weapon.damage * comboMultiplier);
+
+    const yaw = attacker.rotation.y;
+    const attackDir = new THREE.Vector3(Math.sin(yaw), 0, Math.cos(yaw)).normalize();
+    const attackPos = new THREE.Vector3(attacker.pos.x, attacker.pos.y + 1.2, attacker.pos.z);
+
+    // The player is not in the spatial index, so NPC attackers consider them explicitly
+    const candidates = getSpatialIndex(state).queryRadius(attackPos.x, attackPos.z, weapon.range);
+    const isNpc = attacker.type !== EntityType.PLAYER;
+    if (isNpc && !state.player.vehicleId && Math.hypot(state.player.pos.x - attackPos.x, state.player.pos.z - attackPos.z) < weapon.range) {
+        candidates.unshift(state.player);
+    }
+
+    let hitTarget: Entity | null = null;
+    for (const target of candidates) {
+        if (target.id === attacker.id || target.state === 'dead') continue;
+        if (isNpc && target.faction === attacker.faction && target.faction !== 'civilian') continue; // No hitting your own crew
+        if (target.type === EntityType.ITEM_WEAPON) continue;
+        if (target.type === EntityType.BUILDING || target.type === EntityType.PROP) continue;
+
+        const dx = target.pos.x - attackPos.x;
+        const dz = target.pos.z - attackPos.z;
+
+        // Check if target is in front of attacker (60 degree cone); range is already enforced by the query
+        const toTarget = new THREE.Vector3(dx, 0, dz).normalize();
+        if (attackDir.dot(toTarget) > 0.5) {
+            hitTarget = target;
+            break; // Only hit one target per punch
+        }
+    }
+
+    if (hitTarget) {
+        applyDamage(state, hitTarget, damage, 'melee', ctx, attacker);
+
+        // Knockback effect
+        const knockbackForce = 8 * comboMultiplier;
+        hitTarget.vel.x += attackDir.x * knockbackForce;
+        hitTarget.vel.z += attackDir.z * knockbackForce;
+
+        if (attacker.type === EntityType.PLAYER) {
+            reportAssault(state, hitTarget, ctx);
+            lootBody(state, hitTarget, ctx);
+        }
+    }
+
+    // Punching pose is held briefly, then released by the timed-state system
+    attacker.state = 'punching';
+    attacker.stateTimer = PUNCH_DURATION;
+
+    ctx.emit({ type: 'punch', attackerId: attacker.id, targetId: hitTarget?.id ?? null, damage, combo });
+};
+
+export const attack = (state: GameState, attacker: Entity, ctx: SimContext) => {
+    if (attacker.state === 'driving' || attacker.state === 'dead' || attacker.state === 'carjacking' || attacker.vehicleId) return;
+
+    const weapon = getEquipped(attacker);
+    if (weapon.melee) punch(state, attacker, weapon, ctx);
+    else fireWeapon(state, attacker, weapon, ctx);
+};
+
+// Changing weapons abandons a reload in progress
+const equip = (e: Entity, slot: number, ctx: SimContext) => {
+    const count = e.inventory?.length ?? 0;
+    if (!count) return;
+    slot = ((slot % count) + count) % count;
+    if (slot === (e.weaponSlot ?? 0)) return;
+    e.weaponSlot = slot;
+    e.reloadTimer = undefined;
+    ctx.emit({ type: 'weaponSwitched', weapon: getEquipped(e).type });
+};
+
+export const combatSystem = (state: GameState, ctx: SimContext) => {
+    const { input } = ctx;
+    const player = state.player;
+
+    if (input.selectWeapon && player.inventory?.includes(input.selectWeapon)) equip(player, player.inventory.indexOf(input.selectWeapon), ctx);
+    if (input.switchWeapon) equip(player, (player.weaponSlot ?? 0) + Math.sign(input.switchWeapon), ctx);
+    updateReload(player, ctx);
+
+    const weapon = getEquipped(player);
+    if (input.reload) startReload(player, weapon, ctx);
+    // Both hands busy keeping afloat, hauling up or breaking a fall
+    if (player.state === 'swimming' || player.state === 'climbing' || player.state === 'stumbling') return;
+    // Semi-automatics fire once per click, automatics for as long as the trigger is held
+    if (input.attack || (weapon.auto && input.fire)) attack(state, player, ctx);
+};
@@ -0,0 +1,87 @@
+import { Entity, EntityType, GameState, Penalty, Vector3, WeaponType } from '../../types';
+import { TILE_SIZE } from '../../constants';
+import { SPAWN_COORDS } from '../../utils/worldGen';
+import { DamageCause, SimContext } from '../types';
+
+const HOSPITAL_BILL = 100;
+const BAIL_PER_STAR = 100;
+const DOORSTEP = 5.5; // World units from a building's centre to just outside its front door
+
+// What being wasted or busted will cost, recorded as it happens so the screen can show it before respawn settles it
+export const assessPenalty = (state: GameState, cause: DamageCause | 'busted'): Penalty => {
+    const busted = cause === 'busted';
+    const bill = busted ? BAIL_PER_STAR * Math.max(1, state.wantedLevel) : HOSPITAL_BILL;
+    return {
+        cause,
+        fee: Math.min(state.money, bill),
+        confiscated: busted ? (state.player.inventory ?? []).filter(w => w !== WeaponType.FIST) as WeaponType[] : []
+    };
+};
+
+// Outside the front door of the nearest hospital or police station, or back at the start if the city has none
+const respawnPoint = (state: GameState, from: Vector3, service: 'hospital' | 'police_station'): Vector3 => {
+    let best: Entity | null = null, bestDist = Infinity;
+    for (const e of state.entities) {
+        if (e.type !== EntityType.BUILDING || e.buildingType !== service) continue;
+        const dist = Math.hypot(e.pos.x - from.x, e.pos.z - from.z);
+        if (dist < bestDist) { best = e; bestDist = dist; }
+    }
+    if (!best) return { x: SPAWN_COORDS.x * TILE_SIZE, y: 0.5, z: SPAWN_COORDS.z * TILE_SIZE };
+    const yaw = best.rotation.y;
+    return { x: best.pos.x + Math.sin(yaw) * DOORSTEP, y: 0.5, z: best.pos.z + Math.cos(yaw) * DOORSTEP };
+};
+
+const respawnPlayer = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const busted = player.state === 'busted';
+    if (player.vehicleId) {
+        const car = state.entities.find(e => e.id === player.vehicleId);
+        if (car) car.vehicleId = null;
+    }
+
+    player.health = player.maxHealth;
+    player.state = 'idle';
+    player.stateTimer = undefined;
+    player.breath = undefined;
+    player.armor = 0; // Armour doesn't survive being wasted or busted
+    player.stamina = player.maxStamina;
+    player.pos = respawnPoint(state, player.pos, busted ? 'police_station' : 'hospital');
+    player.vel = { x: 0, y: 0, z: 0 };
+    player.vehicleId = null; // Eject if in car
+    player.targetEntityId = undefined;
+    player.targetPos = undefined;
+
+    // Settle up: the bill or bail, and for an arrest, every gun they were carrying
+    const penalty = state.penalty;
+    if (penalty?.fee) {
+        state.money -= Math.min(state.money, penalty.fee);
+        ctx.emit({ type: 'moneyChanged', money: state.money });
+    }
+    if (penalty?.confiscated.length) {
+        player.inventory = (player.inventory ?? []).filter(w => !penalty.confiscated.includes(w as WeaponType));
+        player.weaponSlot = 0;
+        for (const weapon of penalty.confiscated) delete player.ammo?.[weapon];
+        player.reloadTimer = undefined;
+    }
+    state.penalty = null;
+
+    state.wantedLevel = 0;
+    ctx.emit({ type: 'wantedChanged', level: 0 });
+    ctx.emit({ type: 'playerRespawned' });
+};
+
+const tickTimer = (state: GameState, e: Entity, ctx: SimContext) => {
+    if (e.stateTimer === undefined) return;
+    e.stateTimer -= ctx.dt;
+    if (e.stateTimer > 0) return;
+
+    e.stateTimer = undefined;
+    if (e.state === 'punching' || e.state === 'fleeing' || e.state === 'cowering' || e.state === 'stumbling') e.state = 'idle';
+    else if (e === state.player && (e.state === 'dead' || e.state === 'busted')) respawnPlayer(state, ctx);
+};
+
+// Counts down timed states (punch pose, panic, getting up after a fall, wasted/busted screen) and resolves them when they expire
+export const lifecycleSystem = (state: GameState, ctx: SimContext) => {
+    tickTimer(state, state.player, ctx);
+    for (const e of state.entities) tickTimer(state, e, ctx);
+};
@@ -0,0 +1,228 @@
+import { ActiveMission, Entity, GameState, MapMarker, Objective, Vector3 } from '../../types';
+import { distXZ } from '../ai/steering';
+import { updateActors } from '../missions/actors';
+import { around } from '../missions/locations';
+import { MISSION_SCRIPTS, spawnWaveMember } from '../missions/scripts';
+import { findRoadPath } from '../../utils/pathfinding';
+import { SimContext } from '../types';
+
+const CRASH_SPEED_DROP = 10; // m/s lost in a single step that counts as a crash
+const MARKER_PREFIX = 'mission:';
+
+const findEntity = (state: GameState, id: string | null | undefined): Entity | undefined =>
+    id ? state.entities.find(e => e.id === id) : undefined;
+
+const isGone = (e: Entity | undefined) => !e || e.state === 'dead' || e.health <= 0;
+
+const speedOf = (e: Entity | undefined) => (e ? Math.hypot(e.vel.x, e.vel.z) : 0);
+
+// HUD line for the current objective, including its progress; null once the mission is over
+export const describeObjective = (mission: ActiveMission | null | undefined): { text: string, timeLeft: number | null } | null => {
+    const obj = mission?.objectives[mission.index];
+    if (!mission || !obj) return null;
+    let text = obj.text;
+    switch (obj.type) {
+        case 'checkpoints': text += ` (${mission.progress}/${obj.points.length})`; break;
+        case 'scout': text += ` (${mission.visited.length}/${obj.points.length})`; break;
+        case 'speed': text += ` (${Math.floor(mission.progress)}/${obj.duration}s)`; break;
+    }
+    const limit = obj.type === 'survive' ? obj.duration : obj.timeLimit;
+    return { text, timeLeft: limit !== undefined ? Math.max(0, limit - mission.elapsed) : null };
+};
+
+export const startMission = (state: GameState, id: string, ctx: SimContext) => {
+    const script = MISSION_SCRIPTS[id];
+    if (!script || state.mission) return;
+    const setup = script.setup(state, ctx);
+    state.mission = {
+        id,
+        title: script.title,
+        reward: script.reward,
+        objectives: setup.objectives,
+        index: 0,
+        elapsed: 0,
+        progress: 0,
+        visited: [],
+        vehicleId: null,
+        actors: setup.actors ?? [],
+        spawner: setup.spawner,
+        lastSpeed: 0
+    };
+    ctx.emit({ type: 'missionStarted', title: script.title });
+    ctx.emit({ type: 'missionObjective', text: setup.objectives[0].text });
+};
+
+const endMission = (state: GameState, ctx: SimContext) => {
+    const mission = state.mission;
+    if (!mission) return;
+    // Drop off anyone still riding along
+    for (const actor of mission.actors) {
+        const e = findEntity(state, actor.id);
+        if (e?.vehicleId && e.vehicleId !== state.player.id && actor.behaviour === 'follow') {
+            e.vehicleId = null;
+            e.pos = { x: state.player.pos.x + 2, y: e.pos.y, z: state.player.pos.z };
+            e.vel = { x: 0, y: 0, z: 0 };
+            ctx.emit({ type: 'entitiesChanged' });
+        }
+    }
+    state.mission = null;
+    state.markers = state.markers.filter(m => !m.id.startsWith(MARKER_PREFIX));
+};
+
+export const failMission = (state: GameState, reason: string, ctx: SimContext) => {
+    const mission = state.mission;
+    if (!mission) return;
+    endMission(state, ctx);
+    ctx.emit({ type: 'missionFailed', title: mission.title, reason });
+};
+
+const passMission = (state: GameState, ctx: SimContext) => {
+    const mission = state.mission!;
+    endMission(state, ctx);
+    state.money += mission.reward;
+    ctx.emit({ type: 'moneyChanged', money: state.money });
+    ctx.emit({ type: 'missionPassed', title: mission.title, reward: mission.reward });
+};
+
+// Returns the failure text, or null while the objective is still winnable
+const checkFailure = (state: GameState, mission: ActiveMission, obj: Objective): string | null => {
+    const player = state.player;
+    const car = findEntity(state, mission.vehicleId);
+    const fail = obj.fail ?? {};
+
+    if (obj.timeLimit !== undefined && mission.elapsed > obj.timeLimit) return 'Out of time';
+    if (fail.wanted && state.wantedLevel > 0) return 'You drew attention to yourself';
+    if (fail.vehicleDestroyed && mission.vehicleId && isGone(car)) return 'The vehicle was destroyed';
+    if (fail.leaveVehicle && mission.vehicleId && player.vehicleId !== mission.vehicleId &&
+        player.state !== 'entering_vehicle') return 'You abandoned the vehicle';
+    if (fail.crash && car && mission.lastSpeed - speedOf(car) > CRASH_SPEED_DROP) return 'You crashed';
+    if (fail.actorArrives && mission.actors.find(a => a.id === fail.actorArrives!.id)?.arrived) return fail.actorArrives.text;
+    if (fail.anyLooterArrives && mission.actors.some(a => a.behaviour === 'looter' && a.arrived && !isGone(findEntity(state, a.id)))) {
+        return fail.anyLooterArrives;
+    }
+
+    if (obj.type === 'escort') {
+        const escort = findEntity(state, obj.escortId);
+        if (isGone(escort)) return 'Your passenger was killed';
+        if (distXZ(escort!.pos, player.pos) > obj.maxDistance) return 'You left your passenger behind';
+    }
+    return null;
+};
+
+// Advances the current objective; true when it is complete
+const checkObjective = (state: GameState, mission: ActiveMission, obj: Objective, ctx: SimContext): boolean => {
+    const player = state.player;
+    const car = findEntity(state, player.vehicleId);
+
+    switch (obj.type) {
+        case 'goto':
+            if (obj.inVehicle && !car) return false;
+            if (obj.missionVehicle && player.vehicleId !== mission.vehicleId) return false;
+            return distXZ(player.pos, obj.target) < obj.radius;
+        case 'kill':
+            return obj.targetIds.every(id => isGone(findEntity(state, id)));
+        case 'stealVehicle':
+            if (!car || car.color !== obj.color || (obj.vehicleClass && car.vehicleClass !== obj.vehicleClass)) return false;
+            mission.vehicleId = car.id;
+            return true;
+        case 'enterVehicle':
+            if (!car) return false;
+            mission.vehicleId = car.id;
+            return true;
+        case 'survive':
+            return mission.elapsed >= obj.duration;
+        case 'escort': {
+            const escort = findEntity(state, obj.escortId);
+            return !!escort && distXZ(escort.pos, obj.target) < obj.radius;
+        }
+        case 'checkpoints':
+            if (car && distXZ(player.pos, obj.points[mission.progress]) < obj.radius) {
+                mission.progress++;
+                if (mission.progress < obj.points.length) ctx.emit({ type: 'checkpoint' });
+            }
+            return mission.progress >= obj.points.length;
+        case 'speed':
+            if (car && car.id === mission.vehicleId && speedOf(car) >= obj.minSpeed) mission.progress += ctx.dt;
+            return mission.progress >= obj.duration;
+        case 'scout':
+            obj.points.forEach((p, i) => {
+                if (!mission.visited.includes(i) && distXZ(player.pos, p) < obj.radius) mission.visited.push(i);
+            });
+            return mission.visited.length >= obj.points.length;
+    }
+};
+
+// Where the HUD, radar and map should point for the current objective
+const objectiveTargets = (state: GameState, mission: ActiveMission, obj: Objective): Vector3[] => {
+    switch (obj.type) {
+        case 'goto': return [obj.target];
+        case 'kill': return obj.targetIds.map(id => findEntity(state, id)).filter(e => !isGone(e)).map(e => e!.pos);
+        case 'stealVehicle': {
+            const hint = findEntity(state, obj.hintId);
+            return hint && !isGone(hint) ? [hint.pos] : [];
+        }
+        case 'escort': {
+            const escort = findEntity(state, obj.escortId);
+            const withPlayer = escort && (escort.vehicleId || distXZ(escort.pos, state.player.pos) < 10);
+            return [withPlayer || !escort ? obj.target : escort.pos];
+        }
+        case 'checkpoints': return [obj.points[mission.progress]];
+        case 'scout': return obj.points.filter((_, i) => !mission.visited.includes(i));
+        default: return [];
+    }
+};
+
+const updateMarkers = (state: GameState, mission: ActiveMission, obj: Objective) => {
+    const markers: MapMarker[] = objectiveTargets(state, mission, obj)
+        .map((pos, i) => ({ id: `${MARKER_PREFIX}${i}`, pos, kind: 'objective', label: obj.text }));
+    state.markers = [...state.markers.filter(m => !m.id.startsWith(MARKER_PREFIX)), ...markers];
+};
+
+const runSpawner = (state: GameState, mission: ActiveMission, ctx: SimContext) => {
+    const spawner = mission.spawner;
+    if (!spawner || spawner.objective !== mission.index) return;
+    spawner.timer -= ctx.dt;
+    if (spawner.timer > 0) return;
+    spawner.timer = spawner.every;
+    // Looters need a way round the buildings; hostiles just chase the player
+    const path = spawner.behaviour === 'looter' ? findRoadPath(state.map, spawner.origin, spawner.target) ?? undefined : undefined;
+    for (const pos of around(spawner.origin, spawner.count, 2)) {
+        const e = spawnWaveMember(state, ctx, spawner, pos);
+        mission.actors.push({ id: e.id, behaviour: spawner.behaviour, target: spawner.target, path });
+    }
+};
+
+export const missionSystem = (state: GameState, ctx: SimContext) => {
+    if (ctx.input.startMission) startMission(state, ctx.input.startMission, ctx);
+    const mission = state.mission;
+    if (!mission) return;
+
+    mission.elapsed += ctx.dt;
+    runSpawner(state, mission, ctx);
+    updateActors(state, mission, ctx);
+
+    const obj = mission.objectives[mission.index];
+    const failure = checkFailure(state, mission, obj);
+    mission.lastSpeed = speedOf(findEntity(state, mission.vehicleId));
+    if (failure) {
+        failMission(state, failure, ctx);
+        return;
+    }
+
+    if (!checkObjective(state, mission, obj, ctx)) {
+        updateMarkers(state, mission, obj);
+        return;
+    }
+
+    mission.index++;
+    mission.elapsed = 0;
+    mission.progress = 0;
+    mission.visited = [];
+    const next = mission.objectives[mission.index];
+    if (!next) {
+        passMission(state, ctx);
+        return;
+    }
+    ctx.emit({ type: 'missionObjective', text: next.text });
+    updateMarkers(state, mission, next);
+};
@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+import { Entity, GameState, TileType, Vector3 } from '../../types';
+import { PLAYER_ACCEL, PLAYER_FRICTION, PLAYER_MAX_SPEED, PLAYER_SPRINT_SPEED, PLAYER_STAMINA, PLAYER_WALK_SPEED, WATER_LEVEL } from '../../constants';
+import { damp } from '../../utils/math';
+import { findCollision, isStandable, topOf } from '../../utils/physics';
+import { worldToTile } from '../../utils/pathfinding';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { SimContext } from '../types';
+import { STEP_HEIGHT } from './terrain';
+
+const UP = new THREE.Vector3(0, 1, 0);
+const SWIM_SPEED = 3;
+const AIR_CONTROL = 0.25;  // Share of the usual acceleration available mid-jump
+const VAULT_HEIGHT = 1;    // Ledges up to this high are climbed just by walking into them...
+const CLIMB_REACH = 2.2;   // ...and up to this high by jumping at them
+const CLIMB_SPEED = 3;     // m/s hauling up
+const CLIMB_OVER = 0.7;    // Metres past the edge the player ends up
+const CLIMB_STEP = 2.5;    // m/s getting a foot onto the top
+const SPRINT_DRAIN = 10;   // Stamina per second flat out: ten seconds when fresh
+const STAMINA_REGEN = 12;  // ...and regained per second at any other pace
+export const SPRINT_MIN = 20; // Winded: after running dry, a sprint can't start again until this much is back
+const TRAINING = 0.1;      // Max stamina gained per second spent sprinting...
+const MAX_STAMINA = 250;   // ...up to this
+
+// Top of whatever stops the player stepping to (x, z): a rise in the ground or something too tall to step
+// onto. Infinity for people, who can't be climbed; null if the way is clear.
+const ledgeAt = (state: GameState, player: Entity, x: number, z: number, feet: number): number | null => {
+    const tile = worldToTile({ x, y: 0, z }, state.map);
+    const rise = state.map.elevations[tile.z]?.[tile.x];
+    let ledge: number | null = null;
+    if (rise !== undefined && state.map.tiles[tile.z][tile.x] !== TileType.WATER && rise > feet + STEP_HEIGHT) ledge = rise;
+
+    const hit = findCollision({ x, y: 0, z } as Vector3, player.size, getSpatialIndex(state), player.id, feet + STEP_HEIGHT);
+    if (hit) ledge = Math.max(ledge ?? 0, isStandable(hit) ? topOf(hit) : Infinity);
+    return ledge;
+};
+
+// Walking into something low enough, or jumping at something higher, pulls the player up onto it
+const startClimb = (state: GameState, ledge: number, feet: number, dir: THREE.Vector3, ctx: SimContext): boolean => {
+    const player = state.player;
+    if (dir.lengthSq() === 0 || (player.state !== 'idle' && player.state !== 'walking')) return false;
+    if (ledge - feet > (ctx.input.jump ? CLIMB_REACH : VAULT_HEIGHT)) return false;
+    player.state = 'climbing';
+    player.targetPos = { x: player.pos.x + dir.x * CLIMB_OVER, y: ledge, z: player.pos.z + dir.z * CLIMB_OVER };
+    player.vel = { x: 0, y: 0, z: 0 };
+    return true;
+};
+
+// Up the face first, then over the edge
+const climb = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const target = player.targetPos;
+    if (!target) { player.state = 'idle'; return; }
+    if (player.pos.y < target.y) {
+        player.pos.y = Math.min(target.y, player.pos.y + CLIMB_SPEED * ctx.dt);
+        return;
+    }
+    const dx = target.x - player.pos.x, dz = target.z - player.pos.z;
+    const dist = Math.hypot(dx, dz);
+    const step = CLIMB_STEP * ctx.dt;
+    if (dist > step) {
+        player.pos.x += dx / dist * step;
+        player.pos.z += dz / dist * step;
+        return;
+    }
+    player.pos.x = target.x;
+    player.pos.z = target.z;
+    player.state = 'idle';
+    player.targetPos = undefined;
+};
+
+// Top speed for this step from the walk and sprint keys, spending or recovering stamina
+const gaitSpeed = (player: Entity, moving: boolean, ctx: SimContext): number => {
+    const { input, dt } = ctx;
+    const max = player.maxStamina ?? PLAYER_STAMINA;
+    const stamina = player.stamina ?? max;
+    // Already flat out (faster than a jog) keeps going to empty; starting afresh needs some breath back
+    const underway = Math.hypot(player.vel.x, player.vel.z) > PLAYER_MAX_SPEED + 0.1;
+    const sprinting = input.sprint && moving && stamina > 0 && (underway || stamina >= SPRINT_MIN);
+    if (sprinting) {
+        player.stamina = Math.max(0, stamina - SPRINT_DRAIN * dt);
+        player.maxStamina = Math.min(MAX_STAMINA, max + TRAINING * dt);
+        return PLAYER_SPRINT_SPEED;
+    }
+    player.stamina = Math.min(max, stamina + STAMINA_REGEN * dt);
+    return input.walk ? PLAYER_WALK_SPEED : PLAYER_MAX_SPEED;
+};
+
+// On-foot, camera-relative movement for the player
+export const movementSystem = (state: GameState, ctx: SimContext) => {
+    const { input, dt } = ctx;
+    const player = state.player;
+    if (player.vehicleId || player.state === 'entering_vehicle' || player.state === 'exiting_vehicle' || player.state === 'carjacking') return;
+    if (player.state === 'climbing') { climb(state, ctx); return; }
+
+    const swimming = player.state === 'swimming';
+    const airborne = !swimming && player.vel.y !== 0;
+    // Knocked flat by a fall: no control until they're back up
+    const moveX = player.state === 'stumbling' ? 0 : Number(input.right) - Number(input.left);
+    const moveZ = player.state === 'stumbling' ? 0 : Number(input.backward) - Number(input.forward);
+    const dir = new THREE.Vector3(moveX, 0, moveZ);
+    const topSpeed = gaitSpeed(player, dir.lengthSq() > 0 && !swimming, ctx);
+    if (dir.lengthSq() > 0) {
+        dir.normalize().applyAxisAngle(UP, input.cameraYaw);
+        const accel = PLAYER_ACCEL * (airborne ? AIR_CONTROL : 1);
+        player.vel.x += dir.x * accel * dt; player.vel.z += dir.z * accel * dt;
+        const speed = Math.sqrt(player.vel.x**2 + player.vel.z**2);
+        const maxSpeed = swimming ? SWIM_SPEED : topSpeed;
+        if (speed > maxSpeed) { const r = maxSpeed/speed; player.vel.x *= r; player.vel.z *= r; }
+        const targetRot = Math.atan2(player.vel.x, player.vel.z);
+        player.rotation.y = damp(player.rotation.y, targetRot, 15, dt);
+    } else if (!airborne) {
+        const d = Math.exp(-PLAYER_FRICTION * dt); player.vel.x *= d; player.vel.z *= d;
+    }
+
+    // Swimmers haul out from the waterline, not from where their feet dangle
+    const feet = swimming ? WATER_LEVEL : player.pos.y;
+    const nextX = player.pos.x + player.vel.x * dt;
+    const ledgeX = ledgeAt(state, player, nextX, player.pos.z, feet);
+    if (ledgeX === null) player.pos.x = nextX;
+    else if (!swimming && startClimb(state, ledgeX, feet, dir, ctx)) return;
+    else player.vel.x = 0;
+    const nextZ = player.pos.z + player.vel.z * dt;
+    const ledgeZ = ledgeAt(state, player, player.pos.x, nextZ, feet);
+    if (ledgeZ === null) player.pos.z = nextZ;
+    else if (!swimming && startClimb(state, ledgeZ, feet, dir, ctx)) return;
+    else player.vel.z = 0;
+};
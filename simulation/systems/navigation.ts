@@ -0,0 +1,67 @@
+import { GameState, Vector3 } from '../../types';
+import { TILE_SIZE } from '../../constants';
+import { distanceToSegment, findRoadPath } from '../../utils/pathfinding';
+import { SimContext } from '../types';
+
+const OFF_ROUTE_DIST = TILE_SIZE * 1.2; // Further than this from the route triggers a re-route
+const ARRIVE_DIST = TILE_SIZE;
+const LOOKAHEAD_SEGMENTS = 4; // Segments checked when deciding how far along the route the player is
+const REROUTE_INTERVAL = 1; // Seconds between routing attempts while there's no way there or the player is off the route
+
+// Seconds until the next routing attempt is allowed
+const rerouteTimers = new WeakMap<GameState, number>();
+
+export const WAYPOINT_ID = 'waypoint';
+
+export const getWaypoint = (state: GameState) => state.markers.find(m => m.id === WAYPOINT_ID);
+
+// Called from the map UI while paused, so it routes immediately rather than waiting for a step
+export const setWaypoint = (state: GameState, pos: Vector3 | null) => {
+    state.markers = state.markers.filter(m => m.id !== WAYPOINT_ID);
+    state.route = null;
+    rerouteTimers.delete(state);
+    if (!pos) return;
+    state.markers.push({ id: WAYPOINT_ID, pos: { ...pos }, kind: 'waypoint', label: 'Waypoint' });
+    state.route = findRoadPath(state.map, state.player.pos, pos);
+};
+
+// Each attempt is an A* across the map, so one that fails (roads that don't connect) or keeps being thrown away
+// (the player cutting across country) is only retried every so often rather than every step
+const reroute = (state: GameState, goal: Vector3, ctx: SimContext) => {
+    const wait = (rerouteTimers.get(state) ?? 0) - ctx.dt;
+    rerouteTimers.set(state, wait > 0 ? wait : REROUTE_INTERVAL);
+    if (wait > 0) return;
+    state.route = findRoadPath(state.map, state.player.pos, goal);
+};
+
+export const navigationSystem = (state: GameState, ctx: SimContext) => {
+    const waypoint = getWaypoint(state);
+    if (!waypoint) return;
+    const player = state.player;
+
+    if (Math.hypot(waypoint.pos.x - player.pos.x, waypoint.pos.z - player.pos.z) < ARRIVE_DIST) {
+        setWaypoint(state, null);
+        ctx.emit({ type: 'waypointReached' });
+        return;
+    }
+
+    const route = state.route;
+    if (!route || route.length < 2) {
+        reroute(state, waypoint.pos, ctx);
+        return;
+    }
+
+    // Drop segments the player has already passed, then check they're still on the line
+    let nearest = 0;
+    let nearestDist = Infinity;
+    for (let i = 0; i < Math.min(LOOKAHEAD_SEGMENTS, route.length - 1); i++) {
+        const d = distanceToSegment(player.pos, route[i], route[i + 1]);
+        if (d < nearestDist) { nearestDist = d; nearest = i; }
+    }
+
+    if (nearestDist > OFF_ROUTE_DIST) {
+        reroute(state, waypoint.pos, ctx);
+        return;
+    }
+    if (nearest > 0) route.splice(0, nearest);
+};
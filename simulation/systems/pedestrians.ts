@@ -0,0 +1,426 @@
+import { Entity, EntityType, Gang, GameState, TileType, Vector3 } from '../../types';
+import { worldToTile } from '../../utils/pathfinding';
+import { checkCollision } from '../../utils/physics';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { getTerritoryAt, rivalOf } from '../../utils/turf';
+import { distXZ, faceTowards, hasLineOfSight, speedXZ, stopMoving, walkTowards } from '../ai/steering';
+import { SimContext } from '../types';
+import { getEquipped } from '../weapons';
+import { attack, raiseWanted } from './combat';
+
+const ACTIVE_RANGE = 180;        // Pedestrians further from the player than this stand still (beyond the traffic zone)
+const WALK_SPEED = 1.7;
+const RUN_SPEED = 5.5;
+const CURB_OFFSET = 3;           // Walk this far from the sidewalk centre towards the road, clear of street furniture
+const LANE_JITTER = 1;           // Sideways spread so pedestrians don't walk in single file
+const WAYPOINT_REACHED = 1;
+const SIDESTEP = 3.5;            // Far enough to clear the end of a car blocking a crossing
+const CROSS_CHANCE = 0.3;        // At a crossing, chance of going over instead of along
+const PAUSE_CHANCE = 0.1;        // At a waypoint, chance of stopping for a moment
+const PAUSE_MIN = 2;
+const PAUSE_MAX = 5;
+const GUNFIRE_RADIUS = 30;       // Bullets in flight this close send people running
+const VIOLENCE_RADIUS = 15;
+const CAR_DANGER_SPEED = 9;      // m/s: faster cars are dodged (traffic cruises below this)
+const CAR_DANGER_RANGE = 8;
+const CAR_LOOKAHEAD = 0.6;       // Seconds ahead a speeding car's danger zone is projected
+const FIRE_DANGER_RANGE = 14;    // Burning cars are given a wide berth before they blow
+const FLEE_TIME = 6;
+const COWER_TIME = 4;
+const COWER_CHANCE = 0.35;       // Civilians only; the rest run
+const WITNESS_RANGE = 40;
+const CALL_CHANCE = 0.3;
+const CALL_DELAY = 4;            // Seconds on the phone before the police hear about it
+const MELEE_REACH = 1.8;
+const FIGHT_GIVE_UP = 30;        // A grudge is dropped once the target gets this far away
+const SPOT_RANGE = 12;           // Gang members pick on rival colours this close on their own turf
+const SANCTUARY_RANGE = 15;      // Round a hospital or police station, where gangs leave the player be
+const RETREAT_AT = 0.3;          // Share of health at which a fighter gives up and runs for it
+const FIRING_RANGE = 0.6;        // Share of a gun's range an armed fighter closes to before opening up
+const COVER_RANGE = 25;          // How far an armed fighter will run for cover
+const COVER_GAP = 1;             // Metres kept from whatever they hide behind
+const COVER_REACHED = 0.5;
+const PEEK_STEP = 5;             // Metres sideways out of cover, enough to clear the end of a building
+const COVER_TIME = 2;            // Seconds ducked down between bursts...
+const BURST_TIME = 1.5;          // ...and out in the open shooting
+const AIM_ERROR = 0.12;          // Radians either side of the target a street shooter's aim wanders
+
+const NEIGHBOURS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const WALKABLE = new Set([TileType.GRASS, TileType.SIDEWALK, TileType.SAND, TileType.FLOOR]);
+
+// Something nearby to get away from; `crime` means the player caused it
+interface Threat { pos: Vector3; radius: number; crime: boolean; car: boolean }
+
+const tileAt = (state: GameState, x: number, z: number) => state.map.tiles[z]?.[x];
+const isRoad = (state: GameState, x: number, z: number) => tileAt(state, x, z) === TileType.ROAD;
+
+// Walkable tile alongside a road
+const isSidewalk = (state: GameState, x: number, z: number) =>
+    WALKABLE.has(tileAt(state, x, z)) && NEIGHBOURS.some(([dx, dz]) => isRoad(state, x + dx, z + dz));
+
+const isIntersection = (state: GameState, x: number, z: number) =>
+    isRoad(state, x, z) && (isRoad(state, x + 1, z) || isRoad(state, x - 1, z)) && (isRoad(state, x, z + 1) || isRoad(state, x, z - 1));
+
+// Crossings are the road tiles either side of a junction
+const isCrossing = (state: GameState, x: number, z: number) =>
+    isRoad(state, x, z) && NEIGHBOURS.some(([dx, dz]) => isIntersection(state, x + dx, z + dz));
+
+// Point on a sidewalk tile on the road side, where pedestrians walk
+const curbPoint = (state: GameState, x: number, z: number, ctx: SimContext): Vector3 => {
+    const t = state.map.tileSize;
+    const [dx, dz] = NEIGHBOURS.find(([dx, dz]) => isRoad(state, x + dx, z + dz)) ?? [0, 0];
+    const jitter = (ctx.rng.next() * 2 - 1) * LANE_JITTER;
+    return {
+        x: x * t + dx * CURB_OFFSET + dz * jitter,
+        y: 0,
+        z: z * t + dz * CURB_OFFSET + dx * jitter
+    };
+};
+
+const nextWaypoint = (state: GameState, ped: Entity, ctx: SimContext): Vector3 | null => {
+    const { x, z } = worldToTile(ped.pos, state.map);
+
+    // Spawned off the pavement (or shoved off it): head for the nearest stretch
+    if (!isSidewalk(state, x, z)) {
+        for (let r = 1; r <= 3; r++) {
+            for (let dz = -r; dz <= r; dz++) {
+                for (let dx = -r; dx <= r; dx++) {
+                    if (isSidewalk(state, x + dx, z + dz)) return curbPoint(state, x + dx, z + dz, ctx);
+                }
+            }
+        }
+        return null;
+    }
+
+    // Keep going the way we were facing where possible
+    const hx = Math.sin(ped.rotation.y), hz = Math.cos(ped.rotation.y);
+    const ahead = NEIGHBOURS.filter(([dx, dz]) => dx * hx + dz * hz > -0.5);
+
+    const crossings = ahead.filter(([dx, dz]) =>
+        isCrossing(state, x + dx, z + dz) && isSidewalk(state, x + dx * 2, z + dz * 2));
+    if (crossings.length && ctx.rng.chance(CROSS_CHANCE)) {
+        const [dx, dz] = ctx.rng.pick(crossings);
+        return curbPoint(state, x + dx * 2, z + dz * 2, ctx);
+    }
+
+    const along = ahead.filter(([dx, dz]) => isSidewalk(state, x + dx, z + dz));
+    const options = along.length ? along : NEIGHBOURS.filter(([dx, dz]) => isSidewalk(state, x + dx, z + dz));
+    if (!options.length) return null;
+    const [dx, dz] = ctx.rng.pick(options);
+    return curbPoint(state, x + dx, z + dz, ctx);
+};
+
+// Gunfire, the player's fists, speeding and burning cars, gathered once per step
+const findThreats = (state: GameState): Threat[] => {
+    const player = state.player;
+    const threats: Threat[] = [];
+    for (const e of state.entities) {
+        if (e.type === EntityType.PROJECTILE) {
+            threats.push({ pos: e.pos, radius: GUNFIRE_RADIUS, crime: e.targetEntityId === player.id, car: false });
+        } else if (e.type === EntityType.VEHICLE && e.burnTimer !== undefined) {
+            threats.push({ pos: e.pos, radius: FIRE_DANGER_RANGE, crime: false, car: true });
+        } else if (e.type === EntityType.VEHICLE && e.state !== 'dead') {
+            const speed = speedXZ(e);
+            if (speed < CAR_DANGER_SPEED || distXZ(e.pos, player.pos) > ACTIVE_RANGE) continue;
+            const pos = { x: e.pos.x + e.vel.x * CAR_LOOKAHEAD, y: 0, z: e.pos.z + e.vel.z * CAR_LOOKAHEAD };
+            threats.push({ pos, radius: CAR_DANGER_RANGE, crime: false, car: true });
+        }
+    }
+    if (player.state === 'punching' || player.state === 'carjacking') threats.push({ pos: player.pos, radius: VIOLENCE_RADIUS, crime: true, car: false });
+    return threats;
+};
+
+const react = (state: GameState, ped: Entity, threat: Threat, ctx: SimContext) => {
+    const civilian = ped.type === EntityType.CIVILIAN;
+    ped.fleeFrom = { ...threat.pos };
+    ped.targetPos = undefined;
+    if (ped.state === 'fleeing' || ped.state === 'cowering') {
+        ped.stateTimer = Math.max(ped.stateTimer ?? 0, ped.state === 'fleeing' ? FLEE_TIME : COWER_TIME);
+        return;
+    }
+
+    if (civilian && !threat.car && ctx.rng.chance(COWER_CHANCE)) {
+        ped.state = 'cowering';
+        ped.stateTimer = COWER_TIME;
+    } else {
+        ped.state = 'fleeing';
+        ped.stateTimer = FLEE_TIME;
+    }
+
+    // Witnesses who can see the player may phone it in
+    const player = state.player;
+    if (civilian && threat.crime && ped.reportTimer === undefined && distXZ(ped.pos, player.pos) < WITNESS_RANGE &&
+        hasLineOfSight(state, ped.pos, player.pos) && ctx.rng.chance(CALL_CHANCE)) {
+        ped.reportTimer = CALL_DELAY;
+    }
+};
+
+const wander = (state: GameState, ped: Entity, ctx: SimContext) => {
+    if (ped.stateTimer !== undefined) { stopMoving(ped); return; } // Pausing
+
+    if (!ped.targetPos || distXZ(ped.pos, ped.targetPos) < WAYPOINT_REACHED) {
+        const arrived = !!ped.targetPos;
+        ped.targetPos = nextWaypoint(state, ped, ctx) ?? undefined;
+        if (!ped.targetPos || (arrived && ctx.rng.chance(PAUSE_CHANCE))) {
+            ped.state = 'idle';
+            ped.stateTimer = ctx.rng.range(PAUSE_MIN, PAUSE_MAX);
+            stopMoving(ped);
+            return;
+        }
+    }
+
+    ped.state = 'walking';
+    const before = { ...ped.pos };
+    walkTowards(state, ped, ped.targetPos, WALK_SPEED, ctx.dt);
+    if (distXZ(before, ped.pos) < WALK_SPEED * ctx.dt * 0.1) ped.targetPos = sidestep(state, ped, ctx);
+};
+
+// Blocked: on the pavement pick another way; mid-road (a car waiting on us), step round its end
+const sidestep = (state: GameState, ped: Entity, ctx: SimContext): Vector3 | undefined => {
+    const { x, z } = worldToTile(ped.pos, state.map);
+    if (!isRoad(state, x, z)) return undefined;
+    const side = ctx.rng.chance(0.5) ? 1 : -1;
+    const hx = Math.sin(ped.rotation.y), hz = Math.cos(ped.rotation.y);
+    return { x: ped.pos.x - hz * side * SIDESTEP, y: 0, z: ped.pos.z + hx * side * SIDESTEP };
+};
+
+// How far a line out from the middle of `e`, heading (ux, uz), runs before leaving its footprint.
+// Buildings are always square to the grid; cars turn with their heading
+const edgeDistance = (e: Entity, ux: number, uz: number) => {
+    const yaw = e.type === EntityType.BUILDING ? 0 : e.rotation.y;
+    const cos = Math.cos(yaw), sin = Math.sin(yaw);
+    const across = Math.abs(ux * cos - uz * sin), along = Math.abs(ux * sin + uz * cos);
+    return Math.min(across ? e.size.x / 2 / across : Infinity, along ? e.size.z / 2 / along : Infinity);
+};
+
+// The spot behind the nearest building or car that puts it between the fighter and whoever they're fighting
+const findCover = (state: GameState, ped: Entity, from: Vector3): Vector3 | null => {
+    const grid = getSpatialIndex(state);
+    let best: Vector3 | null = null, bestDist = COVER_RANGE;
+    for (const e of grid.queryRadius(ped.pos.x, ped.pos.z, COVER_RANGE)) {
+        if (e.type !== EntityType.BUILDING && e.type !== EntityType.VEHICLE) continue;
+        if (e.vehicleId || e.burnTimer !== undefined) continue; // Not a car someone is driving, or one about to go up
+        if (distXZ(e.pos, from) > distXZ(ped.pos, from)) continue; // Behind them already: they'd have to run round it
+        const dx = e.pos.x - from.x, dz = e.pos.z - from.z;
+        const len = Math.hypot(dx, dz) || 1;
+        const back = edgeDistance(e, dx / len, dz / len) + COVER_GAP;
+        const spot = { x: e.pos.x + dx / len * back, y: 0, z: e.pos.z + dz / len * back };
+        const dist = distXZ(ped.pos, spot);
+        if (dist >= bestDist) continue;
+        const tile = worldToTile(spot, state.map);
+        const ground = tileAt(state, tile.x, tile.z);
+        if (ground === TileType.WATER || ground === TileType.MOUNTAIN || checkCollision(spot, ped.size, grid, ped.id)) continue;
+        best = spot;
+        bestDist = dist;
+    }
+    return best;
+};
+
+// A few metres off to one side or the other of the line to `target`
+const stepAside = (ped: Entity, target: Vector3, ctx: SimContext): Vector3 => {
+    const side = ctx.rng.chance(0.5) ? 1 : -1;
+    const dx = target.x - ped.pos.x, dz = target.z - ped.pos.z;
+    const len = Math.hypot(dx, dz) || 1;
+    return { x: ped.pos.x - dz / len * side * PEEK_STEP, y: 0, z: ped.pos.z + dx / len * side * PEEK_STEP };
+};
+
+// Gun in hand: close to firing range, then trade shots, ducking behind cover between bursts when the
+// other side is shooting back
+const shootOut = (state: GameState, ped: Entity, target: Entity, ctx: SimContext) => {
+    const dist = distXZ(ped.pos, target.pos);
+    const underFire = !getEquipped(target).melee;
+    if ((ped.coverTimer ?? 0) <= 0) {
+        if (ped.coverPos || !underFire) {
+            // Out from behind it sideways, round whichever end is picked, to get a line on the target
+            if (ped.coverPos) ped.targetPos = stepAside(ped, target.pos, ctx);
+            ped.coverPos = undefined;
+            ped.coverTimer = BURST_TIME;
+        } else {
+            ped.coverPos = findCover(state, ped, target.pos) ?? undefined;
+            // Time to get there as well; held up on the way, they give up on it and shoot
+            ped.coverTimer = ped.coverPos ? COVER_TIME + distXZ(ped.pos, ped.coverPos) / RUN_SPEED : BURST_TIME;
+        }
+    }
+
+    if (ped.coverPos) {
+        ped.coverTimer! -= ctx.dt;
+        if (distXZ(ped.pos, ped.coverPos) > COVER_REACHED) {
+            walkTowards(state, ped, ped.coverPos, RUN_SPEED, ctx.dt);
+        } else {
+            stopMoving(ped);
+            faceTowards(ped, target.pos);
+        }
+        return;
+    }
+    if (dist > getEquipped(ped).range * FIRING_RANGE || !hasLineOfSight(state, ped.pos, target.pos)) {
+        if (ped.targetPos && distXZ(ped.pos, ped.targetPos) < COVER_REACHED) ped.targetPos = undefined;
+        const before = { ...ped.pos };
+        walkTowards(state, ped, ped.targetPos ?? target.pos, RUN_SPEED, ctx.dt);
+        if (distXZ(before, ped.pos) < RUN_SPEED * ctx.dt * 0.1) ped.targetPos = stepAside(ped, target.pos, ctx); // Wedged on a corner
+        return;
+    }
+    // A burst only runs down while they're actually shooting
+    ped.coverTimer! -= ctx.dt;
+    ped.targetPos = undefined;
+    stopMoving(ped);
+    faceTowards(ped, target.pos);
+    ped.rotation.y += (ctx.rng.next() * 2 - 1) * AIM_ERROR;
+    attack(state, ped, ctx);
+};
+
+// Badly hurt: they run from whoever did it
+const retreat = (ped: Entity, from: Vector3) => {
+    ped.coverPos = undefined;
+    ped.coverTimer = undefined;
+    ped.state = 'fleeing';
+    ped.stateTimer = FLEE_TIME;
+    ped.fleeFrom = { ...from };
+    ped.targetPos = undefined;
+};
+
+// Squares up to whoever they have a grudge against until one of them goes down, gets away or is hurt enough to run
+const fight = (state: GameState, ped: Entity, ctx: SimContext) => {
+    const player = state.player;
+    const target = ped.targetEntityId === player.id ? player : state.entities.find(e => e.id === ped.targetEntityId);
+    const dist = target ? distXZ(ped.pos, target.pos) : Infinity;
+    const giveUp = Math.max(FIGHT_GIVE_UP, getEquipped(ped).range); // Anyone with a gun keeps at it while in range
+    if (!target || dist > giveUp || target.state === 'dead' || target.state === 'busted' || (target !== player && target.vehicleId)) {
+        ped.targetEntityId = undefined;
+        ped.coverPos = undefined;
+        ped.coverTimer = undefined;
+        ped.targetPos = undefined;
+        stopMoving(ped);
+        return;
+    }
+    // Gang war waves fight to the last
+    if (ped.health < ped.maxHealth * RETREAT_AT && !state.gangWar?.memberIds.includes(ped.id)) {
+        ped.targetEntityId = undefined; // The grudge goes with them
+        retreat(ped, target.pos);
+        flee(state, ped, ctx);
+        return;
+    }
+    ped.state = 'walking'; // Out of any panic they were in
+    if (!getEquipped(ped).melee) {
+        shootOut(state, ped, target, ctx);
+        return;
+    }
+    if (dist > MELEE_REACH) {
+        walkTowards(state, ped, target.pos, RUN_SPEED, ctx.dt);
+        return;
+    }
+    stopMoving(ped);
+    faceTowards(ped, target.pos);
+    attack(state, ped, ctx); // Same cooldowns, combos and knockback as the player
+};
+
+// Whose turf the player is trespassing on, if anyone's. Walking past the border or coming round at a
+// hospital or police station doesn't count: gangs only go for the player once they're in on their streets
+const trespassedTurf = (state: GameState): Gang | null => {
+    const player = state.player;
+    const owner = getTerritoryAt(state.turf, state.map, player.pos)?.owner;
+    if (!owner || owner === player.faction) return null;
+    const sheltered = getSpatialIndex(state).queryRadius(player.pos.x, player.pos.z, SANCTUARY_RANGE)
+        .some(e => e.buildingType === 'hospital' || e.buildingType === 'police_station');
+    return sheltered ? null : owner;
+};
+
+/**
+ * An armed officer's side of a shootout: the same cover and bursts as a street shooter, and the same run
+ * for it when badly hurt. Officers don't give up on a pursuit, so a hurt one keeps backing off for as long
+ * as they're in the fight.
+ */
+export const officerGunfight = (state: GameState, officer: Entity, target: Entity, ctx: SimContext) => {
+    if (officer.state !== 'fleeing' && officer.health < officer.maxHealth * RETREAT_AT) retreat(officer, target.pos);
+    if (officer.state === 'fleeing') {
+        flee(state, officer, ctx);
+        return;
+    }
+    shootOut(state, officer, target, ctx);
+};
+
+// Someone in rival colours on this gang member's turf: the player on foot, or a rival gang member
+const spotTrespasser = (state: GameState, ped: Entity, trespassed: Gang | null): Entity | null => {
+    const gang = ped.faction;
+    if (ped.type !== EntityType.GANG_MEMBER || (gang !== 'groves' && gang !== 'ballas')) return null;
+    if (getTerritoryAt(state.turf, state.map, ped.pos)?.owner !== gang) return null;
+
+    const rival = rivalOf(gang);
+    const player = state.player;
+    const inReach = (e: Entity) => e.faction === rival && e.state !== 'dead' && !e.vehicleId &&
+        distXZ(ped.pos, e.pos) < SPOT_RANGE && hasLineOfSight(state, ped.pos, e.pos);
+    if (trespassed === gang && inReach(player)) return player;
+    return getSpatialIndex(state).queryRadius(ped.pos.x, ped.pos.z, SPOT_RANGE)
+        .find(e => e.type === EntityType.GANG_MEMBER && inReach(e)) ?? null;
+};
+
+/**
+ * A driver just dragged out of their car: gang members fight for it, civilians run and
+ * sometimes phone the police about it. Officers are left to the police system.
+ */
+export const reactToCarjack = (state: GameState, driver: Entity, ctx: SimContext) => {
+    if (driver.type === EntityType.GANG_MEMBER) {
+        driver.targetEntityId = state.player.id;
+        return;
+    }
+    if (driver.type !== EntityType.CIVILIAN) return;
+    driver.state = 'fleeing';
+    driver.stateTimer = FLEE_TIME;
+    driver.fleeFrom = { ...state.player.pos };
+    driver.targetPos = undefined;
+    if (driver.reportTimer === undefined && ctx.rng.chance(CALL_CHANCE)) driver.reportTimer = CALL_DELAY;
+};
+
+const flee = (state: GameState, ped: Entity, ctx: SimContext) => {
+    const from = ped.fleeFrom ?? state.player.pos;
+    const dx = ped.pos.x - from.x, dz = ped.pos.z - from.z;
+    const dist = Math.hypot(dx, dz) || 1;
+    walkTowards(state, ped, { x: ped.pos.x + dx / dist * 5, y: 0, z: ped.pos.z + dz / dist * 5 }, RUN_SPEED, ctx.dt);
+};
+
+// Ambient civilians and gang members: walk the sidewalks, scatter from danger, call the police
+export const pedestrianSystem = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const threats = findThreats(state);
+    const scripted = new Set(state.mission?.actors.map(a => a.id));
+    const trespassed = trespassedTurf(state);
+
+    for (const ped of state.entities) {
+        if (ped.type !== EntityType.CIVILIAN && ped.type !== EntityType.GANG_MEMBER) continue;
+        if (ped.state === 'dead' || ped.state === 'punching' || ped.vehicleId || scripted.has(ped.id)) continue;
+
+        if (ped.reportTimer !== undefined) {
+            ped.reportTimer -= ctx.dt;
+            if (ped.reportTimer <= 0) {
+                ped.reportTimer = undefined;
+                raiseWanted(state, 1, ctx);
+            }
+        }
+
+        if (distXZ(ped.pos, player.pos) > ACTIVE_RANGE) {
+            if (ped.vel.x || ped.vel.z) stopMoving(ped);
+            continue;
+        }
+
+        if (!ped.targetEntityId) {
+            const trespasser = spotTrespasser(state, ped, trespassed);
+            if (trespasser) {
+                ped.targetEntityId = trespasser.id;
+                // The rival squares up in return unless they're already busy with someone
+                if (trespasser !== player && !trespasser.targetEntityId && !scripted.has(trespasser.id)) trespasser.targetEntityId = ped.id;
+            }
+        }
+        if (ped.targetEntityId) {
+            fight(state, ped, ctx);
+            continue;
+        }
+
+        const threat = threats.find(t => distXZ(t.pos, ped.pos) < t.radius);
+        if (threat) react(state, ped, threat, ctx);
+
+        switch (ped.state) {
+            case 'cowering': stopMoving(ped); break;
+            case 'fleeing': flee(state, ped, ctx); break;
+            default: wander(state, ped, ctx);
+        }
+    }
+};
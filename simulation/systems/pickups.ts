@@ -0,0 +1,49 @@
+import { Entity, EntityType, GameState, SupplyType } from '../../types';
+import { PLAYER_MAX_ARMOR } from '../../constants';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { SimContext } from '../types';
+import { getWeaponDef, giveWeapon } from '../weapons';
+
+const PICKUP_RANGE = 1.5;
+const HEALTH_PACK = 50; // Health restored, up to the maximum
+
+// Armour refills to full, first aid heals; either is left lying if it would do nothing
+const useSupply = (player: Entity, supply: SupplyType): boolean => {
+    if (supply === SupplyType.ARMOR) {
+        if ((player.armor ?? 0) >= PLAYER_MAX_ARMOR) return false;
+        player.armor = PLAYER_MAX_ARMOR;
+        return true;
+    }
+    if (player.health >= player.maxHealth) return false;
+    player.health = Math.min(player.maxHealth, player.health + HEALTH_PACK);
+    return true;
+};
+
+export const pickupSystem = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    if (player.vehicleId || player.state === 'dead') return;
+
+    const grid = getSpatialIndex(state);
+    for (const e of grid.queryRadius(player.pos.x, player.pos.z, PICKUP_RANGE)) {
+        if (e.type !== EntityType.ITEM_WEAPON) continue;
+
+        const item = e.supply ?? e.inventory?.[0];
+        if (!item) continue;
+
+        if (e.supply) {
+            if (!useSupply(player, e.supply)) continue;
+        } else {
+            // New guns go straight into the player's hand; known ones just top up the ammo
+            const def = getWeaponDef(item);
+            if (giveWeapon(player, def.type, def.pickupAmmo)) {
+                player.weaponSlot = player.inventory!.indexOf(def.type);
+                player.reloadTimer = undefined;
+                ctx.emit({ type: 'weaponSwitched', weapon: def.type });
+            }
+        }
+        state.entities.splice(state.entities.indexOf(e), 1);
+        grid.remove(e);
+        ctx.emit({ type: 'pickup', entityId: e.id, item });
+        ctx.emit({ type: 'entitiesChanged' });
+    }
+};
@@ -0,0 +1,342 @@
+import { Entity, EntityType, GameState, PursuitState, Vector3, VehicleClass, WeaponType } from '../../types';
+import { FACTION_COLORS } from '../../constants';
+import { findRoadPath } from '../../utils/pathfinding';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { distXZ, faceTowards, hasLineOfSight, speedXZ, stopMoving, walkTowards, wrapAngle } from '../ai/steering';
+import { findRoadInRing, removeEntity, spawnEntity } from '../missions/locations';
+import { SimContext } from '../types';
+import { vehicleDefOf, vehicleProps, VEHICLES } from '../vehicleClasses';
+import { WASTED_DURATION } from './combat';
+import { assessPenalty } from './lifecycle';
+import { officerGunfight } from './pedestrians';
+import { driveCar } from './vehicles';
+
+// Units on the street per star level (index = wantedLevel)
+const DISPATCH: { officers: number, cruisers: number }[] = [
+    { officers: 0, cruisers: 0 },
+    { officers: 2, cruisers: 1 },
+    { officers: 3, cruisers: 2 },
+    { officers: 4, cruisers: 3 },
+    { officers: 5, cruisers: 4 },
+    { officers: 6, cruisers: 5 }
+];
+// Seconds out of sight before a star is lost (index = wantedLevel)
+const SEARCH_DECAY = [0, 8, 12, 16, 20, 25];
+
+const DISPATCH_INTERVAL = 3;
+const SPAWN_MIN = 70;            // Off-screen: beyond the distance the camera and fog show
+const SPAWN_MAX = 110;
+const DESPAWN_RANGE = 160;
+const STAND_DOWN_RANGE = 60;     // With no stars, units out of sight or this far away are removed
+const SIGHT_RANGE = 60;
+const ARMED_LEVEL = 3;           // From this many stars officers open fire
+const SHOOT_RANGE = 25;
+const OFFICER_SPEED = 6;         // Slower than the player's sprint, so running away works
+const CRUISER_SPEED = 22;        // Plus CRUISER_SPEED_PER_STAR per star
+const CRUISER_SPEED_PER_STAR = 2;
+const STEER_GAIN = 3;            // Steering input per radian of heading error
+const CORNER_SLOWDOWN = 0.3;     // Least share of top speed kept through a hairpin
+const DISMOUNT_RANGE = 15;       // Officers get out to chase a player on foot
+const BOARD_RANGE = 3;
+const REMOUNT_RANGE = 25;        // Officers run back to their car once the player drives this far away
+const WAYPOINT_REACHED = 6;
+const REPATH_INTERVAL = 2;
+const RAM_MIN_SPEED = 6;
+const RAM_PUSH = 0.6;            // Share of the cruiser's velocity transferred to the rammed car
+const RAM_COOLDOWN = 1;
+const ARREST_RANGE = 1.8;
+const ARREST_TIME = 1.5;         // Seconds held before the cuffs go on
+const ARREST_LOW_HEALTH = 0.3;   // Below this share of health the arrest is instant
+const PULL_OUT_SPEED = 1;        // A car slower than this can be pulled open
+
+export const createPursuitState = (): PursuitState => ({
+    lastSeen: null,
+    searchTime: 0,
+    searching: false,
+    dispatchTimer: 0,
+    arrestTime: 0
+});
+
+// Road routes are derived data, recomputed on demand rather than saved
+interface RoutePlan { path: Vector3[]; index: number; age: number; goal: Vector3 }
+const routes = new WeakMap<Entity, RoutePlan>();
+
+const isAlive = (e: Entity) => e.state !== 'dead' && e.health > 0;
+const isOfficer = (e: Entity) => e.type === EntityType.POLICE;
+const isCruiser = (e: Entity) => e.type === EntityType.VEHICLE && e.faction === 'police';
+
+const findEntity = (state: GameState, id: string | null | undefined) =>
+    id ? state.entities.find(e => e.id === id) : undefined;
+
+// The officer behind the wheel, if the cruiser is being driven by the police
+const driverOf = (state: GameState, cruiser: Entity) => {
+    const driver = findEntity(state, cruiser.vehicleId);
+    return driver && isOfficer(driver) && isAlive(driver) ? driver : undefined;
+};
+
+const spawnOfficer = (state: GameState, ctx: SimContext, pos: Vector3, props: Partial<Entity> = {}) =>
+    spawnEntity(state, ctx, EntityType.POLICE, pos, {
+        faction: 'police',
+        color: FACTION_COLORS.police,
+        accessory: 'hat',
+        inventory: [state.wantedLevel >= ARMED_LEVEL ? WeaponType.PISTOL : WeaponType.FIST],
+        ...props
+    });
+
+const spawnCruiser = (state: GameState, ctx: SimContext, pos: Vector3) => {
+    const cruiser = spawnEntity(state, ctx, EntityType.VEHICLE, pos, { ...vehicleProps(VehicleClass.POLICE, ctx.rng.pick(VEHICLES[VehicleClass.POLICE].colors)), faction: 'police' });
+    faceTowards(cruiser, state.player.pos);
+    const driver = spawnOfficer(state, ctx, pos, { vehicleId: cruiser.id, targetEntityId: cruiser.id });
+    cruiser.vehicleId = driver.id;
+};
+
+const dispatch = (state: GameState, ctx: SimContext) => {
+    const pursuit = state.pursuit;
+    pursuit.dispatchTimer -= ctx.dt;
+    if (pursuit.dispatchTimer > 0) return;
+    pursuit.dispatchTimer = DISPATCH_INTERVAL;
+
+    const wanted = DISPATCH[state.wantedLevel];
+    const officers = state.entities.filter(e => isOfficer(e) && isAlive(e) && !e.vehicleId).length;
+    const cruisers = state.entities.filter(e => isCruiser(e) && isAlive(e) && driverOf(state, e)).length;
+
+    // One of each per interval, so reinforcements trickle in rather than appearing as a wall
+    if (officers < wanted.officers) {
+        const pos = findRoadInRing(state, ctx.rng, SPAWN_MIN, SPAWN_MAX);
+        if (pos) spawnOfficer(state, ctx, pos);
+    }
+    if (cruisers < wanted.cruisers) {
+        const pos = findRoadInRing(state, ctx.rng, SPAWN_MIN, SPAWN_MAX);
+        if (pos) spawnCruiser(state, ctx, pos);
+    }
+};
+
+// Far-off units (and, with no stars, any unit the player can't see) leave the world
+const despawn = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    let removed = false;
+    for (const e of [...state.entities]) {
+        if (isOfficer(e) ? e.vehicleId : !isCruiser(e)) continue; // Drivers leave with their cruiser
+        if (isCruiser(e) && e.vehicleId && !driverOf(state, e)) continue; // Someone else is driving it
+        const dist = distXZ(e.pos, player.pos);
+        const standDown = state.wantedLevel === 0 && (dist > STAND_DOWN_RANGE || !hasLineOfSight(state, e.pos, player.pos));
+        if (dist < DESPAWN_RANGE && !standDown) continue;
+        const driver = isCruiser(e) ? findEntity(state, e.vehicleId) : undefined;
+        if (driver) removeEntity(state, driver);
+        removeEntity(state, e);
+        removed = true;
+    }
+    if (removed) ctx.emit({ type: 'entitiesChanged' });
+};
+
+// Sight checks drive the search phase: unseen for long enough, the player loses a star
+const updateSearch = (state: GameState, ctx: SimContext) => {
+    const pursuit = state.pursuit;
+    const player = state.player;
+    const seen = state.entities.some(e => {
+        if (!isAlive(e) || !(isOfficer(e) ? !e.vehicleId : isCruiser(e) && driverOf(state, e))) return false;
+        return distXZ(e.pos, player.pos) < SIGHT_RANGE && hasLineOfSight(state, e.pos, player.pos);
+    });
+
+    if (seen) {
+        pursuit.lastSeen = { ...player.pos };
+        pursuit.searchTime = 0;
+    } else {
+        pursuit.lastSeen ??= { ...player.pos };
+        pursuit.searchTime += ctx.dt;
+        if (pursuit.searchTime >= SEARCH_DECAY[state.wantedLevel]) {
+            pursuit.searchTime = 0;
+            state.wantedLevel--;
+            ctx.emit({ type: 'wantedChanged', level: state.wantedLevel });
+        }
+    }
+
+    const searching = !seen && state.wantedLevel > 0;
+    if (searching !== pursuit.searching) {
+        pursuit.searching = searching;
+        ctx.emit({ type: 'searchChanged', searching });
+    }
+    if (state.wantedLevel === 0) pursuit.lastSeen = null;
+};
+
+// Where units head: the player while in sight, otherwise the last sighting
+const pursuitTarget = (state: GameState): Vector3 =>
+    state.pursuit.searching && state.pursuit.lastSeen ? state.pursuit.lastSeen : state.player.pos;
+
+/**
+ * Throttle, brake and steering towards `goal` (or to a standstill without one), fed through the same
+ * handling model as the player's car and traffic, so cruisers slide on grass and get bent in crashes.
+ * Returns whatever the cruiser ran into.
+ */
+const driveCruiser = (state: GameState, cruiser: Entity, goal: Vector3 | null, speed: number, ctx: SimContext) => {
+    const fx = Math.sin(cruiser.rotation.y), fz = Math.cos(cruiser.rotation.y);
+    const forwardSpeed = cruiser.vel.x * fx + cruiser.vel.z * fz;
+    const turn = goal ? wrapAngle(Math.atan2(goal.x - cruiser.pos.x, goal.z - cruiser.pos.z) - cruiser.rotation.y) : 0;
+    // Ease off for sharp corners so cruisers don't orbit their target
+    const target = goal ? speed * Math.max(CORNER_SLOWDOWN, Math.cos(turn)) : 0;
+    if (target === 0 && Math.abs(forwardSpeed) < 0.5) {
+        stopMoving(cruiser);
+        return undefined;
+    }
+    const def = vehicleDefOf(cruiser);
+    const force = forwardSpeed < target
+        ? def.accel * Math.min(1, (target - forwardSpeed) / 2)
+        : -def.brake * Math.min(1, (forwardSpeed - target) / 2);
+    return driveCar(state, cruiser, force, Math.max(-1, Math.min(1, turn * STEER_GAIN)), ctx);
+};
+
+const followRoad = (state: GameState, cruiser: Entity, goal: Vector3, speed: number, ctx: SimContext) => {
+    let plan = routes.get(cruiser);
+    if (plan) plan.age += ctx.dt;
+    if (!plan || plan.age > REPATH_INTERVAL || distXZ(plan.goal, goal) > WAYPOINT_REACHED * 2) {
+        const path = findRoadPath(state.map, cruiser.pos, goal) ?? [cruiser.pos, goal];
+        plan = { path, index: 1, age: 0, goal: { ...goal } };
+        routes.set(cruiser, plan);
+    }
+    while (plan.index < plan.path.length - 1 && distXZ(cruiser.pos, plan.path[plan.index]) < WAYPOINT_REACHED) plan.index++;
+    driveCruiser(state, cruiser, plan.path[plan.index], speed, ctx);
+};
+
+const dismount = (state: GameState, cruiser: Entity, driver: Entity, ctx: SimContext) => {
+    const side = cruiser.rotation.y + Math.PI / 2;
+    cruiser.vehicleId = null;
+    driver.vehicleId = null;
+    driver.pos = { x: cruiser.pos.x + Math.sin(side) * 1.5, y: driver.pos.y, z: cruiser.pos.z + Math.cos(side) * 1.5 };
+    getSpatialIndex(state).update(driver);
+    ctx.emit({ type: 'entitiesChanged' });
+};
+
+// Hitting the player's car at speed shoves it on; the crash itself does the damage, to both cars
+const ram = (state: GameState, cruiser: Entity, car: Entity, impactVel: Vector3) => {
+    const closing = Math.hypot(impactVel.x - car.vel.x, impactVel.z - car.vel.z);
+    if (closing < RAM_MIN_SPEED || state.clock - (cruiser.lastAttackTime ?? -Infinity) < RAM_COOLDOWN) return;
+    cruiser.lastAttackTime = state.clock;
+    car.vel.x += impactVel.x * RAM_PUSH;
+    car.vel.z += impactVel.z * RAM_PUSH;
+};
+
+const updateCruiser = (state: GameState, cruiser: Entity, driver: Entity, ctx: SimContext) => {
+    const player = state.player;
+    driver.pos = { ...cruiser.pos, y: driver.pos.y };
+    if (state.wantedLevel === 0 || player.state === 'dead' || player.state === 'busted') {
+        driveCruiser(state, cruiser, null, 0, ctx);
+        return;
+    }
+
+    const speed = CRUISER_SPEED + state.wantedLevel * CRUISER_SPEED_PER_STAR;
+    const target = pursuitTarget(state);
+    const dist = distXZ(cruiser.pos, target);
+    const playerCar = findEntity(state, player.vehicleId);
+    const inSight = !state.pursuit.searching && dist < SIGHT_RANGE / 2 && hasLineOfSight(state, cruiser.pos, target);
+
+    if (playerCar && inSight) {
+        // Close in on the player's car and run it off the road
+        const impactVel = { ...cruiser.vel };
+        if (driveCruiser(state, cruiser, playerCar.pos, speed, ctx) === playerCar) ram(state, cruiser, playerCar, impactVel);
+    } else if (!playerCar && dist < DISMOUNT_RANGE && inSight) {
+        driveCruiser(state, cruiser, null, 0, ctx);
+        if (speedXZ(cruiser) < 1) dismount(state, cruiser, driver, ctx);
+    } else if (state.pursuit.searching && dist < WAYPOINT_REACHED) {
+        driveCruiser(state, cruiser, null, 0, ctx); // Sit at the last sighting and wait for a new one
+    } else {
+        followRoad(state, cruiser, target, speed, ctx);
+    }
+};
+
+const updateOfficer = (state: GameState, officer: Entity, ctx: SimContext) => {
+    const player = state.player;
+    if (officer.state === 'punching') return;
+    if (state.wantedLevel === 0 || player.state === 'dead' || player.state === 'busted') { stopMoving(officer); return; }
+
+    // Run back to the cruiser once the player has driven off
+    const cruiser = findEntity(state, officer.targetEntityId);
+    if (player.vehicleId && cruiser && isAlive(cruiser) && !cruiser.vehicleId && distXZ(officer.pos, player.pos) > REMOUNT_RANGE) {
+        if (distXZ(officer.pos, cruiser.pos) < BOARD_RANGE) {
+            officer.vehicleId = cruiser.id;
+            cruiser.vehicleId = officer.id;
+            stopMoving(officer);
+            ctx.emit({ type: 'entitiesChanged' });
+        } else {
+            walkTowards(state, officer, cruiser.pos, OFFICER_SPEED, ctx.dt);
+        }
+        return;
+    }
+
+    // Officers draw their guns once the stars reach ARMED_LEVEL
+    const armed = state.wantedLevel >= ARMED_LEVEL;
+    officer.inventory = [armed ? WeaponType.PISTOL : WeaponType.FIST];
+
+    const target = pursuitTarget(state);
+    const dist = distXZ(officer.pos, target);
+    const inSight = !state.pursuit.searching && dist < SIGHT_RANGE && hasLineOfSight(state, officer.pos, target);
+
+    if (armed && (officer.state === 'fleeing' || (inSight && dist < SHOOT_RANGE))) {
+        officerGunfight(state, officer, findEntity(state, player.vehicleId) ?? player, ctx);
+        return;
+    }
+    officer.coverPos = undefined; // Out of the shootout: no more ducking
+    officer.coverTimer = undefined;
+    if (dist > ARREST_RANGE * 0.8) {
+        walkTowards(state, officer, target, OFFICER_SPEED, ctx.dt);
+    } else {
+        stopMoving(officer);
+        faceTowards(officer, target);
+    }
+};
+
+const bust = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const car = findEntity(state, player.vehicleId);
+    if (car) car.vehicleId = null;
+    player.vehicleId = null;
+    player.state = 'busted';
+    player.stateTimer = WASTED_DURATION;
+    stopMoving(player);
+    state.penalty = assessPenalty(state, 'busted');
+    ctx.emit({ type: 'playerBusted' });
+};
+
+// An officer within reach of a player on foot (or in a stopped car) makes the arrest
+const checkArrest = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const pursuit = state.pursuit;
+    const car = findEntity(state, player.vehicleId);
+    const canArrest = car ? speedXZ(car) < PULL_OUT_SPEED : player.state !== 'entering_vehicle' && player.state !== 'exiting_vehicle';
+    const reach = car ? ARREST_RANGE + car.size.x / 2 : ARREST_RANGE;
+    const officerClose = canArrest && getSpatialIndex(state).queryRadius(player.pos.x, player.pos.z, reach)
+        .some(e => isOfficer(e) && isAlive(e) && !e.vehicleId && distXZ(e.pos, player.pos) < reach);
+
+    if (!officerClose) {
+        pursuit.arrestTime = 0;
+        return;
+    }
+    pursuit.arrestTime += ctx.dt;
+    if (pursuit.arrestTime >= ARREST_TIME || player.health <= player.maxHealth * ARREST_LOW_HEALTH) {
+        pursuit.arrestTime = 0;
+        bust(state, ctx);
+    }
+};
+
+// Dispatch, pursuit, search and arrest, all driven by wantedLevel
+export const policeSystem = (state: GameState, ctx: SimContext) => {
+    if (state.wantedLevel > 0) {
+        updateSearch(state, ctx);
+        dispatch(state, ctx);
+    } else if (state.pursuit.searching) {
+        state.pursuit.searching = false;
+        ctx.emit({ type: 'searchChanged', searching: false });
+    }
+
+    for (const e of [...state.entities]) {
+        if (!isAlive(e)) continue;
+        if (isCruiser(e)) {
+            const driver = driverOf(state, e);
+            if (driver) updateCruiser(state, e, driver, ctx);
+        } else if (isOfficer(e) && !e.vehicleId) {
+            updateOfficer(state, e, ctx);
+        }
+    }
+
+    if (state.wantedLevel > 0) checkArrest(state, ctx);
+    despawn(state, ctx);
+};
@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import { Entity, EntityType, GameState } from '../../types';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { intersectRayAABB } from '../../utils/math';
+import { worldToTile } from '../../utils/pathfinding';
+import { ImpactMaterial, SimContext } from '../types';
+import { applyDamage, reportAssault } from './combat';
+
+const BULLET_DAMAGE = 25; // For rounds spawned without weapon stats
+const DESPAWN_DIST_SQ = 10000; // 100m from the player
+const TERRAIN_SAMPLE = 0.5; // Metres between elevation checks along a bullet's path
+
+interface Hit { t: number; target: Entity | null; material: ImpactMaterial }
+
+// What a bullet strikes, as seen by the impact effect
+const materialOf = (e: Entity): ImpactMaterial => {
+    if (e.type === EntityType.BUILDING) return 'concrete';
+    if (e.type === EntityType.VEHICLE) return 'metal';
+    if (e.type === EntityType.PROP) return e.propType === 'tree' ? 'wood' : 'metal';
+    return 'flesh';
+};
+
+// Buildings are placed by their centre and always drawn square to the grid; everything else stands on its
+// position, with the footprint grown to cover its heading
+const boundsOf = (e: Entity): [THREE.Vector3, THREE.Vector3] => {
+    const yaw = e.type === EntityType.BUILDING ? 0 : e.rotation.y;
+    const cos = Math.abs(Math.cos(yaw));
+    const sin = Math.abs(Math.sin(yaw));
+    const hx = (cos * e.size.x + sin * e.size.z) / 2;
+    const hz = (sin * e.size.x + cos * e.size.z) / 2;
+    const bottom = e.type === EntityType.BUILDING ? e.pos.y - e.size.y / 2 : e.pos.y;
+    return [
+        new THREE.Vector3(e.pos.x - hx, bottom, e.pos.z - hz),
+        new THREE.Vector3(e.pos.x + hx, bottom + e.size.y, e.pos.z + hz)
+    ];
+};
+
+const canBeHit = (e: Entity, ownerId: string | undefined) => {
+    if (e.id === ownerId || e.type === EntityType.PROJECTILE || e.type === EntityType.ITEM_WEAPON) return false;
+    if (e.vehicleId && e.type !== EntityType.VEHICLE) return false; // Passengers are inside the car's box
+    return e.type === EntityType.VEHICLE || e.type === EntityType.BUILDING || e.type === EntityType.PROP || e.state !== 'dead';
+};
+
+// First point along the path where the ground rises above the bullet (mountain tiles are solid blocks)
+const hitTerrain = (state: GameState, origin: THREE.Vector3, dir: THREE.Vector3, length: number): number | null => {
+    const map = state.map;
+    for (let t = 0; t <= length; t += TERRAIN_SAMPLE) {
+        const tile = worldToTile({ x: origin.x + dir.x * t, y: 0, z: origin.z + dir.z * t }, map);
+        if (origin.y + dir.y * t < (map.elevations[tile.z]?.[tile.x] ?? 0)) return t;
+    }
+    return null;
+};
+
+// Nearest thing the bullet passes through between its last position and this step's
+const sweep = (state: GameState, bullet: Entity, origin: THREE.Vector3, dir: THREE.Vector3, length: number): Hit | null => {
+    const candidates = getSpatialIndex(state).queryRay(origin.x, origin.z, dir.x, dir.z, length);
+    // The player isn't in the grid; in a car they're covered by the car's own box
+    if (!state.player.vehicleId) candidates.push(state.player);
+
+    let best: Hit | null = null;
+    for (const target of candidates) {
+        if (!canBeHit(target, bullet.targetEntityId)) continue;
+        const [min, max] = boundsOf(target);
+        const t = intersectRayAABB(origin, dir, min, max);
+        if (t !== null && t <= length && (!best || t < best.t)) best = { t, target, material: materialOf(target) };
+    }
+
+    const ground = hitTerrain(state, origin, dir, length);
+    if (ground !== null && (!best || ground < best.t)) best = { t: ground, target: null, material: 'rock' };
+    return best;
+};
+
+export const projectileSystem = (state: GameState, ctx: SimContext) => {
+    const { dt } = ctx;
+    const player = state.player;
+
+    for (let i = state.entities.length - 1; i >= 0; i--) {
+        const e = state.entities[i];
+        if (e.type !== EntityType.PROJECTILE) continue;
+
+        const dir = new THREE.Vector3(e.vel.x, e.vel.y, e.vel.z);
+        const length = dir.length() * dt;
+        dir.normalize();
+        const origin = new THREE.Vector3(e.pos.x, e.pos.y, e.pos.z);
+
+        const hit = length > 0 ? sweep(state, e, origin, dir, length) : null;
+        const travelled = hit ? hit.t : length;
+        e.pos.x += dir.x * travelled;
+        e.pos.y += dir.y * travelled;
+        e.pos.z += dir.z * travelled;
+        if (e.range !== undefined) e.range -= travelled;
+
+        if (hit) {
+            ctx.emit({ type: 'impact', pos: { ...e.pos }, material: hit.material });
+            // Buildings, props and hillsides stop rounds without taking damage
+            const target = hit.target;
+            if (target && (target.type === EntityType.VEHICLE || hit.material === 'flesh')) {
+                const shooter = e.targetEntityId === player.id ? player : state.entities.find(s => s.id === e.targetEntityId);
+                applyDamage(state, target, e.damage ?? BULLET_DAMAGE, 'bullet', ctx, shooter);
+                if (e.targetEntityId === player.id) reportAssault(state, target, ctx);
+            }
+        }
+
+        const distFromPlayer = (e.pos.x - player.pos.x)**2 + (e.pos.z - player.pos.z)**2;
+        if (hit || distFromPlayer > DESPAWN_DIST_SQ || (e.range !== undefined && e.range <= 0)) {
+            state.entities.splice(i, 1);
+            ctx.emit({ type: 'entitiesChanged' });
+        }
+    }
+};
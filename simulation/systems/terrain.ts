@@ -0,0 +1,133 @@
+import { Entity, GameState, TileType } from '../../types';
+import { WATER_LEVEL } from '../../constants';
+import { isStandable, topOf } from '../../utils/physics';
+import { worldToTile } from '../../utils/pathfinding';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { SimContext } from '../types';
+import { applyDamage, killPlayer } from './combat';
+
+export const STEP_HEIGHT = 0.5; // Rises the player walks up without noticing: kerbs, beaches, hydrant bases
+const FOOTING = 0.05;          // Character model root is at the feet, so it sits just above the tile elevation
+const GRAVITY = 20;            // m/s²; heavier than life so jumps feel snappy
+const JUMP_SPEED = 6.5;        // Take-off speed, clearing about a metre
+const SAFE_FALL = 4;           // Metres the player can drop without getting hurt
+const FALL_DAMAGE = 6;         // hp per metre beyond that; 25 m is fatal from full health
+const STUMBLE_FALL = 6;        // Metres beyond which the landing knocks them off their feet
+const STUMBLE_TIME = 1.5;
+
+export const MAX_BREATH = 15;  // Seconds the player can stay under
+const BREATH_RECOVERY = 5;     // Seconds of air regained per second at the surface
+const DROWN_RATE = 25;         // hp per second once out of air, 4 seconds to die
+const TREAD_DEPTH = 1.5;       // Feet below the surface while swimming, keeping the head out
+const DIVE_DEPTH = 6;          // How far under the player can dive
+const DIVE_SPEED = 2;          // m/s down...
+const SURFACE_SPEED = 3;       // ...and back up
+const HEAD_UNDER = 0.3;        // Metres below treading depth at which the head goes under
+
+// Treading water, or diving while jump is held; air runs down only with the head under
+const swim = (state: GameState, ctx: SimContext) => {
+    const { dt } = ctx;
+    const player = state.player;
+    if (player.state !== 'swimming') {
+        player.state = 'swimming';
+        player.breath = MAX_BREATH;
+        ctx.emit({ type: 'splash', pos: { ...player.pos }, kind: 'enter' });
+    }
+
+    const surface = WATER_LEVEL - TREAD_DEPTH;
+    const wasUnder = player.pos.y < surface - HEAD_UNDER;
+    player.pos.y = ctx.input.jump
+        ? Math.max(surface - DIVE_DEPTH, player.pos.y - DIVE_SPEED * dt)
+        : Math.min(surface, player.pos.y + SURFACE_SPEED * dt);
+    const under = player.pos.y < surface - HEAD_UNDER;
+    if (under !== wasUnder) ctx.emit({ type: 'splash', pos: { ...player.pos, y: WATER_LEVEL }, kind: under ? 'dive' : 'surface' });
+
+    const breath = player.breath ?? MAX_BREATH;
+    if (!under) {
+        player.breath = Math.min(MAX_BREATH, breath + BREATH_RECOVERY * dt);
+    } else if (breath > 0) {
+        player.breath = Math.max(0, breath - dt);
+    } else {
+        applyDamage(state, player, DROWN_RATE * dt, 'drowning', ctx);
+    }
+};
+
+// What the feet rest on here: the tile, or the top of anything low enough to have been stepped onto
+const groundUnder = (state: GameState, e: Entity): number => {
+    const { x, z } = worldToTile(e.pos, state.map);
+    let ground = (state.map.elevations[z]?.[x] ?? 0) + FOOTING;
+    const hx = e.size.x / 2, hz = e.size.z / 2;
+    for (const other of getSpatialIndex(state).queryAABB(e.pos.x - hx, e.pos.z - hz, e.pos.x + hx, e.pos.z + hz)) {
+        if (!isStandable(other)) continue;
+        const top = topOf(other);
+        if (top <= e.pos.y + STEP_HEIGHT) ground = Math.max(ground, top);
+    }
+    return ground;
+};
+
+// Touching down: long drops hurt, and longer ones knock the player over
+const land = (state: GameState, speed: number, ctx: SimContext) => {
+    const player = state.player;
+    const height = speed * speed / (2 * GRAVITY);
+    const hurt = height > SAFE_FALL;
+    if (height > STEP_HEIGHT) ctx.emit({ type: 'landed', height, hurt }); // Not for every kerb
+    if (!hurt) return;
+    applyDamage(state, player, (height - SAFE_FALL) * FALL_DAMAGE, 'fall', ctx);
+    if (height > STUMBLE_FALL && player.state !== 'dead') {
+        player.state = 'stumbling';
+        player.stateTimer = STUMBLE_TIME;
+    }
+};
+
+// Gravity, jumps and landings for the player on foot. Standing below the ground (a kerb stepped up, a car
+// left inside a hillside) puts them straight back on top
+const fall = (state: GameState, ground: number, ctx: SimContext) => {
+    const { dt } = ctx;
+    const player = state.player;
+    if (player.pos.y > ground + 0.01 || player.vel.y !== 0) {
+        player.vel.y -= GRAVITY * dt;
+        player.pos.y += player.vel.y * dt;
+        if (player.pos.y > ground) return;
+        land(state, -player.vel.y, ctx);
+    }
+    player.pos.y = ground;
+    player.vel.y = 0;
+    if (ctx.input.jump && (player.state === 'idle' || player.state === 'walking')) player.vel.y = JUMP_SPEED;
+};
+
+// Keeps the player on the ground, floats them in open water and kills them off the map
+export const terrainSystem = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const { x: tileX, z: tileZ } = worldToTile(player.pos, state.map);
+
+    // Out of map bounds - Instant death
+    if (tileX < 0 || tileX >= state.map.width || tileZ < 0 || tileZ >= state.map.height) {
+        killPlayer(state, 'bounds', ctx);
+        return;
+    }
+
+    if (player.vehicleId) {
+        player.breath = undefined; // Hauled aboard a boat
+        return;
+    }
+    if (player.state === 'dead' || player.state === 'busted' || player.state === 'climbing') return;
+
+    if (state.map.tiles[tileZ][tileX] === TileType.WATER) {
+        // Dropping in off a quay or a jump; water breaks any fall
+        if (player.state !== 'swimming' && player.pos.y > WATER_LEVEL - TREAD_DEPTH) {
+            player.vel.y -= GRAVITY * ctx.dt;
+            player.pos.y += player.vel.y * ctx.dt;
+            if (player.pos.y > WATER_LEVEL - TREAD_DEPTH) return;
+        }
+        player.vel.y = 0;
+        swim(state, ctx);
+        return;
+    }
+
+    // Climbing out onto the shore
+    if (player.state === 'swimming') {
+        player.state = 'idle';
+        player.breath = undefined;
+    }
+    fall(state, groundUnder(state, player), ctx);
+};
@@ -0,0 +1,12 @@
+import { GameState } from '../../types';
+import { TIME_SPEED } from '../../constants';
+import { SimContext } from '../types';
+
+// Day/night clock: TIME_SPEED game minutes per 60Hz frame, wrapped at midnight
+export const timeSystem = (state: GameState, ctx: SimContext) => {
+    state.timeOfDay += TIME_SPEED * ctx.dt * 60;
+    if (state.timeOfDay >= 1440) state.timeOfDay = 0;
+};
+
+// Dawn: 5:00-7:00 (300-420), Day: 7:00-19:00 (420-1140), Dusk: 19:00-21:00 (1140-1260), Night: 21:00-5:00 (1260-300)
+export const isNightTime = (timeOfDay: number) => timeOfDay >= 1260 || timeOfDay < 420;
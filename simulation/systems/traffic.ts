@@ -0,0 +1,282 @@
+import { Entity, EntityType, GameState, TileType, Vector3 } from '../../types';
+import { DRIVER_FACTIONS, LANE_OFFSET } from '../../utils/worldGen';
+import { worldToTile } from '../../utils/pathfinding';
+import { checkCollision } from '../../utils/physics';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { distXZ, speedXZ, stopMoving, wrapAngle } from '../ai/steering';
+import { findRoadInRing, removeEntity, spawnCivilian, spawnEntity, spawnGangMember } from '../missions/locations';
+import { SimContext } from '../types';
+import { trafficAt, vehicleDefOf, vehicleProps, VEHICLES } from '../vehicleClasses';
+import { driveCar, isBeingJacked } from './vehicles';
+
+const TRAFFIC_BUDGET = 12;       // Ambient cars kept within DESPAWN_RANGE of the player
+const SPAWN_MIN = 70;            // Off-screen, like police reinforcements
+const SPAWN_MAX = 110;
+const DESPAWN_RANGE = 170;
+const CRUISE_MIN = 6;            // m/s; the player's car tops out around 10
+const CRUISE_MAX = 8;
+const TURN_SPEED = 4;
+const PANIC_SPEED = 10;
+const SLOW_FOR_TURN = 15;        // Start easing off this far before a corner
+const STEER_GAIN = 3;            // Steering input per radian of heading error
+const WAYPOINT_REACHED = 3;
+const LOOKAHEAD = 2;             // Clear road wanted ahead of the bumper, plus LOOKAHEAD_TIME of travel
+const LOOKAHEAD_TIME = 0.6;
+const LANE_CLEARANCE = 0.3;
+const HORN_DELAY = 1.5;          // Seconds held up by someone in the road before leaning on the horn
+const HORN_COOLDOWN = 3;
+const HORN_RANGE = 60;           // Horns further from the player than this aren't worth the event
+const NUDGE_DELAY = 6;           // Seconds stuck behind another car before edging past it
+const NUDGE_TIME = 1.5;
+const REPLAN_DELAY = 10;
+const RAM_RANGE = 5.5;
+const RAM_SPEED = 2;             // Closing speed (m/s) of the player's car that counts as a ram; a bump will do
+const GUNFIRE_RADIUS = 10;
+const PANIC_TIME = 10;
+const MAX_STRAIGHT = 120;        // Tiles walked along a road when planning, as a guard against loops
+
+const NEIGHBOURS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+interface Waypoint { pos: Vector3; turn: boolean }
+
+// Lane routes and reaction bookkeeping are derived data, rebuilt on demand rather than saved
+interface TrafficPlan {
+    route: Waypoint[];
+    tile: { x: number, z: number };  // Last tile planned to
+    dir: [number, number];           // Heading out of that tile
+    cruise: number;
+    health: number;
+    waitTime: number;
+    nudgeTime: number;
+    hornTime: number;
+}
+const plans = new WeakMap<Entity, TrafficPlan>();
+
+const isRoad = (state: GameState, x: number, z: number) => state.map.tiles[z]?.[x] === TileType.ROAD;
+
+// Middle of the right-hand lane for travel along `dir`, offset `ahead` along it from the tile centre
+const lanePoint = (state: GameState, x: number, z: number, [dx, dz]: [number, number], ahead = 0): Vector3 => {
+    const t = state.map.tileSize;
+    return { x: x * t - dz * LANE_OFFSET + dx * ahead, y: 0, z: z * t + dx * LANE_OFFSET + dz * ahead };
+};
+
+// Where the lane for `from` meets the lane for `to` inside a junction tile
+const cornerPoint = (state: GameState, x: number, z: number, from: [number, number], to: [number, number]): Vector3 => {
+    const t = state.map.tileSize;
+    if (from[0] === to[0] && from[1] === to[1]) return lanePoint(state, x, z, from);
+    return {
+        x: x * t + (-from[1] - to[1]) * LANE_OFFSET,
+        y: 0,
+        z: z * t + (from[0] + to[0]) * LANE_OFFSET
+    };
+};
+
+// Follows the road from the plan's last tile to the next junction, bend or dead end and picks a way on
+const extendRoute = (state: GameState, plan: TrafficPlan, ctx: SimContext) => {
+    let { x, z } = plan.tile;
+    const [dx, dz] = plan.dir;
+    for (let i = 0; i < MAX_STRAIGHT; i++) {
+        const exits = NEIGHBOURS.filter(([ex, ez]) => !(ex === -dx && ez === -dz) && isRoad(state, x + ex, z + ez));
+        if (exits.length === 1 && exits[0][0] === dx && exits[0][1] === dz) { x += dx; z += dz; continue; }
+
+        if (!exits.length) {
+            // Dead end: swing round in the tile
+            const back: [number, number] = [-dx, -dz];
+            plan.route.push({ pos: lanePoint(state, x, z, plan.dir), turn: true }, { pos: lanePoint(state, x, z, back), turn: true });
+            plan.tile = { x: x - dx, z: z - dz };
+            plan.dir = back;
+            return;
+        }
+        const next = ctx.rng.pick(exits);
+        plan.route.push({ pos: cornerPoint(state, x, z, plan.dir, next), turn: next[0] !== dx || next[1] !== dz });
+        plan.tile = { x: x + next[0], z: z + next[1] };
+        plan.dir = next;
+        return;
+    }
+    plan.route.push({ pos: lanePoint(state, x, z, plan.dir), turn: false });
+    plan.tile = { x, z };
+};
+
+// Picks up from wherever the car is: the cardinal direction nearest its heading, along the road it is on
+const createPlan = (state: GameState, car: Entity, ctx: SimContext): TrafficPlan | null => {
+    const { x, z } = worldToTile(car.pos, state.map);
+    if (!isRoad(state, x, z)) return null;
+    const fx = Math.sin(car.rotation.y), fz = Math.cos(car.rotation.y);
+    const ways = NEIGHBOURS.filter(([dx, dz]) => isRoad(state, x + dx, z + dz))
+        .sort((a, b) => (b[0] * fx + b[1] * fz) - (a[0] * fx + a[1] * fz));
+    const dir = ways[0] ?? [Math.round(fx), Math.round(fz)] as [number, number];
+
+    const plan: TrafficPlan = {
+        route: [{ pos: lanePoint(state, x, z, dir, state.map.tileSize / 2), turn: false }],
+        tile: { x: x + dir[0], z: z + dir[1] },
+        dir,
+        cruise: ctx.rng.range(CRUISE_MIN, CRUISE_MAX),
+        health: car.health,
+        waitTime: 0,
+        nudgeTime: 0,
+        hornTime: 0
+    };
+    extendRoute(state, plan, ctx);
+    return plan;
+};
+
+const isAmbientDriver = (e: Entity) => (e.type === EntityType.CIVILIAN || e.type === EntityType.GANG_MEMBER) && !!e.vehicleId;
+
+// Nearest thing in the lane ahead that the car would hit, including the player on foot
+const obstacleAhead = (state: GameState, car: Entity, ignoreCars: boolean): Entity | undefined => {
+    const fx = Math.sin(car.rotation.y), fz = Math.cos(car.rotation.y);
+    const reach = car.size.z / 2 + LOOKAHEAD + speedXZ(car) * LOOKAHEAD_TIME;
+    const candidates = getSpatialIndex(state).queryRadius(car.pos.x + fx * reach / 2, car.pos.z + fz * reach / 2, reach / 2 + car.size.z);
+    if (!state.player.vehicleId) candidates.push(state.player);
+
+    let nearest: Entity | undefined;
+    let nearestAlong = Infinity;
+    for (const e of candidates) {
+        if (e === car || (e.state === 'dead' && e.type !== EntityType.VEHICLE) || e.type === EntityType.PROJECTILE) continue;
+        if (e.vehicleId && e.type !== EntityType.VEHICLE) continue; // Riding inside something
+        if (ignoreCars && e.type === EntityType.VEHICLE) continue;
+        const rx = e.pos.x - car.pos.x, rz = e.pos.z - car.pos.z;
+        const along = rx * fx + rz * fz;
+        const across = Math.abs(rx * -fz + rz * fx);
+        const radius = Math.max(e.size.x, e.size.z) / 2;
+        if (along <= 0 || along - radius > reach || across > car.size.x / 2 + radius + LANE_CLEARANCE) continue;
+        if (along < nearestAlong) { nearest = e; nearestAlong = along; }
+    }
+    return nearest;
+};
+
+const honk = (state: GameState, car: Entity, plan: TrafficPlan, ctx: SimContext) => {
+    if (plan.hornTime > 0) return;
+    plan.hornTime = HORN_COOLDOWN;
+    if (distXZ(car.pos, state.player.pos) < HORN_RANGE) ctx.emit({ type: 'horn', vehicleId: car.id });
+};
+
+// Shot at (damage or the player's bullets whizzing past) or rammed by the player's car
+const isUnderAttack = (state: GameState, car: Entity, plan: TrafficPlan, gunfire: Entity[]) => {
+    const hurt = car.health < plan.health;
+    plan.health = car.health;
+    if (hurt || gunfire.some(p => distXZ(p.pos, car.pos) < GUNFIRE_RADIUS)) return true;
+
+    const playerCar = state.player.vehicleId ? state.entities.find(e => e.id === state.player.vehicleId) : undefined;
+    if (!playerCar || playerCar === car) return false;
+    const dist = distXZ(playerCar.pos, car.pos);
+    if (dist > RAM_RANGE || dist < 1e-6) return false;
+    const closing = ((playerCar.vel.x - car.vel.x) * (car.pos.x - playerCar.pos.x) + (playerCar.vel.z - car.vel.z) * (car.pos.z - playerCar.pos.z)) / dist;
+    return closing > RAM_SPEED;
+};
+
+const updateCar = (state: GameState, car: Entity, driver: Entity, gunfire: Entity[], ctx: SimContext) => {
+    let plan = plans.get(car);
+    if (!plan) {
+        plan = createPlan(state, car, ctx) ?? undefined;
+        if (!plan) { stopMoving(car); return; } // Knocked off the road; it stays where it is
+        plans.set(car, plan);
+    }
+    driver.pos = { ...car.pos, y: driver.pos.y };
+    plan.hornTime -= ctx.dt;
+    plan.nudgeTime -= ctx.dt;
+
+    if (isUnderAttack(state, car, plan, gunfire)) {
+        if (driver.state !== 'fleeing') honk(state, car, plan, ctx);
+        driver.state = 'fleeing';
+        driver.stateTimer = PANIC_TIME;
+    }
+    const panicking = driver.state === 'fleeing';
+
+    // Drop waypoints reached or driven past, and keep a couple queued
+    const fx = Math.sin(car.rotation.y), fz = Math.cos(car.rotation.y);
+    while (plan.route.length) {
+        const wp = plan.route[0].pos;
+        const dist = distXZ(car.pos, wp);
+        const behind = (wp.x - car.pos.x) * fx + (wp.z - car.pos.z) * fz < 0;
+        if (dist > WAYPOINT_REACHED && !(behind && dist < WAYPOINT_REACHED * 3)) break;
+        plan.route.shift();
+    }
+    while (plan.route.length < 2) extendRoute(state, plan, ctx);
+    const next = plan.route[0];
+
+    let target = panicking ? PANIC_SPEED : plan.cruise;
+    if (next.turn && distXZ(car.pos, next.pos) < SLOW_FOR_TURN) target = Math.min(target, panicking ? TURN_SPEED * 1.5 : TURN_SPEED);
+
+    const obstacle = obstacleAhead(state, car, plan.nudgeTime > 0);
+    if (obstacle) {
+        target = 0;
+        plan.waitTime += ctx.dt;
+        const inTheWay = obstacle.type !== EntityType.VEHICLE || obstacle.id === state.player.vehicleId;
+        if (inTheWay && plan.waitTime > HORN_DELAY) honk(state, car, plan, ctx);
+        if (obstacle.type === EntityType.VEHICLE && plan.waitTime > NUDGE_DELAY) plan.nudgeTime = NUDGE_TIME;
+        if (plan.waitTime > REPLAN_DELAY) plans.delete(car);
+    } else {
+        plan.waitTime = 0;
+    }
+    if (isBeingJacked(state, car)) {
+        target = 0; // Someone is at the door
+        honk(state, car, plan, ctx);
+    }
+
+    // Throttle and brake towards the target speed, steer towards the next waypoint, as the player would
+    const forwardSpeed = car.vel.x * fx + car.vel.z * fz;
+    const steer = Math.max(-1, Math.min(1, wrapAngle(Math.atan2(next.pos.x - car.pos.x, next.pos.z - car.pos.z) - car.rotation.y) * STEER_GAIN));
+    if (target === 0 && forwardSpeed < 0.5) {
+        stopMoving(car);
+        return;
+    }
+    const def = vehicleDefOf(car);
+    const force = forwardSpeed < target
+        ? def.accel * Math.min(1, (target - forwardSpeed) / 2)
+        : -def.brake * Math.min(1, (forwardSpeed - target) / 2);
+    driveCar(state, car, force, steer, ctx);
+};
+
+// A car in the right-hand lane of a road tile in the off-screen ring, with a driver inside
+const spawnCar = (state: GameState, ctx: SimContext) => {
+    const centre = findRoadInRing(state, ctx.rng, SPAWN_MIN, SPAWN_MAX);
+    if (!centre) return;
+    const { x, z } = worldToTile(centre, state.map);
+    const ways = NEIGHBOURS.filter(([dx, dz]) => isRoad(state, x + dx, z + dz));
+    if (!ways.length) return;
+    const dir = ctx.rng.pick(ways);
+    const pos = lanePoint(state, x, z, dir);
+    const def = VEHICLES[ctx.rng.pick(trafficAt(x, z))];
+    if (checkCollision(pos, def.size, getSpatialIndex(state), '')) return;
+
+    const car = spawnEntity(state, ctx, EntityType.VEHICLE, pos, {
+        ...vehicleProps(def.type, ctx.rng.pick(def.colors)),
+        rotation: { x: 0, y: Math.atan2(dir[0], dir[1]), z: 0 }
+    });
+    const faction = ctx.rng.pick(DRIVER_FACTIONS);
+    const driver = faction === 'civilian'
+        ? spawnCivilian(state, ctx, pos, { vehicleId: car.id })
+        : spawnGangMember(state, ctx, faction, pos, { vehicleId: car.id });
+    car.vehicleId = driver.id;
+};
+
+// Ambient traffic: drives the road grid in lanes, keeps a budget of cars around the player
+export const trafficSystem = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const scripted = new Set(state.mission?.actors.map(a => a.id));
+    const gunfire = state.entities.filter(e => e.type === EntityType.PROJECTILE && e.targetEntityId === player.id);
+
+    // Cars with an ambient driver at the wheel; parked, player, police and mission cars are left alone
+    const drivers = new Map(state.entities.filter(isAmbientDriver).map(d => [d.vehicleId!, d]));
+
+    let nearby = 0;
+    let removed = false;
+    for (const car of [...state.entities]) {
+        if (car.type !== EntityType.VEHICLE || car.state === 'dead' || car.faction === 'police') continue;
+        const driver = drivers.get(car.id);
+        if (!driver || car.vehicleId !== driver.id || driver.state === 'dead' || scripted.has(car.id) || scripted.has(driver.id)) continue;
+
+        if (distXZ(car.pos, player.pos) > DESPAWN_RANGE) {
+            removeEntity(state, driver);
+            removeEntity(state, car);
+            removed = true;
+            continue;
+        }
+        nearby++;
+        updateCar(state, car, driver, gunfire, ctx);
+    }
+    if (removed) ctx.emit({ type: 'entitiesChanged' });
+
+    if (nearby < TRAFFIC_BUDGET && player.state !== 'dead' && player.state !== 'busted') spawnCar(state, ctx);
+};
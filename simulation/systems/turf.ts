@@ -0,0 +1,124 @@
+import { Entity, EntityType, Gang, GameState, Territory, TileType, WeaponType } from '../../types';
+import { getTerritoryAt, rivalOf } from '../../utils/turf';
+import { distXZ } from '../ai/steering';
+import { around, findRoad, findTile, isOpenGround, spawnGangMember } from '../missions/locations';
+import { SimContext } from '../types';
+
+const PROVOKE_KILLS = 3;     // Rival gang members downed on their own turf before they come for you
+const PROVOKE_RANGE = 40;    // Only bodies this close to the player count
+const WAVES = 3;
+const WAVE_SIZE = 3;         // Defenders in the first wave; each wave brings one more
+const FIRST_WAVE_DELAY = 3;
+const WAVE_DELAY = 6;
+const SPAWN_MIN = 20;        // Defenders arrive out of punching range but inside the fight give-up distance
+const SPAWN_MAX = 28;
+const LEAVE_GRACE = 10;      // Seconds the player may spend outside the territory before the war is lost
+const ARMED_FROM_WAVE = 3;   // The last wave brings guns
+
+// Kills the player has racked up against the gang holding the territory they're standing in
+interface Provocation { territoryId: string; kills: number; counted: WeakSet<Entity> }
+const provocations = new WeakMap<GameState, Provocation>();
+
+const findTerritory = (state: GameState, id: string) => state.turf.find(t => t.id === id);
+
+const isInside = (t: Territory, x: number, z: number) => x >= t.minX && x < t.maxX && z >= t.minZ && z < t.maxZ;
+
+export const startGangWar = (state: GameState, territory: Territory, ctx: SimContext) => {
+    if (state.gangWar) return;
+    state.gangWar = {
+        territoryId: territory.id,
+        attacker: rivalOf(territory.owner),
+        defender: territory.owner,
+        wave: 0,
+        waves: WAVES,
+        memberIds: [],
+        remaining: 0,
+        timer: FIRST_WAVE_DELAY,
+        outside: 0
+    };
+    ctx.emit({ type: 'gangWarStarted', territoryId: territory.id });
+};
+
+export const endGangWar = (state: GameState, won: boolean, ctx: SimContext) => {
+    const war = state.gangWar;
+    if (!war) return;
+    state.gangWar = null;
+    const territory = findTerritory(state, war.territoryId);
+    if (won && territory) territory.owner = war.attacker;
+    ctx.emit({ type: 'gangWarEnded', territoryId: war.territoryId, won });
+};
+
+// Defenders come in from the streets of their own block, out of sight if the layout allows
+const spawnWave = (state: GameState, territory: Territory, gang: Gang, ctx: SimContext) => {
+    const war = state.gangWar!;
+    const player = state.player;
+    const origin = findTile(state, ctx.rng, {
+        near: player.pos, minDist: SPAWN_MIN, maxDist: SPAWN_MAX,
+        where: (x, z) => isInside(territory, x, z) && state.map.tiles[z][x] !== TileType.WATER && isOpenGround(state, x, z)
+    }) ?? findRoad(state, ctx.rng, { near: player.pos, minDist: SPAWN_MIN, maxDist: SPAWN_MAX });
+
+    war.wave++;
+    const count = WAVE_SIZE + war.wave - 1;
+    const weapon = war.wave >= ARMED_FROM_WAVE ? WeaponType.PISTOL : WeaponType.FIST;
+    war.memberIds = around(origin, count, 2).map(pos =>
+        spawnGangMember(state, ctx, gang, pos, { inventory: [weapon], targetEntityId: player.id }).id);
+    war.remaining = count;
+    ctx.emit({ type: 'gangWarWave', wave: war.wave, waves: war.waves });
+};
+
+const updateWar = (state: GameState, ctx: SimContext) => {
+    const war = state.gangWar!;
+    const player = state.player;
+    const territory = findTerritory(state, war.territoryId);
+    if (!territory) { endGangWar(state, false, ctx); return; }
+
+    war.outside = getTerritoryAt(state.turf, state.map, player.pos)?.id === territory.id ? 0 : war.outside + ctx.dt;
+    if (war.outside > LEAVE_GRACE) { endGangWar(state, false, ctx); return; }
+
+    // Wave members never lose interest, however far the player runs
+    const members = war.memberIds.map(id => state.entities.find(e => e.id === id)).filter((e): e is Entity => !!e && e.state !== 'dead');
+    for (const e of members) e.targetEntityId = player.id;
+    war.remaining = members.length;
+    if (war.remaining > 0) return;
+
+    if (war.wave >= war.waves) { endGangWar(state, true, ctx); return; }
+    war.timer -= ctx.dt;
+    if (war.timer > 0) return;
+    war.timer = WAVE_DELAY;
+    spawnWave(state, territory, war.defender, ctx);
+};
+
+// Killing enough of a gang on its own turf starts a war for it; bodies left by anyone else don't count
+const checkProvocation = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const gang = player.faction;
+    const territory = getTerritoryAt(state.turf, state.map, player.pos);
+    if (!territory || (gang !== 'groves' && gang !== 'ballas') || territory.owner === gang) {
+        provocations.delete(state);
+        return;
+    }
+
+    // Bodies already lying there when the player walked in aren't theirs
+    let provocation = provocations.get(state);
+    const arrived = provocation?.territoryId !== territory.id;
+    if (!provocation || arrived) {
+        provocation = { territoryId: territory.id, kills: 0, counted: new WeakSet() };
+        provocations.set(state, provocation);
+    }
+    for (const e of state.entities) {
+        if (e.type !== EntityType.GANG_MEMBER || e.faction !== territory.owner || e.state !== 'dead' || e.killedBy !== player.id) continue;
+        if (provocation.counted.has(e) || (!arrived && distXZ(e.pos, player.pos) > PROVOKE_RANGE)) continue;
+        provocation.counted.add(e);
+        if (!arrived) provocation.kills++;
+    }
+    if (provocation.kills >= PROVOKE_KILLS && !state.mission) {
+        provocations.delete(state);
+        startGangWar(state, territory, ctx);
+    }
+};
+
+// Who holds which block, and the wars fought over them
+export const turfSystem = (state: GameState, ctx: SimContext) => {
+    if (state.gangWar) updateWar(state, ctx);
+    else checkProvocation(state, ctx);
+};
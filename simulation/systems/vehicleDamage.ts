@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+import { Entity, EntityType, GameState, VehicleClass } from '../../types';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { distXZ } from '../ai/steering';
+import { removeEntity } from '../missions/locations';
+import { SimContext } from '../types';
+import { vehicleDefOf, VEHICLES } from '../vehicleClasses';
+import { applyDamage, killPlayer } from './combat';
+
+export const DENT_AT = 0.7;    // Share of health below which the body shows damage
+export const SMOKE_AT = 0.5;   // ...the engine smokes
+export const FIRE_AT = 0.25;   // ...it catches fire and the fuse starts
+const BURN_MIN = 4;            // Seconds from catching fire to exploding
+const BURN_MAX = 6;
+const BAIL_FLEE_TIME = 6;      // Seconds an NPC who jumped out of a burning car keeps running
+const CRASH_MIN_SPEED = 4;     // m/s into something solid before anything bends
+const CRASH_DAMAGE = 4;        // Health per m/s above that
+const BLAST_RADIUS = 8;
+const BLAST_DAMAGE = 120;      // To characters at the centre, falling off to nothing at the edge
+const BLAST_VEHICLE_DAMAGE = 90; // Enough to set a neighbouring car alight, so wrecks chain
+const BLAST_PUSH = 12;         // m/s shove given to a sedan at the centre; lighter vehicles fly further
+const BLAST_MAX_PUSH = 2;      // ...but no more than twice as far
+const REFERENCE_MASS = VEHICLES[VehicleClass.SEDAN].mass;
+const WRECK_CLEAR_RANGE = 160; // Burnt-out wrecks further than this from the player are towed away
+const UP = new THREE.Vector3(0, 1, 0);
+
+export type VehicleCondition = 'intact' | 'dented' | 'smoking' | 'burning' | 'wrecked';
+
+// What the car looks like, for the renderer
+export const getVehicleCondition = (car: Entity): VehicleCondition => {
+    if (car.state === 'dead') return 'wrecked';
+    if (car.burnTimer !== undefined) return 'burning';
+    const health = car.health / car.maxHealth;
+    return health < SMOKE_AT ? 'smoking' : health < DENT_AT ? 'dented' : 'intact';
+};
+
+// Whoever is at the wheel, player included
+const occupantOf = (state: GameState, car: Entity): Entity | undefined => {
+    if (!car.vehicleId) return undefined;
+    if (car.vehicleId === state.player.id) return state.player;
+    return state.entities.find(e => e.id === car.vehicleId && e.vehicleId === car.id);
+};
+
+// Puts the occupant on the road beside the driver's door
+const eject = (state: GameState, car: Entity, occupant: Entity) => {
+    const door = new THREE.Vector3(-2, 0, 0).applyAxisAngle(UP, car.rotation.y);
+    car.vehicleId = null;
+    occupant.vehicleId = null;
+    occupant.pos = { x: car.pos.x + door.x, y: occupant.pos.y, z: car.pos.z + door.z };
+    occupant.vel = { x: 0, y: 0, z: 0 };
+    if (occupant === state.player) {
+        occupant.state = 'idle';
+    } else {
+        getSpatialIndex(state).update(occupant);
+    }
+};
+
+/**
+ * Damage from driving into something: both sides take it when the other is a car too, split by mass
+ * so a bus barely notices a motorbike. Called by the car handling model with the speed lost against
+ * whatever blocked it.
+ */
+export const crashDamage = (state: GameState, car: Entity, other: Entity | undefined, impactSpeed: number, ctx: SimContext) => {
+    if (impactSpeed < CRASH_MIN_SPEED) return;
+    const damage = (impactSpeed - CRASH_MIN_SPEED) * CRASH_DAMAGE;
+    if (other?.type === EntityType.VEHICLE) {
+        const mass = vehicleDefOf(car).mass, otherMass = vehicleDefOf(other).mass;
+        applyDamage(state, car, damage * 2 * otherMass / (mass + otherMass), 'vehicle', ctx);
+        applyDamage(state, other, damage * 2 * mass / (mass + otherMass), 'vehicle', ctx);
+    } else {
+        applyDamage(state, car, damage, 'vehicle', ctx);
+    }
+    ctx.emit({ type: 'impact', pos: { x: car.pos.x, y: 0.8, z: car.pos.z }, material: 'metal' });
+};
+
+const ignite = (state: GameState, car: Entity, ctx: SimContext) => {
+    car.burnTimer = BURN_MIN + ctx.rng.next() * (BURN_MAX - BURN_MIN);
+    ctx.emit({ type: 'vehicleOnFire', vehicleId: car.id });
+
+    // NPCs bail out and run; the player has to decide for themselves
+    const occupant = occupantOf(state, car);
+    if (occupant && occupant !== state.player) {
+        eject(state, car, occupant);
+        occupant.state = 'fleeing';
+        occupant.stateTimer = BAIL_FLEE_TIME;
+        occupant.fleeFrom = { ...car.pos };
+        occupant.targetPos = undefined;
+        ctx.emit({ type: 'entitiesChanged' });
+    }
+};
+
+const explode = (state: GameState, car: Entity, ctx: SimContext) => {
+    const grid = getSpatialIndex(state);
+    car.state = 'dead';
+    car.health = 0;
+    car.burnTimer = undefined;
+    car.vel = { x: 0, y: 0, z: 0 };
+
+    // Anyone still inside doesn't make it
+    const occupant = occupantOf(state, car);
+    if (occupant) {
+        eject(state, car, occupant);
+        if (occupant === state.player) killPlayer(state, 'explosion', ctx);
+        else applyDamage(state, occupant, occupant.health, 'explosion', ctx);
+    }
+    ctx.emit({ type: 'explosion', pos: { ...car.pos } });
+
+    const falloff = (e: Entity) => Math.max(0, 1 - distXZ(e.pos, car.pos) / BLAST_RADIUS);
+    const caught = grid.queryRadius(car.pos.x, car.pos.z, BLAST_RADIUS);
+    if (!state.player.vehicleId) caught.push(state.player);
+    for (const e of caught) {
+        if (e === car || e.state === 'dead' || (e.vehicleId && e.type !== EntityType.VEHICLE)) continue;
+        const k = falloff(e);
+        if (k <= 0) continue;
+        if (e.type === EntityType.VEHICLE) {
+            // Neighbouring cars are shoved and may go up in turn
+            const dx = e.pos.x - car.pos.x, dz = e.pos.z - car.pos.z;
+            const len = Math.hypot(dx, dz) || 1;
+            const push = BLAST_PUSH * k * Math.min(BLAST_MAX_PUSH, REFERENCE_MASS / vehicleDefOf(e).mass);
+            e.vel.x += dx / len * push;
+            e.vel.z += dz / len * push;
+            applyDamage(state, e, BLAST_VEHICLE_DAMAGE * k, 'explosion', ctx);
+        } else if (e.type !== EntityType.BUILDING && e.type !== EntityType.PROP && e.type !== EntityType.ITEM_WEAPON) {
+            applyDamage(state, e, BLAST_DAMAGE * k, 'explosion', ctx);
+        }
+    }
+    ctx.emit({ type: 'entitiesChanged' });
+};
+
+// Fires, fuses and explosions; wrecks left behind are cleared once out of sight
+export const vehicleDamageSystem = (state: GameState, ctx: SimContext) => {
+    let removed = false;
+    for (const car of [...state.entities]) {
+        if (car.type !== EntityType.VEHICLE) continue;
+
+        if (car.state === 'dead') {
+            if (distXZ(car.pos, state.player.pos) > WRECK_CLEAR_RANGE) {
+                removeEntity(state, car);
+                removed = true;
+            }
+            continue;
+        }
+
+        if (car.burnTimer === undefined) {
+            if (car.health <= car.maxHealth * FIRE_AT) ignite(state, car, ctx);
+            continue;
+        }
+        car.burnTimer -= ctx.dt;
+        if (car.burnTimer <= 0) explode(state, car, ctx);
+    }
+    if (removed) ctx.emit({ type: 'entitiesChanged' });
+};
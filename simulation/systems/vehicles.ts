@@ -0,0 +1,385 @@
+import * as THREE from 'three';
+import { Entity, EntityType, GameState, TileType, Vector3 } from '../../types';
+import { TILE_SIZE, WATER_LEVEL } from '../../constants';
+import { checkCollision, findCollision } from '../../utils/physics';
+import { worldToTile } from '../../utils/pathfinding';
+import { getSpatialIndex } from '../../utils/spatialGrid';
+import { SimContext } from '../types';
+import { vehicleDefOf } from '../vehicleClasses';
+import { raiseWanted } from './combat';
+import { reactToCarjack } from './pedestrians';
+import { crashDamage } from './vehicleDamage';
+
+const ENTER_RANGE = 5;
+const CARJACK_TIME = 1.2;  // Seconds of struggle at the door before the driver comes out
+const CARJACK_BREAK = 2;   // The car pulling this far away from the door ends the struggle
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Tyres
+const LATERAL_GRIP = 25;      // m/s² of sideways slip a sedan's tyres cancel on tarmac: enough for a full-lock turn at 10 m/s
+const FULL_LOCK_SPEED = 3;    // Below this the car turns more slowly, so it can't spin on the spot
+const REVERSE_POWER = 0.5;    // Share of the brakes' force that drives the car backwards once stopped
+const HANDBRAKE_GRIP = 0.25;  // Rear wheels lock: most sideways grip goes...
+const HANDBRAKE_STEER = 1.5;  // ...and the tail swings round faster
+const HANDBRAKE_DECEL = 6;    // m/s²
+export const SKID_SLIP = 2;   // Sideways m/s at which tyres squeal and mark the road
+
+// Boats
+const KEEL = 3;               // Share of sideways drift the hull bleeds off per second, times the class's grip
+const DRAFT = 0.4;            // Metres of hull under the waterline at rest...
+const PLANING_LIFT = 0.3;     // ...and how far it rises out at full speed
+const BUOYANCY = 12;          // Spring towards the waterline, per metre out of it
+const BUOYANCY_DAMPING = 4;
+const SUNK_DEPTH = 3;         // Wrecks settle this far under the surface
+const ASHORE_REACH = 8;       // How far from the hull the player can step off onto dry land
+
+// Grip multiplies the class's tyre grip; drag is rolling resistance on top of the class's own
+const SURFACES: Record<TileType, { grip: number; drag: number }> = {
+    [TileType.ROAD]: { grip: 1, drag: 0 },
+    [TileType.SIDEWALK]: { grip: 0.95, drag: 0 },
+    [TileType.FLOOR]: { grip: 0.9, drag: 0 },
+    [TileType.GRASS]: { grip: 0.6, drag: 0.3 },
+    [TileType.MOUNTAIN]: { grip: 0.7, drag: 0.3 },
+    [TileType.SAND]: { grip: 0.45, drag: 0.8 },
+    [TileType.WATER]: { grip: 0.3, drag: 3 }
+};
+
+// NPC behind the wheel of a car the player isn't in
+const occupantOf = (state: GameState, car: Entity) =>
+    car.vehicleId && car.vehicleId !== state.player.id
+        ? state.entities.find(e => e.id === car.vehicleId && e.vehicleId === car.id)
+        : undefined;
+
+// The player is heading for (or wrestling with) this car's door, so its driver should stay put
+export const isBeingJacked = (state: GameState, car: Entity) => {
+    const player = state.player;
+    return player.targetEntityId === car.id && (player.state === 'entering_vehicle' || player.state === 'carjacking');
+};
+
+const doorPos = (car: Entity, offset: THREE.Vector3): Vector3 => {
+    const o = offset.clone().applyAxisAngle(UP, car.rotation.y);
+    return { x: car.pos.x + o.x, y: car.pos.y, z: car.pos.z + o.z };
+};
+
+// F: start walking to the nearest car door, or climb out of the current car
+const interact = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+
+    if (player.vehicleId) {
+        const car = state.entities.find(ent => ent.id === player.vehicleId);
+        if (!car) return;
+
+        player.vehicleId = null;
+        car.vehicleId = null;
+        if (vehicleDefOf(car).water) {
+            stepAshore(state, car, ctx);
+            return;
+        }
+        player.state = 'exiting_vehicle';
+
+        const doorOffset = new THREE.Vector3(-1.2, 0, 0).applyAxisAngle(UP, car.rotation.y);
+        player.pos = { x: car.pos.x + doorOffset.x, y: car.pos.y, z: car.pos.z + doorOffset.z };
+
+        const awayOffset = new THREE.Vector3(-3.0, 0, 0).applyAxisAngle(UP, car.rotation.y);
+        player.targetPos = { x: car.pos.x + awayOffset.x, y: car.pos.y, z: car.pos.z + awayOffset.z };
+        ctx.emit({ type: 'vehicleExited', vehicleId: car.id });
+    } else {
+        const car = getSpatialIndex(state).queryRadius(player.pos.x, player.pos.z, ENTER_RANGE)
+            .find(ent => ent.type === EntityType.VEHICLE && ent.state !== 'dead');
+        if (car && vehicleDefOf(car).water) {
+            // Boats are boarded from wherever the player stands, there's no door to walk round to
+            if (!car.vehicleId) enterCar(state, car, ctx);
+        } else if (car) {
+            player.state = 'entering_vehicle';
+            player.targetEntityId = car.id;
+        }
+    }
+};
+
+// Off the boat onto the nearest dry tile in reach, or over the side if there isn't one
+const stepAshore = (state: GameState, boat: Entity, ctx: SimContext) => {
+    const player = state.player;
+    const { x, z } = worldToTile(boat.pos, state.map);
+    let landing: Vector3 | null = null;
+    let best = Infinity;
+    for (let dz = -1; dz <= 1; dz++) {
+        for (let dx = -1; dx <= 1; dx++) {
+            const tile = state.map.tiles[z + dz]?.[x + dx];
+            if (tile === undefined || tile === TileType.WATER) continue;
+            // Nearest point of that tile to the boat
+            const tx = Math.max((x + dx - 0.5) * TILE_SIZE, Math.min((x + dx + 0.5) * TILE_SIZE, boat.pos.x));
+            const tz = Math.max((z + dz - 0.5) * TILE_SIZE, Math.min((z + dz + 0.5) * TILE_SIZE, boat.pos.z));
+            const d = Math.hypot(tx - boat.pos.x, tz - boat.pos.z);
+            if (d > ASHORE_REACH || d >= best) continue;
+            // A step in from the edge, so the player isn't left teetering over the water
+            const inX = tx + Math.sign((x + dx) * TILE_SIZE - tx) * 1;
+            const inZ = tz + Math.sign((z + dz) * TILE_SIZE - tz) * 1;
+            best = d;
+            landing = { x: inX, y: state.map.elevations[z + dz][x + dx], z: inZ };
+        }
+    }
+    const side = new THREE.Vector3(-2, 0, 0).applyAxisAngle(UP, boat.rotation.y);
+    player.pos = landing ?? { x: boat.pos.x + side.x, y: WATER_LEVEL, z: boat.pos.z + side.z };
+    player.state = 'idle';
+    player.vel = { x: 0, y: 0, z: 0 };
+    ctx.emit({ type: 'vehicleExited', vehicleId: boat.id });
+};
+
+const walkToDoor = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const car = state.entities.find(e => e.id === player.targetEntityId);
+    if (!car) { player.state = 'idle'; return; }
+
+    const offset = new THREE.Vector3(-1.5, 0, 0).applyAxisAngle(UP, car.rotation.y);
+    const dx = car.pos.x + offset.x - player.pos.x;
+    const dz = car.pos.z + offset.z - player.pos.z;
+    const dist = Math.sqrt(dx*dx + dz*dz);
+
+    if (dist < 0.5) {
+        if (occupantOf(state, car)) {
+            player.state = 'carjacking';
+            player.stateTimer = CARJACK_TIME;
+            player.vel = { x: 0, y: 0, z: 0 };
+        } else {
+            enterCar(state, car, ctx);
+        }
+    } else {
+        const speed = 6 * ctx.dt;
+        player.pos.x += (dx/dist) * speed;
+        player.pos.z += (dz/dist) * speed;
+        player.rotation.y = Math.atan2(dx, dz);
+        player.vel = { x: (dx/dist)*5, y: 0, z: (dz/dist)*5 };
+    }
+};
+
+const enterCar = (state: GameState, car: Entity, ctx: SimContext) => {
+    const player = state.player;
+    player.vehicleId = car.id;
+    car.vehicleId = player.id;
+    player.state = 'driving';
+    player.targetEntityId = undefined;
+    player.vel = { x: 0, y: 0, z: 0 };
+    player.pos = { ...car.pos };
+    ctx.emit({ type: 'vehicleEntered', vehicleId: car.id });
+
+    // Taking a cruiser is a crime the police see for themselves
+    if (car.faction === 'police') raiseWanted(state, state.wantedLevel + 1, ctx);
+};
+
+// Drags the driver out onto the road beside the door, on whichever side is clear
+const pullOut = (state: GameState, car: Entity, driver: Entity, ctx: SimContext) => {
+    const grid = getSpatialIndex(state);
+    driver.vehicleId = null;
+    const spots = [doorPos(car, new THREE.Vector3(-3, 0, -1.5)), doorPos(car, new THREE.Vector3(3, 0, 0))];
+    const spot = spots.find(p => !checkCollision(p, driver.size, grid, driver.id)) ?? spots[0];
+    driver.pos = { x: spot.x, y: driver.pos.y, z: spot.z };
+    driver.vel = { x: 0, y: 0, z: 0 };
+    driver.rotation.y = car.rotation.y;
+    grid.update(driver);
+
+    reactToCarjack(state, driver, ctx);
+    ctx.emit({ type: 'carjacked', vehicleId: car.id, driverId: driver.id });
+    ctx.emit({ type: 'entitiesChanged' });
+};
+
+// Struggle at the door; the timed-state system counts it down, then the driver comes out
+const struggle = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const car = state.entities.find(e => e.id === player.targetEntityId);
+    const door = car && doorPos(car, new THREE.Vector3(-1.5, 0, 0));
+    if (!car || !door || car.state === 'dead' || Math.hypot(door.x - player.pos.x, door.z - player.pos.z) > CARJACK_BREAK) {
+        player.state = 'idle';
+        player.stateTimer = undefined;
+        player.targetEntityId = undefined;
+        return;
+    }
+    player.rotation.y = Math.atan2(car.pos.x - player.pos.x, car.pos.z - player.pos.z);
+    if (player.stateTimer !== undefined) return;
+
+    const driver = occupantOf(state, car);
+    if (driver) pullOut(state, car, driver, ctx);
+    enterCar(state, car, ctx);
+};
+
+const walkAwayFromDoor = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const target = player.targetPos!;
+    const dx = target.x - player.pos.x;
+    const dz = target.z - player.pos.z;
+    const dist = Math.sqrt(dx*dx + dz*dz);
+
+    if (dist < 0.2) {
+        player.state = 'idle';
+        player.targetPos = undefined;
+        player.vel = { x: 0, y: 0, z: 0 };
+    } else {
+        const speed = 4 * ctx.dt;
+        player.pos.x += (dx/dist) * speed;
+        player.pos.z += (dz/dist) * speed;
+        player.rotation.y = Math.atan2(dx, dz);
+        player.vel = { x: (dx/dist)*4, y: 0, z: (dz/dist)*4 };
+    }
+};
+
+// Sideways speed across the car's heading; tyres squeal and leave marks above SKID_SLIP
+export const lateralSlip = (car: Entity) => car.vel.x * Math.cos(car.rotation.y) - car.vel.z * Math.sin(car.rotation.y);
+
+const isWater = (state: GameState, tileX: number, tileZ: number) => state.map.tiles[tileZ]?.[tileX] === TileType.WATER;
+
+const surfaceUnder = (state: GameState, car: Entity) => {
+    const { x, z } = worldToTile(car.pos, state.map);
+    return SURFACES[state.map.tiles[z]?.[x] ?? TileType.GRASS];
+};
+
+/**
+ * The car handling model shared by the player and AI drivers: `force` (m/s²) pushes along the
+ * heading, negative to brake and then reverse; `steer` in [-1, 1] turns left when positive.
+ * Speed along the heading and sideways slip are handled apart: the tyres cancel slip up to their
+ * grip on the surface underneath, so a hard turn on grass (or with the handbrake on) slides.
+ * Running into something solid fast enough damages the car (and the other car, if it was one).
+ * Returns whatever the car ran into this step, if anything.
+ */
+export const driveCar = (state: GameState, car: Entity, force: number, steer: number, ctx: SimContext, handbrake = false) => {
+    const { dt } = ctx;
+    const def = vehicleDefOf(car);
+    const surface = surfaceUnder(state, car);
+    const forward = new THREE.Vector3(Math.sin(car.rotation.y), 0, Math.cos(car.rotation.y));
+    const side = new THREE.Vector3(Math.cos(car.rotation.y), 0, -Math.sin(car.rotation.y));
+    let along = car.vel.x * forward.x + car.vel.z * forward.z;
+    let slip = car.vel.x * side.x + car.vel.z * side.z;
+
+    // Throttle and brakes, with wheelspin on loose ground; braking through zero engages reverse
+    const power = force < 0 && along <= 0 ? REVERSE_POWER : 1;
+    along += force * power * Math.min(1, surface.grip) * dt;
+    if (handbrake) along -= Math.sign(along) * Math.min(Math.abs(along), HANDBRAKE_DECEL * dt);
+    along -= along * (def.drag + surface.drag) * dt;
+    along = Math.max(-def.maxSpeed, Math.min(def.maxSpeed, along));
+
+    // Sideways grip
+    const grip = LATERAL_GRIP * def.grip * surface.grip * (handbrake ? HANDBRAKE_GRIP : 1) * dt;
+    slip -= Math.max(-grip, Math.min(grip, slip));
+
+    car.vel.x = forward.x * along + side.x * slip;
+    car.vel.z = forward.z * along + side.z * slip;
+
+    // Steering follows the direction of travel, so reversing turns the way the wheels point
+    const turn = steer * def.steer * Math.min(1, Math.abs(along) / FULL_LOCK_SPEED) * Math.sign(along);
+    car.rotation.y += turn * (handbrake ? HANDBRAKE_STEER : 1) * dt;
+
+    const grid = getSpatialIndex(state);
+    const nextX = car.pos.x + car.vel.x * dt;
+    const nextZ = car.pos.z + car.vel.z * dt;
+    let impact = 0;
+    const hitX = findCollision({ x: nextX, y: 0, z: car.pos.z }, car.size, grid, car.id);
+    if (!hitX) car.pos.x = nextX; else { impact = Math.abs(car.vel.x); car.vel.x *= -0.5; }
+    const hitZ = findCollision({ x: car.pos.x, y: 0, z: nextZ }, car.size, grid, car.id);
+    if (!hitZ) car.pos.z = nextZ; else { impact = Math.max(impact, Math.abs(car.vel.z)); car.vel.z *= -0.5; }
+    grid.update(car);
+    if (impact > 0) crashDamage(state, car, hitZ ?? hitX, impact, ctx);
+    return hitZ ?? hitX;
+};
+
+// Whole hull over open water: centre, bow and stern
+const afloat = (state: GameState, boat: Entity, x: number, z: number) => {
+    const fx = Math.sin(boat.rotation.y) * boat.size.z / 2, fz = Math.cos(boat.rotation.y) * boat.size.z / 2;
+    return [[x, z], [x + fx, z + fz], [x - fx, z - fz]].every(([px, pz]) => {
+        const tile = worldToTile({ x: px, y: 0, z: pz }, state.map);
+        return isWater(state, tile.x, tile.z);
+    });
+};
+
+// Per-axis like the cars, with the shoreline as solid as any wall
+const moveBoat = (state: GameState, boat: Entity, ctx: SimContext) => {
+    const { dt } = ctx;
+    const grid = getSpatialIndex(state);
+    const nextX = boat.pos.x + boat.vel.x * dt;
+    const nextZ = boat.pos.z + boat.vel.z * dt;
+    let impact = 0;
+    const hitX = findCollision({ x: nextX, y: 0, z: boat.pos.z }, boat.size, grid, boat.id);
+    if (!hitX && afloat(state, boat, nextX, boat.pos.z)) boat.pos.x = nextX; else { impact = Math.abs(boat.vel.x); boat.vel.x *= -0.3; }
+    const hitZ = findCollision({ x: boat.pos.x, y: 0, z: nextZ }, boat.size, grid, boat.id);
+    if (!hitZ && afloat(state, boat, boat.pos.x, nextZ)) boat.pos.z = nextZ; else { impact = Math.max(impact, Math.abs(boat.vel.z)); boat.vel.z *= -0.3; }
+    grid.update(boat);
+    if (impact > 0) crashDamage(state, boat, hitZ ?? hitX, impact, ctx);
+};
+
+/**
+ * Boat handling: thrust along the heading against the water's drag, a keel that bleeds off
+ * sideways drift more slowly than tyres so boats carve wide turns, and a rudder that needs
+ * water flowing past it. Land stops the hull like a wall.
+ */
+export const driveBoat = (state: GameState, boat: Entity, force: number, steer: number, ctx: SimContext) => {
+    const { dt } = ctx;
+    const def = vehicleDefOf(boat);
+    const forward = new THREE.Vector3(Math.sin(boat.rotation.y), 0, Math.cos(boat.rotation.y));
+    const side = new THREE.Vector3(Math.cos(boat.rotation.y), 0, -Math.sin(boat.rotation.y));
+    let along = boat.vel.x * forward.x + boat.vel.z * forward.z;
+    let slip = boat.vel.x * side.x + boat.vel.z * side.z;
+
+    along += force * (force < 0 && along <= 0 ? REVERSE_POWER : 1) * dt;
+    along -= along * def.drag * dt;
+    along = Math.max(-def.maxSpeed, Math.min(def.maxSpeed, along));
+    slip -= slip * Math.min(1, KEEL * def.grip * dt);
+
+    boat.vel.x = forward.x * along + side.x * slip;
+    boat.vel.z = forward.z * along + side.z * slip;
+    boat.rotation.y += steer * def.steer * Math.min(1, Math.abs(along) / FULL_LOCK_SPEED) * Math.sign(along) * dt;
+    moveBoat(state, boat, ctx);
+};
+
+// Every boat rides at its waterline, lifting as it planes and settling to the bottom once wrecked;
+// those nobody is steering drift to a stop
+const floatBoats = (state: GameState, ctx: SimContext) => {
+    const { dt } = ctx;
+    for (const boat of state.entities) {
+        if (boat.type !== EntityType.VEHICLE) continue;
+        const def = vehicleDefOf(boat);
+        if (!def.water) continue;
+
+        const speed = Math.hypot(boat.vel.x, boat.vel.z);
+        if (boat.id !== state.player.vehicleId && speed > 0.05) {
+            const d = Math.exp(-def.drag * dt);
+            boat.vel.x *= d;
+            boat.vel.z *= d;
+            moveBoat(state, boat, ctx);
+        }
+        const waterline = boat.state === 'dead'
+            ? WATER_LEVEL - SUNK_DEPTH
+            : WATER_LEVEL - DRAFT + PLANING_LIFT * Math.min(1, speed / def.maxSpeed);
+        boat.vel.y += ((waterline - boat.pos.y) * BUOYANCY - boat.vel.y * BUOYANCY_DAMPING) * dt;
+        boat.pos.y += boat.vel.y * dt;
+    }
+};
+
+const drive = (state: GameState, ctx: SimContext) => {
+    const { input, dt } = ctx;
+    const player = state.player;
+    const car = state.entities.find(e => e.id === player.vehicleId);
+    if (!car) return;
+
+    const def = vehicleDefOf(car);
+    let force = 0;
+    if (input.forward) force += def.accel;
+    if (input.backward) force -= def.brake;
+    const steer = input.left ? 1 : input.right ? -1 : 0;
+    if (def.water) driveBoat(state, car, force, steer, ctx);
+    else driveCar(state, car, force, steer, ctx, input.handbrake);
+
+    player.pos = { ...car.pos };
+    player.rotation.y = car.rotation.y;
+};
+
+export const vehicleSystem = (state: GameState, ctx: SimContext) => {
+    const player = state.player;
+    const busy = player.state === 'entering_vehicle' || player.state === 'exiting_vehicle' || player.state === 'carjacking'
+        || player.state === 'climbing' || player.state === 'stumbling';
+
+    if (ctx.input.interact && !busy) interact(state, ctx);
+    if (ctx.input.horn && player.vehicleId) ctx.emit({ type: 'horn', vehicleId: player.vehicleId });
+
+    if (player.state === 'entering_vehicle' && player.targetEntityId) walkToDoor(state, ctx);
+    else if (player.state === 'exiting_vehicle' && player.targetPos) walkAwayFromDoor(state, ctx);
+    else if (player.state === 'carjacking') struggle(state, ctx);
+    else if (player.vehicleId) drive(state, ctx);
+    floatBoats(state, ctx);
+};
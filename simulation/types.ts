@@ -0,0 +1,93 @@
+import { Vector3 } from '../types';
+import { Rng } from '../utils/random';
+
+// Player intent for a single step. Continuous keys are held state; actions are one-shot.
+export interface SimInput {
+    forward: boolean;
+    backward: boolean;
+    left: boolean;
+    right: boolean;
+    jump: boolean;
+    sprint: boolean;
+    walk: boolean;
+    handbrake: boolean; // Space while driving; the same key jumps on foot and dives while swimming
+    cameraYaw: number; // On-foot movement is relative to the camera
+    attack: boolean;   // Click / fire pressed since the last step
+    fire: boolean;     // Trigger held (automatic weapons keep firing)
+    reload: boolean;   // R pressed since the last step
+    switchWeapon: number; // Scroll notches since the last step: negative for the previous weapon, positive for the next
+    selectWeapon: string | null; // Weapon picked on the wheel or with a number key since the last step
+    interact: boolean; // F pressed since the last step (enter/exit vehicle)
+    horn: boolean;     // H pressed since the last step
+    startMission: string | null; // Mission accepted on the phone since the last step
+}
+
+export const EMPTY_INPUT: SimInput = {
+    forward: false,
+    backward: false,
+    left: false,
+    right: false,
+    jump: false,
+    sprint: false,
+    walk: false,
+    handbrake: false,
+    cameraYaw: Math.PI,
+    attack: false,
+    fire: false,
+    reload: false,
+    switchWeapon: 0,
+    selectWeapon: null,
+    interact: false,
+    horn: false,
+    startMission: null
+};
+
+export type DamageCause = 'bullet' | 'melee' | 'drowning' | 'bounds' | 'vehicle' | 'explosion' | 'fall';
+
+// Surface a bullet struck, which picks the impact effect and sound
+export type ImpactMaterial = 'concrete' | 'metal' | 'wood' | 'flesh' | 'rock';
+
+// Everything the renderer (audio, HUD, React tree) needs to react to
+export type SimEvent =
+    | { type: 'shot'; shooterId: string; weapon: string }
+    | { type: 'reloadStarted'; entityId: string; weapon: string }
+    | { type: 'reloaded'; entityId: string; weapon: string }
+    | { type: 'dryFire'; entityId: string }
+    | { type: 'impact'; pos: Vector3; material: ImpactMaterial }
+    | { type: 'vehicleOnFire'; vehicleId: string }
+    | { type: 'explosion'; pos: Vector3 }
+    | { type: 'splash'; pos: Vector3; kind: 'enter' | 'dive' | 'surface' }
+    | { type: 'landed'; height: number; hurt: boolean } // The player touching down after a jump or fall
+    | { type: 'weaponSwitched'; weapon: string }
+    | { type: 'punch'; attackerId: string; targetId: string | null; damage: number; combo: number }
+    | { type: 'damaged'; targetId: string; amount: number; cause: DamageCause }
+    | { type: 'killed'; targetId: string; cause: DamageCause; attackerId?: string }
+    | { type: 'pickup'; entityId: string; item: string }
+    | { type: 'vehicleEntered'; vehicleId: string }
+    | { type: 'vehicleExited'; vehicleId: string }
+    | { type: 'carjacked'; vehicleId: string; driverId: string }
+    | { type: 'horn'; vehicleId: string }
+    | { type: 'wantedChanged'; level: number }
+    | { type: 'moneyChanged'; money: number }
+    | { type: 'playerDied'; cause: DamageCause }
+    | { type: 'playerBusted' }
+    | { type: 'playerRespawned' }
+    | { type: 'searchChanged'; searching: boolean }
+    | { type: 'waypointReached' }
+    | { type: 'missionStarted'; title: string }
+    | { type: 'missionObjective'; text: string }
+    | { type: 'checkpoint' }
+    | { type: 'missionPassed'; title: string; reward: number }
+    | { type: 'missionFailed'; title: string; reason: string }
+    | { type: 'gangWarStarted'; territoryId: string }
+    | { type: 'gangWarWave'; wave: number; waves: number }
+    | { type: 'gangWarEnded'; territoryId: string; won: boolean }
+    | { type: 'entitiesChanged' };
+
+// Per-step context handed to every system
+export interface SimContext {
+    input: SimInput;
+    dt: number;
+    rng: Rng;
+    emit: (event: SimEvent) => void;
+}
@@ -0,0 +1,84 @@
+import { Entity, Vector3, VehicleClass } from '../types';
+import { getDistrictAtTile } from '../utils/districts';
+
+export type VehicleModel = 'sedan' | 'sports' | 'pickup' | 'boxTruck' | 'bus' | 'motorbike' | 'speedboat';
+
+export interface VehicleDef {
+    type: VehicleClass;
+    model: VehicleModel;     // Which procedural mesh the renderer builds
+    size: Vector3;           // Width, height, length in metres
+    mass: number;            // kg: decides who comes off worse in crashes and blasts
+    health: number;
+    accel: number;           // m/s² at full throttle
+    brake: number;           // m/s² braking, and reversing
+    maxSpeed: number;        // m/s
+    drag: number;            // Per second; with accel this sets the cruising speed
+    grip: number;            // Tyre grip relative to a sedan
+    steer: number;           // Radians per second at full lock
+    seats: number;           // Including the driver's: escorts only climb in while one is free
+    colors: string[];        // Paint jobs picked from at spawn
+    lightBar?: boolean;
+    water?: boolean;         // Boats: float on water tiles and can't leave them
+}
+
+const STREET_COLORS = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#000000', '#ffffff', '#7c3aed'];
+
+// The single source of vehicle behaviour; handling, crashes, spawning and the renderer all read from here
+export const VEHICLES: Record<VehicleClass, VehicleDef> = {
+    [VehicleClass.SEDAN]: {
+        type: VehicleClass.SEDAN, model: 'sedan', size: { x: 2.2, y: 1.4, z: 4.8 }, mass: 1400, health: 100,
+        accel: 20, brake: 15, maxSpeed: 35, drag: 2, grip: 1, steer: 2.5, seats: 4, colors: STREET_COLORS
+    },
+    [VehicleClass.SPORTS]: {
+        type: VehicleClass.SPORTS, model: 'sports', size: { x: 2.1, y: 1.1, z: 4.5 }, mass: 1300, health: 80,
+        accel: 30, brake: 20, maxSpeed: 45, drag: 1.8, grip: 1.25, steer: 2.8, seats: 2,
+        colors: ['#dc2626', '#facc15', '#f97316', '#0ea5e9', '#111827']
+    },
+    [VehicleClass.PICKUP]: {
+        type: VehicleClass.PICKUP, model: 'pickup', size: { x: 2.3, y: 1.8, z: 5.2 }, mass: 2000, health: 120,
+        accel: 18, brake: 14, maxSpeed: 32, drag: 2, grip: 0.9, steer: 2.2, seats: 2,
+        colors: ['#78350f', '#365314', '#1e3a8a', '#9ca3af', '#7f1d1d']
+    },
+    [VehicleClass.BOX_TRUCK]: {
+        type: VehicleClass.BOX_TRUCK, model: 'boxTruck', size: { x: 2.5, y: 3.2, z: 7 }, mass: 6000, health: 180,
+        accel: 12, brake: 10, maxSpeed: 25, drag: 1.5, grip: 0.8, steer: 1.7, seats: 2,
+        colors: ['#e5e7eb', '#1d4ed8', '#b91c1c', '#15803d']
+    },
+    [VehicleClass.BUS]: {
+        type: VehicleClass.BUS, model: 'bus', size: { x: 2.6, y: 3.2, z: 9 }, mass: 11000, health: 250,
+        accel: 10, brake: 9, maxSpeed: 22, drag: 1.3, grip: 0.8, steer: 1.4, seats: 8,
+        colors: ['#f59e0b', '#2563eb']
+    },
+    [VehicleClass.MOTORBIKE]: {
+        type: VehicleClass.MOTORBIKE, model: 'motorbike', size: { x: 0.8, y: 1.4, z: 2.2 }, mass: 220, health: 60,
+        accel: 30, brake: 22, maxSpeed: 40, drag: 1.9, grip: 1.1, steer: 3.2, seats: 2,
+        colors: ['#111827', '#dc2626', '#1d4ed8', '#f8fafc']
+    },
+    [VehicleClass.POLICE]: {
+        type: VehicleClass.POLICE, model: 'sedan', size: { x: 2.2, y: 1.4, z: 4.8 }, mass: 1600, health: 140,
+        accel: 24, brake: 18, maxSpeed: 40, drag: 2, grip: 1.1, steer: 2.6, seats: 4,
+        colors: ['#f8fafc'], lightBar: true
+    },
+    [VehicleClass.BOAT]: {
+        type: VehicleClass.BOAT, model: 'speedboat', size: { x: 2.4, y: 1.4, z: 6 }, mass: 1200, health: 100,
+        accel: 14, brake: 8, maxSpeed: 30, drag: 0.9, grip: 0.5, steer: 1.6, seats: 4,
+        colors: ['#f8fafc', '#dc2626', '#0ea5e9', '#facc15'], water: true
+    }
+};
+
+// Street traffic where a district doesn't say otherwise, weighted by repetition
+export const DEFAULT_TRAFFIC: VehicleClass[] = [VehicleClass.SEDAN, VehicleClass.SEDAN, VehicleClass.SEDAN, VehicleClass.PICKUP, VehicleClass.MOTORBIKE];
+
+// What gets driven (and parked) around a tile
+export const trafficAt = (tileX: number, tileZ: number): VehicleClass[] => getDistrictAtTile(tileX, tileZ)?.traffic ?? DEFAULT_TRAFFIC;
+
+export const getVehicleDef = (type: string | undefined): VehicleDef => VEHICLES[type as VehicleClass] ?? VEHICLES[VehicleClass.SEDAN];
+
+// The catalogue entry for a vehicle entity
+export const vehicleDefOf = (car: Entity): VehicleDef => getVehicleDef(car.vehicleClass);
+
+// Entity fields every new vehicle of this class starts with
+export const vehicleProps = (type: VehicleClass, color: string): Partial<Entity> => {
+    const def = VEHICLES[type];
+    return { vehicleClass: type, size: { ...def.size }, health: def.health, maxHealth: def.health, color };
+};
@@ -0,0 +1,81 @@
+import { Entity, WeaponType } from '../types';
+
+export type WeaponSound = 'punch' | 'pistol' | 'smg' | 'shotgun';
+
+export interface WeaponDef {
+    type: WeaponType;
+    slot: number;            // Position on the weapon wheel, and in the inventory
+    melee: boolean;
+    damage: number;          // Per punch (before combo) or per bullet
+    fireRate: number;        // Seconds between shots or punches
+    spread: number;          // Radians either side of the aim a round may stray
+    magazine: number;        // Rounds per reload; 0 for melee
+    reloadTime: number;      // Seconds
+    range: number;           // Metres: reach of a punch, or how far a round carries
+    auto: boolean;           // Keeps firing while the trigger is held
+    projectileSpeed: number; // m/s
+    pellets: number;         // Rounds per shot
+    sound: WeaponSound;
+    pickupAmmo: number;      // Rounds that come with a pickup
+}
+
+// The single source of weapon behaviour; combat, pickups, the HUD and the character model all read from here
+export const WEAPONS: Record<WeaponType, WeaponDef> = {
+    [WeaponType.FIST]: {
+        type: WeaponType.FIST, slot: 0, melee: true,
+        damage: 8, fireRate: 0.4, spread: 0, magazine: 0, reloadTime: 0, range: 2.5,
+        auto: false, projectileSpeed: 0, pellets: 0, sound: 'punch', pickupAmmo: 0
+    },
+    [WeaponType.PISTOL]: {
+        type: WeaponType.PISTOL, slot: 1, melee: false,
+        damage: 25, fireRate: 0.3, spread: 0.03, magazine: 12, reloadTime: 1.2, range: 60,
+        auto: false, projectileSpeed: 40, pellets: 1, sound: 'pistol', pickupAmmo: 36
+    },
+    [WeaponType.UZI]: {
+        type: WeaponType.UZI, slot: 2, melee: false,
+        damage: 12, fireRate: 0.08, spread: 0.09, magazine: 30, reloadTime: 1.6, range: 45,
+        auto: true, projectileSpeed: 45, pellets: 1, sound: 'smg', pickupAmmo: 90
+    },
+    [WeaponType.SHOTGUN]: {
+        type: WeaponType.SHOTGUN, slot: 3, melee: false,
+        damage: 10, fireRate: 0.9, spread: 0.18, magazine: 6, reloadTime: 2.4, range: 25,
+        auto: false, projectileSpeed: 35, pellets: 6, sound: 'shotgun', pickupAmmo: 18
+    }
+};
+
+export const getWeaponDef = (type: string | undefined): WeaponDef => WEAPONS[type as WeaponType] ?? WEAPONS[WeaponType.FIST];
+
+// What the entity has in hand
+export const getEquipped = (e: Entity): WeaponDef => getWeaponDef(e.inventory?.[e.weaponSlot ?? 0]);
+
+/**
+ * Adds a weapon (or just its rounds, if already carried) and keeps the inventory in wheel order.
+ * Returns true when the weapon is new to the entity.
+ */
+export const giveWeapon = (e: Entity, type: WeaponType, rounds: number): boolean => {
+    const held = getEquipped(e).type;
+    const inventory = e.inventory ?? [WeaponType.FIST];
+    const isNew = !inventory.includes(type);
+    if (isNew) inventory.push(type);
+    inventory.sort((a, b) => getWeaponDef(a).slot - getWeaponDef(b).slot);
+    e.inventory = inventory;
+    e.weaponSlot = inventory.indexOf(held);
+
+    const def = WEAPONS[type];
+    if (e.ammo && !def.melee) {
+        const ammo = e.ammo[type] ?? { clip: 0, reserve: 0 };
+        ammo.reserve += rounds;
+        if (isNew) {
+            // A fresh gun comes loaded
+            const load = Math.min(def.magazine, ammo.reserve);
+            ammo.clip += load;
+            ammo.reserve -= load;
+        }
+        e.ammo[type] = ammo;
+    }
+    return isNew;
+};
+
+// Melee never needs ammo and entities without an ammo record never run dry
+export const roundsLeft = (e: Entity, def: WeaponDef): number =>
+    def.melee || !e.ammo ? Infinity : (e.ammo[def.type]?.clip ?? 0) + (e.ammo[def.type]?.reserve ?? 0);
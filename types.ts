@@ -38,16 +38,42 @@ export interface Entity {
   maxHealth: number;
   color: string;
   size: Vector3; // Width, Height, Depth
-  state: 'idle' | 'walking' | 'driving' | 'dead' | 'entering_vehicle' | 'exiting_vehicle' | 'punching';
+  state: 'idle' | 'walking' | 'driving' | 'dead' | 'busted' | 'entering_vehicle' | 'exiting_vehicle' | 'punching' | 'fleeing' | 'cowering' | 'carjacking' | 'swimming' | 'climbing' | 'stumbling';
   vehicleId?: string | null; // ID of vehicle currently driving
-  targetEntityId?: string; // ID of entity interacting with
-  inventory?: string[];
+  targetEntityId?: string; // ID of entity interacting with (for police officers: their cruiser; for pedestrians: who they're fighting)
+  inventory?: string[]; // Weapons carried, in weapon wheel order
+  weaponSlot?: number; // Index into inventory of the weapon in hand (default 0)
+  ammo?: Partial<Record<WeaponType, WeaponAmmo>>; // Absent: never runs dry (NPCs)
   targetPos?: Vector3; // AI Pathfinding
   faction?: 'civilian' | 'groves' | 'ballas' | 'police';
   propType?: 'tree' | 'streetlight' | 'hydrant' | 'sign'; // Specific for PROPs
+  vehicleClass?: VehicleClass; // Vehicles: which catalogue entry (default sedan)
   // Visual variations
-  buildingType?: 'skyscraper' | 'residential' | 'commercial' | 'industrial';
+  buildingType?: 'skyscraper' | 'residential' | 'commercial' | 'industrial' | 'hospital' | 'police_station'; // Services turn rotation.y to face their street
   accessory?: 'hat' | 'backpack' | 'bandana' | 'none';
+  // Simulation bookkeeping
+  lastAttackTime?: number; // Sim clock (s) of the last shot or punch
+  comboCount?: number; // Melee combo step (0-3)
+  stateTimer?: number; // Seconds left in a timed state (punching, dead, fleeing)
+  killedBy?: string; // The dead: ID of whoever landed the blow or shot that finished them, if anyone did
+  fleeFrom?: Vector3; // Pedestrians: where the danger they're running from was
+  reportTimer?: number; // Pedestrians: seconds until their call to the police gets through
+  coverPos?: Vector3; // Armed fighters: the spot behind a building or car they're ducking to
+  coverTimer?: number; // Armed fighters: seconds until they next break cover, or look for it again
+  reloadTimer?: number; // Seconds until the weapon in hand is reloaded
+  burnTimer?: number; // Vehicles: seconds until a burning car explodes
+  breath?: number; // Player: seconds of air left, while in the water
+  armor?: number; // Soaks up bullets and blows before health is touched
+  supply?: SupplyType; // ITEM_WEAPON pickups carrying armour or first aid instead of a gun
+  stamina?: number; // Player: what's left for sprinting
+  maxStamina?: number; // Player: the stat, which grows with time spent sprinting
+  damage?: number; // Projectiles: damage on hit
+  range?: number; // Projectiles: metres left before the round is spent
+}
+
+export interface WeaponAmmo {
+  clip: number;    // Rounds in the magazine
+  reserve: number; // Rounds carried for reloads
 }
 
 export interface GameMap {
@@ -56,25 +82,179 @@ export interface GameMap {
   tileSize: number;
   tiles: TileType[][];
   elevations: number[][]; // Height map for 3D
+  seed: number; // World generation seed the map was built from
+}
+
+export interface MapMarker {
+  id: string;
+  pos: Vector3;
+  kind: 'objective' | 'waypoint';
+  label?: string;
+}
+
+// --- Missions (plain data so an active mission survives save/load) ---
+
+// Ways an objective can fail besides the mission-wide ones (dying, time limit)
+export interface FailConditions {
+  wanted?: boolean;          // Any wanted level
+  leaveVehicle?: boolean;    // Exiting the mission vehicle
+  vehicleDestroyed?: boolean;
+  crash?: boolean;           // Sudden loss of speed in the mission vehicle
+  actorArrives?: { id: string; text: string }; // A mission actor reaching the end of its path/target
+  anyLooterArrives?: string; // Failure text when any looter reaches its target
+}
+
+interface ObjectiveBase {
+  text: string;       // Shown in the HUD while this objective is current
+  timeLimit?: number; // Seconds allowed for this objective
+  fail?: FailConditions;
+}
+
+export type Objective = ObjectiveBase & (
+  | { type: 'goto'; target: Vector3; radius: number; inVehicle?: boolean; missionVehicle?: boolean } // missionVehicle: arrive in mission.vehicleId
+  | { type: 'kill'; targetIds: string[] }
+  | { type: 'stealVehicle'; color: string; vehicleClass?: VehicleClass; hintId?: string } // Any car of this colour (and class, if given) becomes the mission vehicle
+  | { type: 'enterVehicle' }                                  // Any car becomes the mission vehicle
+  | { type: 'survive'; duration: number }
+  | { type: 'escort'; escortId: string; target: Vector3; radius: number; maxDistance: number }
+  | { type: 'checkpoints'; points: Vector3[]; radius: number }
+  | { type: 'speed'; minSpeed: number; duration: number }
+  | { type: 'scout'; points: Vector3[]; radius: number }
+);
+
+export type ActorBehaviour = 'hostile' | 'looter' | 'follow' | 'drive';
+
+export interface MissionActor {
+  id: string;
+  behaviour: ActorBehaviour;
+  activeFrom?: number; // Objective index the actor starts acting on (default 0)
+  path?: Vector3[];    // 'drive' and 'looter': road route to follow
+  pathIndex?: number;
+  speed?: number;      // m/s
+  target?: Vector3;    // 'looter': where they are heading
+  arrived?: boolean;   // Reached the end of their path / target
+}
+
+// Spawns actors in waves while the objective it belongs to is current
+export interface MissionSpawner {
+  objective: number;
+  every: number;   // Seconds between waves
+  timer: number;
+  count: number;   // Actors per wave
+  origin: Vector3;
+  target: Vector3;
+  behaviour: 'hostile' | 'looter';
+  faction: 'civilian' | 'groves' | 'ballas';
+}
+
+export interface ActiveMission {
+  id: string;
+  title: string;
+  reward: number;
+  objectives: Objective[];
+  index: number;      // Current objective
+  elapsed: number;    // Seconds spent on the current objective
+  progress: number;   // Objective-specific counter (checkpoints passed, seconds at speed, ...)
+  visited: number[];  // 'scout' points already seen
+  vehicleId: string | null;
+  actors: MissionActor[];
+  spawner?: MissionSpawner;
+  lastSpeed: number;  // Mission vehicle speed last step, for crash detection
+}
+
+export interface MissionResult {
+  passed: boolean;
+  title: string;
+  text: string;
+  heading?: string; // Replaces "Mission Passed!" / "Mission Failed!" for results that aren't missions
+}
+
+export type Gang = 'groves' | 'ballas';
+
+// A city block claimed by a gang; tile bounds are inclusive-exclusive like districts
+export interface Territory {
+  id: string;
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+  owner: Gang;
+}
+
+// The player's gang trying to take a territory: survive every wave of defenders to flip it
+export interface GangWar {
+  territoryId: string;
+  attacker: Gang;
+  defender: Gang;
+  wave: number;        // 1-based; 0 until the first wave arrives
+  waves: number;
+  memberIds: string[]; // The current wave
+  remaining: number;   // Current wave members still standing
+  timer: number;       // Seconds until the next wave
+  outside: number;     // Seconds the player has been out of the territory
+}
+
+// How the police hunt for a wanted player; reset on load, dispatch picks up from wantedLevel
+export interface PursuitState {
+  lastSeen: Vector3 | null; // Where the police last had eyes on (or a report of) the player
+  searchTime: number;       // Seconds since the player was last seen
+  searching: boolean;       // Line of sight broken: stars are decaying
+  dispatchTimer: number;    // Seconds until the next reinforcement check
+  arrestTime: number;       // Seconds an officer has had hold of the player
+}
+
+// What going down costs: worked out as it happens, for the wasted/busted screen, and settled on respawn
+export interface Penalty {
+  cause: string; // How the player was wasted (a DamageCause), or 'busted'
+  fee: number; // Hospital bill or bail, already capped at what they had
+  confiscated: WeaponType[]; // Taken off them by the police
 }
 
 export interface GameState {
   player: Entity;
   entities: Entity[];
   map: GameMap;
+  seed: number;
   timeOfDay: number; // 0 - 1440 minutes
   money: number;
   wantedLevel: number;
+  pursuit: PursuitState;
   dialogue: { speaker: string; text: string } | null;
-  mission: string | null;
+  mission: ActiveMission | null;
+  missionResult?: MissionResult | null; // Last pass/fail, shown briefly by the HUD
   paused: boolean;
   meleeCombo?: number; // Current melee combo count (0-3)
+  clock: number; // Simulation time in seconds
+  tick: number; // Steps simulated so far (seeds per-step randomness)
+  markers: MapMarker[]; // Points of interest shown on the radar and map
+  route: Vector3[] | null; // GPS path to the waypoint; the first segment is the one the player is on
+  turf: Territory[];
+  gangWar: GangWar | null;
+  penalty?: Penalty | null; // While wasted or busted
 }
 
 export enum WeaponType {
   FIST = 'Fist',
   PISTOL = 'Pistol',
-  UZI = 'Uzi'
+  UZI = 'Uzi',
+  SHOTGUN = 'Shotgun'
+}
+
+// Pickups that patch the player up rather than arm them
+export enum SupplyType {
+  ARMOR = 'Body Armour',
+  HEALTH = 'Health Pack'
+}
+
+export enum VehicleClass {
+  SEDAN = 'Sedan',
+  SPORTS = 'Sports',
+  PICKUP = 'Pickup',
+  BOX_TRUCK = 'Box Truck',
+  BUS = 'Bus',
+  MOTORBIKE = 'Motorbike',
+  POLICE = 'Police Cruiser',
+  BOAT = 'Speedboat'
 }
 
 export interface GameSettings {
@@ -87,6 +267,7 @@ export interface GameSettings {
     resolution: string; 
     quality: 'Low' | 'Medium' | 'High' | 'Ultra';
     vsync: boolean;
+    frameCap: number; // Max FPS, 0 = uncapped
     ambientOcclusion: boolean;
     bloom: boolean;
   };
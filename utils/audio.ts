@@ -1,3 +1,6 @@
+import { WeaponSound } from '../simulation/weapons';
+import { ImpactMaterial } from '../simulation/types';
+
 // Notes Frequencies
 const NOTES: Record<string, number> = {
   'C2': 65.41, 'D2': 73.42, 'E2': 82.41, 'F2': 87.31, 'G2': 98.00, 'A2': 110.00, 'B2': 123.47,
@@ -8,6 +11,29 @@ const NOTES: Record<string, number> = {
 
 type MusicTheme = 'intro' | 'exploration' | 'combat' | 'none';
 
+// Noise burst and low thump per gun; lengths in seconds, frequencies in Hz
+const SHOT_SOUNDS: Record<Exclude<WeaponSound, 'punch'>, { length: number; cutoff: number; gain: number; thump: number; thumpLength: number }> = {
+  pistol: { length: 0.4, cutoff: 2000, gain: 0.8, thump: 150, thumpLength: 0.2 },
+  smg: { length: 0.15, cutoff: 3200, gain: 0.5, thump: 220, thumpLength: 0.08 },
+  shotgun: { length: 0.6, cutoff: 1200, gain: 1.0, thump: 90, thumpLength: 0.35 }
+};
+
+// Filtered noise tick per surface a bullet hits; metal rings, soft things thud
+const IMPACT_SOUNDS: Record<ImpactMaterial, { length: number; filter: BiquadFilterType; freq: number; gain: number }> = {
+  concrete: { length: 0.08, filter: 'bandpass', freq: 2500, gain: 0.25 },
+  metal: { length: 0.15, filter: 'highpass', freq: 4000, gain: 0.3 },
+  wood: { length: 0.1, filter: 'lowpass', freq: 1200, gain: 0.25 },
+  flesh: { length: 0.1, filter: 'lowpass', freq: 400, gain: 0.35 },
+  rock: { length: 0.08, filter: 'bandpass', freq: 1500, gain: 0.2 }
+};
+
+// Jumping in is a big wet crash; ducking under and coming up are softer gulps
+const SPLASH_SOUNDS: Record<'enter' | 'dive' | 'surface', { length: number; from: number; to: number; gain: number }> = {
+  enter: { length: 0.6, from: 2500, to: 300, gain: 0.4 },
+  dive: { length: 0.3, from: 900, to: 200, gain: 0.2 },
+  surface: { length: 0.35, from: 400, to: 1800, gain: 0.2 }
+};
+
 class MusicEngine {
   ctx: AudioContext;
   master: GainNode;
@@ -328,11 +354,13 @@ export class AudioManager {
   
     // --- SFX ---
 
-    playShot() {
+    playShot(sound: WeaponSound = 'pistol') {
       if (!this.initialized) return;
+      if (sound === 'punch') { this.playUI('punch'); return; }
+      const shape = SHOT_SOUNDS[sound];
       const t = this.ctx.currentTime;
       // Gunshot: Noise burst + Punch
-      const bSize = this.ctx.sampleRate * 0.4;
+      const bSize = this.ctx.sampleRate * shape.length;
       const b = this.ctx.createBuffer(1, bSize, this.ctx.sampleRate);
       const d = b.getChannelData(0);
       for(let i=0; i<bSize; i++) d[i] = (Math.random()*2-1) * Math.pow(1-i/bSize, 4);
@@ -340,22 +368,70 @@ export class AudioManager {
       n.buffer = b;
       
       const f = this.ctx.createBiquadFilter();
-      f.type = 'lowpass'; f.frequency.value = 2000;
+      f.type = 'lowpass'; f.frequency.value = shape.cutoff;
 
       const g = this.ctx.createGain();
-      g.gain.setValueAtTime(0.8 * this.sfxVol, t);
+      g.gain.setValueAtTime(shape.gain * this.sfxVol, t);
       n.connect(f); f.connect(g); g.connect(this.master);
       n.start(t);
 
       // Punch
       const osc = this.ctx.createOscillator();
-      osc.frequency.setValueAtTime(150, t);
-      osc.frequency.exponentialRampToValueAtTime(10, t+0.2);
+      osc.frequency.setValueAtTime(shape.thump, t);
+      osc.frequency.exponentialRampToValueAtTime(10, t+shape.thumpLength);
       const og = this.ctx.createGain();
-      og.gain.setValueAtTime(0.8 * this.sfxVol, t);
-      og.gain.exponentialRampToValueAtTime(0.01, t+0.2);
+      og.gain.setValueAtTime(shape.gain * this.sfxVol, t);
+      og.gain.exponentialRampToValueAtTime(0.01, t+shape.thumpLength);
       osc.connect(og); og.connect(this.master);
-      osc.start(t); osc.stop(t+0.2);
+      osc.start(t); osc.stop(t+shape.thumpLength);
+    }
+
+    playExplosion(volume = 1) {
+        if (!this.initialized || volume <= 0) return;
+        const t = this.ctx.currentTime;
+        // Long rumbling noise tail over a deep falling boom
+        const bSize = this.ctx.sampleRate * 1.5;
+        const b = this.ctx.createBuffer(1, bSize, this.ctx.sampleRate);
+        const d = b.getChannelData(0);
+        for(let i=0; i<bSize; i++) d[i] = (Math.random()*2-1) * Math.pow(1-i/bSize, 2);
+        const n = this.ctx.createBufferSource();
+        n.buffer = b;
+        const f = this.ctx.createBiquadFilter();
+        f.type = 'lowpass'; f.frequency.setValueAtTime(1500, t);
+        f.frequency.exponentialRampToValueAtTime(200, t+1.5);
+        const g = this.ctx.createGain();
+        g.gain.setValueAtTime(1.0 * volume * this.sfxVol, t);
+        n.connect(f); f.connect(g); g.connect(this.master);
+        n.start(t);
+
+        const osc = this.ctx.createOscillator();
+        osc.frequency.setValueAtTime(80, t);
+        osc.frequency.exponentialRampToValueAtTime(20, t+0.8);
+        const og = this.ctx.createGain();
+        og.gain.setValueAtTime(1.0 * volume * this.sfxVol, t);
+        og.gain.exponentialRampToValueAtTime(0.01, t+0.8);
+        osc.connect(og); og.connect(this.master);
+        osc.start(t); osc.stop(t+0.8);
+    }
+
+    playSplash(kind: 'enter' | 'dive' | 'surface') {
+        if (!this.initialized) return;
+        const shape = SPLASH_SOUNDS[kind];
+        const t = this.ctx.currentTime;
+        // Noise through a sweeping lowpass: bright at the impact, muffled as the water closes
+        const bSize = this.ctx.sampleRate * shape.length;
+        const b = this.ctx.createBuffer(1, bSize, this.ctx.sampleRate);
+        const d = b.getChannelData(0);
+        for(let i=0; i<bSize; i++) d[i] = (Math.random()*2-1) * Math.pow(1-i/bSize, 2);
+        const n = this.ctx.createBufferSource();
+        n.buffer = b;
+        const f = this.ctx.createBiquadFilter();
+        f.type = 'lowpass'; f.frequency.setValueAtTime(shape.from, t);
+        f.frequency.exponentialRampToValueAtTime(shape.to, t+shape.length);
+        const g = this.ctx.createGain();
+        g.gain.setValueAtTime(shape.gain * this.sfxVol, t);
+        n.connect(f); f.connect(g); g.connect(this.master);
+        n.start(t);
     }
 
     playReload() {
@@ -372,6 +448,25 @@ export class AudioManager {
             osc.start(t+dt); osc.stop(t+dt+0.05);
         });
     }
+
+    playImpact(material: ImpactMaterial, volume = 1) {
+        if (!this.initialized || volume <= 0) return;
+        const shape = IMPACT_SOUNDS[material];
+        const t = this.ctx.currentTime;
+        const bSize = this.ctx.sampleRate * shape.length;
+        const b = this.ctx.createBuffer(1, bSize, this.ctx.sampleRate);
+        const d = b.getChannelData(0);
+        for(let i=0; i<bSize; i++) d[i] = (Math.random()*2-1) * Math.pow(1-i/bSize, 3);
+        const n = this.ctx.createBufferSource();
+        n.buffer = b;
+
+        const f = this.ctx.createBiquadFilter();
+        f.type = shape.filter; f.frequency.value = shape.freq;
+        const g = this.ctx.createGain();
+        g.gain.setValueAtTime(shape.gain * volume * this.sfxVol, t);
+        n.connect(f); f.connect(g); g.connect(this.master);
+        n.start(t);
+    }
   
     playStep(surface: 'road' | 'grass' = 'road') {
       if (!this.initialized) return;
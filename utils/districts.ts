@@ -0,0 +1,45 @@
+import { GameMap, Gang, TileType, Vector3, VehicleClass } from '../types';
+import { worldToTile } from './pathfinding';
+
+export interface District {
+    id: string;
+    name: string;
+    // Inclusive-exclusive tile bounds
+    minX: number;
+    minZ: number;
+    maxX: number;
+    maxZ: number;
+    gang?: Gang; // Home turf: every block starts out theirs
+    traffic?: VehicleClass[]; // What's driven and parked here, weighted by repetition
+}
+
+const { SEDAN, SPORTS, PICKUP, BOX_TRUCK, BUS, MOTORBIKE } = VehicleClass;
+
+// Checked in order, so smaller districts must come before the ones they sit inside
+export const DISTRICTS: District[] = [
+    { id: 'mount', name: 'Mount Reactos', minX: 62, minZ: 12, maxX: 88, maxZ: 38,
+        traffic: [PICKUP, PICKUP, PICKUP, MOTORBIKE, MOTORBIKE, SEDAN] },
+    { id: 'downtown', name: 'Downtown', minX: 42, minZ: 42, maxX: 59, maxZ: 59,
+        traffic: [SEDAN, SEDAN, SEDAN, SPORTS, SPORTS, BUS, BUS, BOX_TRUCK, MOTORBIKE] },
+    { id: 'docks', name: 'Ocean Docks', minX: 12, minZ: 78, maxX: 88, maxZ: 88,
+        traffic: [BOX_TRUCK, BOX_TRUCK, BOX_TRUCK, PICKUP, PICKUP, PICKUP, SEDAN] },
+    { id: 'grove', name: 'Grove Street', minX: 12, minZ: 50, maxX: 50, maxZ: 78, gang: 'groves',
+        traffic: [SEDAN, SEDAN, SEDAN, PICKUP, PICKUP, MOTORBIKE, MOTORBIKE] },
+    { id: 'eastside', name: 'East Side', minX: 50, minZ: 50, maxX: 88, maxZ: 78, gang: 'ballas',
+        traffic: [SEDAN, SEDAN, SEDAN, SPORTS, PICKUP, MOTORBIKE, MOTORBIKE] },
+    { id: 'northside', name: 'Northside', minX: 12, minZ: 12, maxX: 88, maxZ: 50,
+        traffic: [SEDAN, SEDAN, SEDAN, PICKUP, PICKUP, SPORTS, BOX_TRUCK, BUS] }
+];
+
+export const OCEAN_NAME = 'Reactos Bay';
+export const FALLBACK_NAME = 'Los Reactos';
+
+export const getDistrictAtTile = (tileX: number, tileZ: number): District | null =>
+    DISTRICTS.find(d => tileX >= d.minX && tileX < d.maxX && tileZ >= d.minZ && tileZ < d.maxZ) ?? null;
+
+// Human-readable place name for a world position (open water wins over district bounds)
+export const getLocationName = (pos: Vector3, map: GameMap): string => {
+    const { x, z } = worldToTile(pos, map);
+    if (map.tiles[z]?.[x] === TileType.WATER) return OCEAN_NAME;
+    return getDistrictAtTile(x, z)?.name ?? FALLBACK_NAME;
+};
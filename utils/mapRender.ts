@@ -0,0 +1,153 @@
+import { Entity, EntityType, GameMap, GangWar, Territory, TileType, Vector3 } from '../types';
+import { FACTION_COLORS } from '../constants';
+
+// Flatter palette than WORLD_COLORS so blips read clearly on top
+export const MAP_COLORS: Record<TileType, string> = {
+    [TileType.GRASS]: '#1f3b2c',
+    [TileType.ROAD]: '#9ca3af',
+    [TileType.WATER]: '#1e3a8a',
+    [TileType.SIDEWALK]: '#4b5563',
+    [TileType.SAND]: '#a8925a',
+    [TileType.MOUNTAIN]: '#57534e',
+    [TileType.FLOOR]: '#3f3f46'
+};
+
+export const OBJECTIVE_COLOR = '#facc15';
+export const WAYPOINT_COLOR = '#f472b6';
+export const ROUTE_COLOR = '#f472b6';
+
+const images = new WeakMap<GameMap, HTMLCanvasElement>();
+
+/**
+ * One pixel per tile, cached per map. Pixel (x, z) is tile (x, z), whose centre sits at world (x, z) * tileSize,
+ * so draw it offset by half a tile when mapping world units onto it.
+ */
+export const getMapImage = (map: GameMap): HTMLCanvasElement => {
+    let canvas = images.get(map);
+    if (canvas) return canvas;
+
+    canvas = document.createElement('canvas');
+    canvas.width = map.width;
+    canvas.height = map.height;
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(map.width, map.height);
+    const rgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+    const palette = new Map(Object.entries(MAP_COLORS).map(([tile, color]) => [Number(tile), rgb(color)]));
+
+    for (let z = 0; z < map.height; z++) {
+        for (let x = 0; x < map.width; x++) {
+            const [r, g, b] = palette.get(map.tiles[z][x]) ?? [0, 0, 0];
+            const i = (z * map.width + x) * 4;
+            image.data[i] = r;
+            image.data[i + 1] = g;
+            image.data[i + 2] = b;
+            image.data[i + 3] = 255;
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+    images.set(map, canvas);
+    return canvas;
+};
+
+// Draws the tile image so that one canvas unit is one world unit
+export const drawMapImage = (ctx: CanvasRenderingContext2D, map: GameMap) => {
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(getMapImage(map), -map.tileSize / 2, -map.tileSize / 2, map.width * map.tileSize, map.height * map.tileSize);
+};
+
+const TURF_ALPHA = 0.22;
+const WAR_ALPHA = 0.5;
+
+// Gang territories tinted in their owners' colours, in world units; the one being fought over flashes
+export const drawTurf = (ctx: CanvasRenderingContext2D, map: GameMap, turf: Territory[], war: GangWar | null, time: number, lineWidth: number) => {
+    const t = map.tileSize;
+    const flash = Math.floor(time * 2) % 2 === 0;
+    ctx.lineWidth = lineWidth;
+    for (const territory of turf) {
+        const x = (territory.minX - 0.5) * t;
+        const z = (territory.minZ - 0.5) * t;
+        const w = (territory.maxX - territory.minX) * t;
+        const h = (territory.maxZ - territory.minZ) * t;
+        const color = FACTION_COLORS[territory.owner];
+        ctx.globalAlpha = war?.territoryId === territory.id && flash ? WAR_ALPHA : TURF_ALPHA;
+        ctx.fillStyle = color;
+        ctx.fillRect(x, z, w, h);
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = color;
+        ctx.strokeRect(x, z, w, h);
+    }
+};
+
+// GPS line in world units, drawn from the player so it never trails behind them
+export const drawRoute = (ctx: CanvasRenderingContext2D, route: Vector3[], from: Vector3, lineWidth: number) => {
+    if (route.length < 2) return;
+    ctx.strokeStyle = ROUTE_COLOR;
+    ctx.lineWidth = lineWidth;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.z);
+    for (let i = 1; i < route.length; i++) ctx.lineTo(route[i].x, route[i].z);
+    ctx.stroke();
+};
+
+export interface Blip {
+    color: string;
+    size: number; // Pixels
+    shape: 'dot' | 'square';
+}
+
+// What an entity looks like on the radar and pause map; null for things that aren't shown
+export const getBlip = (e: Entity, time: number): Blip | null => {
+    if (e.state === 'dead') return null;
+    if (e.vehicleId && e.type !== EntityType.VEHICLE) return null; // Riding in a car
+    const siren = Math.floor(time * 4) % 2 ? '#ef4444' : '#3b82f6';
+    switch (e.type) {
+        case EntityType.POLICE:
+            // Alternating red/blue like a light bar
+            return { color: siren, size: 4, shape: 'dot' };
+        case EntityType.GANG_MEMBER:
+            return { color: FACTION_COLORS[e.faction ?? 'civilian'], size: 4, shape: 'dot' };
+        case EntityType.VEHICLE:
+            return { color: e.faction === 'police' ? siren : '#e5e7eb', size: 4, shape: 'square' };
+        case EntityType.ITEM_WEAPON:
+            return { color: e.color, size: 5, shape: 'square' }; // Guns orange, armour blue, first aid red
+        case EntityType.BUILDING:
+            // Where the player comes round after being wasted or busted
+            if (e.buildingType === 'hospital') return { color: '#ffffff', size: 8, shape: 'square' };
+            if (e.buildingType === 'police_station') return { color: '#1d4ed8', size: 8, shape: 'square' };
+            return null;
+        default:
+            return null;
+    }
+};
+
+export const drawBlip = (ctx: CanvasRenderingContext2D, x: number, y: number, blip: Blip) => {
+    ctx.fillStyle = blip.color;
+    ctx.strokeStyle = 'rgba(0,0,0,0.8)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    if (blip.shape === 'dot') ctx.arc(x, y, blip.size / 2, 0, Math.PI * 2);
+    else ctx.rect(x - blip.size / 2, y - blip.size / 2, blip.size, blip.size);
+    ctx.fill();
+    ctx.stroke();
+};
+
+// Player arrow; `angle` is in canvas space, 0 pointing up
+export const drawPlayerArrow = (ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, size: number) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(0, -size);
+    ctx.lineTo(size * 0.7, size * 0.8);
+    ctx.lineTo(0, size * 0.4);
+    ctx.lineTo(-size * 0.7, size * 0.8);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+};
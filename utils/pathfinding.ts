@@ -0,0 +1,139 @@
+import { GameMap, TileType, Vector3 } from '../types';
+
+const SNAP_RADIUS = 20; // Tiles searched for the nearest road around each endpoint
+
+const NEIGHBOURS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+// Tiles are centred on multiples of tileSize (see CityMap), so round rather than floor
+export const worldToTile = (pos: Vector3, map: GameMap) => ({
+    x: Math.round(pos.x / map.tileSize),
+    z: Math.round(pos.z / map.tileSize)
+});
+
+const isRoad = (map: GameMap, x: number, z: number) =>
+    x >= 0 && z >= 0 && x < map.width && z < map.height && map.tiles[z][x] === TileType.ROAD;
+
+// Closest road tile by ring search, or null if there is none nearby (e.g. far out at sea)
+export const nearestRoadTile = (map: GameMap, tileX: number, tileZ: number): { x: number, z: number } | null => {
+    if (isRoad(map, tileX, tileZ)) return { x: tileX, z: tileZ };
+    for (let r = 1; r <= SNAP_RADIUS; r++) {
+        let best: { x: number, z: number } | null = null;
+        let bestDist = Infinity;
+        for (let dz = -r; dz <= r; dz++) {
+            for (let dx = -r; dx <= r; dx++) {
+                if (Math.max(Math.abs(dx), Math.abs(dz)) !== r) continue; // Ring only
+                if (!isRoad(map, tileX + dx, tileZ + dz)) continue;
+                const d = dx * dx + dz * dz;
+                if (d < bestDist) { bestDist = d; best = { x: tileX + dx, z: tileZ + dz }; }
+            }
+        }
+        if (best) return best;
+    }
+    return null;
+};
+
+// Minimal binary min-heap of tile indices keyed by f-score
+class OpenSet {
+    private items: number[] = [];
+    private scores: number[] = [];
+
+    get size() { return this.items.length; }
+
+    push(item: number, score: number) {
+        const { items, scores } = this;
+        let i = items.length;
+        items.push(item); scores.push(score);
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (scores[parent] <= scores[i]) break;
+            [items[i], items[parent]] = [items[parent], items[i]];
+            [scores[i], scores[parent]] = [scores[parent], scores[i]];
+            i = parent;
+        }
+    }
+
+    pop(): number {
+        const { items, scores } = this;
+        const top = items[0];
+        const lastItem = items.pop()!;
+        const lastScore = scores.pop()!;
+        if (items.length === 0) return top;
+        items[0] = lastItem; scores[0] = lastScore;
+        let i = 0;
+        for (;;) {
+            const l = i * 2 + 1, r = l + 1;
+            let m = i;
+            if (l < items.length && scores[l] < scores[m]) m = l;
+            if (r < items.length && scores[r] < scores[m]) m = r;
+            if (m === i) break;
+            [items[i], items[m]] = [items[m], items[i]];
+            [scores[i], scores[m]] = [scores[m], scores[i]];
+            i = m;
+        }
+        return top;
+    }
+}
+
+/**
+ * Shortest 4-connected path over ROAD tiles between the roads nearest to `from` and `to` (A*).
+ * Returns world-space points, starting at `from` and ending at `to`, or null if the roads don't connect.
+ */
+export const findRoadPath = (map: GameMap, from: Vector3, to: Vector3): Vector3[] | null => {
+    const fromTile = worldToTile(from, map);
+    const toTile = worldToTile(to, map);
+    const start = nearestRoadTile(map, fromTile.x, fromTile.z);
+    const goal = nearestRoadTile(map, toTile.x, toTile.z);
+    if (!start || !goal) return null;
+
+    const width = map.width;
+    const startIdx = start.z * width + start.x;
+    const goalIdx = goal.z * width + goal.x;
+    const cameFrom = new Int32Array(width * map.height).fill(-1);
+    const gScore = new Float64Array(width * map.height).fill(Infinity);
+    const heuristic = (idx: number) => Math.abs(idx % width - goal.x) + Math.abs(Math.floor(idx / width) - goal.z);
+
+    const open = new OpenSet();
+    gScore[startIdx] = 0;
+    open.push(startIdx, heuristic(startIdx));
+
+    while (open.size > 0) {
+        const current = open.pop();
+        if (current === goalIdx) break;
+        const cx = current % width;
+        const cz = Math.floor(current / width);
+        for (const [dx, dz] of NEIGHBOURS) {
+            const nx = cx + dx, nz = cz + dz;
+            if (!isRoad(map, nx, nz)) continue;
+            const next = nz * width + nx;
+            const g = gScore[current] + 1;
+            if (g >= gScore[next]) continue;
+            gScore[next] = g;
+            cameFrom[next] = current;
+            open.push(next, g + heuristic(next));
+        }
+    }
+    if (gScore[goalIdx] === Infinity) return null;
+
+    const tiles: number[] = [];
+    for (let idx = goalIdx; idx !== -1; idx = cameFrom[idx]) tiles.push(idx);
+    tiles.reverse();
+
+    // Keep only the corners so straight roads become single segments
+    const points: Vector3[] = [{ x: from.x, y: 0, z: from.z }];
+    for (let i = 0; i < tiles.length; i++) {
+        const prev = tiles[i - 1], cur = tiles[i], next = tiles[i + 1];
+        if (prev !== undefined && next !== undefined && cur - prev === next - cur) continue;
+        points.push({ x: (cur % width) * map.tileSize, y: 0, z: Math.floor(cur / width) * map.tileSize });
+    }
+    points.push({ x: to.x, y: 0, z: to.z });
+    return points;
+};
+
+// Distance from a point to segment AB on the XZ plane
+export const distanceToSegment = (p: Vector3, a: Vector3, b: Vector3) => {
+    const abx = b.x - a.x, abz = b.z - a.z;
+    const lenSq = abx * abx + abz * abz;
+    const t = lenSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.z - a.z) * abz) / lenSq)) : 0;
+    const dx = a.x + abx * t - p.x, dz = a.z + abz * t - p.z;
+    return Math.sqrt(dx * dx + dz * dz);
+};
@@ -1,31 +1,32 @@
 import { Entity, EntityType, Vector3 } from '../types';
+import { SpatialGrid } from './spatialGrid';
 
-const COLLISION_CHECK_RANGE = 15;
+// Height of an entity's upper face; buildings are placed by their centre, everything else stands on its position
+export const topOf = (e: Entity): number => e.type === EntityType.BUILDING ? e.pos.y + e.size.y / 2 : e.pos.y + e.size.y;
 
-export const checkCollision = (pos: Vector3, size: Vector3, entities: Entity[], selfId: string): boolean => {
+// Things with a top that can be stood on, as opposed to people
+export const isStandable = (e: Entity): boolean =>
+    e.type === EntityType.BUILDING || e.type === EntityType.PROP || e.type === EntityType.VEHICLE;
+
+// First solid thing a box at `pos` would overlap, if any. With `floor`, anything standable whose top is at or
+// below it is walked onto rather than into
+export const findCollision = (pos: Vector3, size: Vector3, index: SpatialGrid, selfId: string, floor?: number): Entity | undefined => {
     const minX = pos.x - size.x / 2;
     const maxX = pos.x + size.x / 2;
     const minZ = pos.z - size.z / 2;
     const maxZ = pos.z + size.z / 2;
 
-    for (const e of entities) {
+    // Grid only returns entities whose footprint overlaps ours; projectiles are never indexed
+    for (const e of index.queryAABB(minX, minZ, maxX, maxZ)) {
         if (e.id === selfId) continue;
-        if (e.type === EntityType.PROJECTILE) continue;
-        if (e.state === 'dead') continue;
-
-        // Optimization: Skip checking entities that are far away
-        const distX = Math.abs(e.pos.x - pos.x);
-        const distZ = Math.abs(e.pos.z - pos.z);
-        if (distX > COLLISION_CHECK_RANGE || distZ > COLLISION_CHECK_RANGE) continue;
-
-        const eMinX = e.pos.x - e.size.x / 2;
-        const eMaxX = e.pos.x + e.size.x / 2;
-        const eMinZ = e.pos.z - e.size.z / 2;
-        const eMaxZ = e.pos.z + e.size.z / 2;
-
-        if (maxX > eMinX && minX < eMaxX && maxZ > eMinZ && minZ < eMaxZ) {
-            return true;
-        }
+        if (e.state === 'dead' && e.type !== EntityType.VEHICLE) continue; // Bodies are stepped over; wrecks stay in the way
+        if (e.vehicleId === selfId) continue; // Passengers ride inside us
+        if (e.type === EntityType.ITEM_WEAPON) continue; // Pickups are walked over
+        if (floor !== undefined && isStandable(e) && topOf(e) <= floor) continue;
+        return e;
     }
-    return false;
-};
\ No newline at end of file
+    return undefined;
+};
+
+export const checkCollision = (pos: Vector3, size: Vector3, index: SpatialGrid, selfId: string, floor?: number): boolean =>
+    !!findCollision(pos, size, index, selfId, floor);
@@ -0,0 +1,53 @@
+// Seedable PRNG (mulberry32). Same seed => same sequence, on every machine.
+export interface Rng {
+    next: () => number;                          // [0, 1)
+    range: (min: number, max: number) => number; // [min, max)
+    int: (max: number) => number;                // [0, max)
+    chance: (p: number) => boolean;
+    pick: <T>(items: readonly T[]) => T;
+    id: (length?: number) => string;
+}
+
+export const createRng = (seed: number): Rng => {
+    let a = seed >>> 0;
+    const next = () => {
+        a = (a + 0x6D2B79F5) | 0;
+        let t = Math.imul(a ^ (a >>> 15), 1 | a);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    return {
+        next,
+        range: (min, max) => min + next() * (max - min),
+        int: (max) => Math.floor(next() * max),
+        chance: (p) => next() < p,
+        pick: (items) => items[Math.floor(next() * items.length)],
+        id: (length = 7) => {
+            let out = '';
+            while (out.length < length) out += Math.floor(next() * 36).toString(36);
+            return out;
+        }
+    };
+};
+
+// Derive an independent stream from a base seed (e.g. clutter scatter vs. layout)
+export const deriveSeed = (seed: number, salt: string): number => {
+    let h = seed >>> 0;
+    for (let i = 0; i < salt.length; i++) h = Math.imul(31, h) + salt.charCodeAt(i) | 0;
+    return h >>> 0;
+};
+
+// Typed seeds: plain integers are used as-is, anything else is hashed (FNV-1a)
+export const parseSeed = (input: string): number => {
+    const text = input.trim();
+    if (/^\d+$/.test(text)) return Number(text) >>> 0;
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
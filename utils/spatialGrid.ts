@@ -0,0 +1,212 @@
+import { Entity, EntityType, GameState } from '../types';
+import { TILE_SIZE } from '../constants';
+
+interface CellRange {
+    minX: number;
+    minZ: number;
+    maxX: number;
+    maxZ: number;
+    stamp: number; // Last query that returned this entity (dedup for multi-cell entities)
+    synced: number; // Last sync pass that saw this entity in the entity list
+}
+
+// Uniform grid over the XZ plane. Entities are bucketed into every cell their footprint touches.
+export class SpatialGrid {
+    cellSize: number;
+    cells = new Map<number, Set<Entity>>();
+    ranges = new Map<Entity, CellRange>();
+    private queryStamp = 0;
+    private syncPass = 0;
+
+    constructor(cellSize: number = TILE_SIZE) {
+        this.cellSize = cellSize;
+    }
+
+    private key(cx: number, cz: number) {
+        return (cx + 32768) * 65536 + (cz + 32768);
+    }
+
+    private cellOf(v: number) {
+        return Math.floor(v / this.cellSize);
+    }
+
+    private footprint(e: Entity) {
+        return {
+            minX: this.cellOf(e.pos.x - e.size.x / 2),
+            minZ: this.cellOf(e.pos.z - e.size.z / 2),
+            maxX: this.cellOf(e.pos.x + e.size.x / 2),
+            maxZ: this.cellOf(e.pos.z + e.size.z / 2)
+        };
+    }
+
+    private link(e: Entity, r: CellRange) {
+        for (let cx = r.minX; cx <= r.maxX; cx++) {
+            for (let cz = r.minZ; cz <= r.maxZ; cz++) {
+                const k = this.key(cx, cz);
+                let bucket = this.cells.get(k);
+                if (!bucket) { bucket = new Set(); this.cells.set(k, bucket); }
+                bucket.add(e);
+            }
+        }
+    }
+
+    private unlink(e: Entity, r: CellRange) {
+        for (let cx = r.minX; cx <= r.maxX; cx++) {
+            for (let cz = r.minZ; cz <= r.maxZ; cz++) {
+                const k = this.key(cx, cz);
+                const bucket = this.cells.get(k);
+                if (!bucket) continue;
+                bucket.delete(e);
+                if (bucket.size === 0) this.cells.delete(k);
+            }
+        }
+    }
+
+    has(e: Entity) {
+        return this.ranges.has(e);
+    }
+
+    insert(e: Entity) {
+        if (this.ranges.has(e)) { this.update(e); return; }
+        const r = { ...this.footprint(e), stamp: 0, synced: this.syncPass };
+        this.ranges.set(e, r);
+        this.link(e, r);
+    }
+
+    remove(e: Entity) {
+        const r = this.ranges.get(e);
+        if (!r) return;
+        this.unlink(e, r);
+        this.ranges.delete(e);
+    }
+
+    // Call after an entity moves; only touches buckets when it crosses a cell boundary
+    update(e: Entity) {
+        const r = this.ranges.get(e);
+        if (!r) { this.insert(e); return; }
+        const minX = this.cellOf(e.pos.x - e.size.x / 2);
+        const minZ = this.cellOf(e.pos.z - e.size.z / 2);
+        const maxX = this.cellOf(e.pos.x + e.size.x / 2);
+        const maxZ = this.cellOf(e.pos.z + e.size.z / 2);
+        if (minX === r.minX && minZ === r.minZ && maxX === r.maxX && maxZ === r.maxZ) return;
+        this.unlink(e, r);
+        r.minX = minX; r.minZ = minZ; r.maxX = maxX; r.maxZ = maxZ;
+        this.link(e, r);
+    }
+
+    /**
+     * Reconcile membership with the authoritative entity list: picks up spawns and drops removals.
+     * Movement is not re-checked here (most entities are static); movers call update() themselves.
+     */
+    sync(entities: Entity[]) {
+        const pass = ++this.syncPass;
+        let seen = 0;
+        for (const e of entities) {
+            if (!isIndexed(e)) continue;
+            const r = this.ranges.get(e);
+            if (r) r.synced = pass;
+            else this.insert(e);
+            seen++;
+        }
+        if (seen === this.ranges.size) return; // Nothing was removed
+        for (const [e, r] of Array.from(this.ranges)) {
+            if (r.synced !== pass) this.remove(e);
+        }
+    }
+
+    private collect(minCx: number, minCz: number, maxCx: number, maxCz: number, visit: (e: Entity) => void) {
+        const stamp = ++this.queryStamp;
+        for (let cx = minCx; cx <= maxCx; cx++) {
+            for (let cz = minCz; cz <= maxCz; cz++) {
+                const bucket = this.cells.get(this.key(cx, cz));
+                if (!bucket) continue;
+                for (const e of bucket) {
+                    const r = this.ranges.get(e)!;
+                    if (r.stamp === stamp) continue;
+                    r.stamp = stamp;
+                    visit(e);
+                }
+            }
+        }
+    }
+
+    // Entities whose XZ footprint overlaps the box
+    queryAABB(minX: number, minZ: number, maxX: number, maxZ: number): Entity[] {
+        const out: Entity[] = [];
+        this.collect(this.cellOf(minX), this.cellOf(minZ), this.cellOf(maxX), this.cellOf(maxZ), e => {
+            if (e.pos.x + e.size.x / 2 > minX && e.pos.x - e.size.x / 2 < maxX &&
+                e.pos.z + e.size.z / 2 > minZ && e.pos.z - e.size.z / 2 < maxZ) out.push(e);
+        });
+        return out;
+    }
+
+    // Entities whose centre lies within `radius` of (x, z)
+    queryRadius(x: number, z: number, radius: number): Entity[] {
+        const out: Entity[] = [];
+        const r2 = radius * radius;
+        this.collect(this.cellOf(x - radius), this.cellOf(z - radius), this.cellOf(x + radius), this.cellOf(z + radius), e => {
+            if ((e.pos.x - x) ** 2 + (e.pos.z - z) ** 2 <= r2) out.push(e);
+        });
+        return out;
+    }
+
+    /**
+     * Candidates along a ray, in the order its XZ projection walks the cells (grid DDA).
+     * Callers still run an exact test (e.g. intersectRayAABB) on the returned entities.
+     */
+    queryRay(ox: number, oz: number, dx: number, dz: number, maxDist: number): Entity[] {
+        const out: Entity[] = [];
+        const stamp = ++this.queryStamp;
+        const len = Math.sqrt(dx * dx + dz * dz);
+
+        let cx = this.cellOf(ox);
+        let cz = this.cellOf(oz);
+        const visitCell = () => {
+            const bucket = this.cells.get(this.key(cx, cz));
+            if (!bucket) return;
+            for (const e of bucket) {
+                const r = this.ranges.get(e)!;
+                if (r.stamp === stamp) continue;
+                r.stamp = stamp;
+                out.push(e);
+            }
+        };
+
+        visitCell();
+        if (len < 1e-9) return out; // Vertical ray: only the origin cell
+
+        const ux = dx / len;
+        const uz = dz / len;
+        const stepX = ux > 0 ? 1 : -1;
+        const stepZ = uz > 0 ? 1 : -1;
+        const tDeltaX = ux !== 0 ? Math.abs(this.cellSize / ux) : Infinity;
+        const tDeltaZ = uz !== 0 ? Math.abs(this.cellSize / uz) : Infinity;
+        let tMaxX = ux !== 0 ? ((ux > 0 ? (cx + 1) * this.cellSize : cx * this.cellSize) - ox) / ux : Infinity;
+        let tMaxZ = uz !== 0 ? ((uz > 0 ? (cz + 1) * this.cellSize : cz * this.cellSize) - oz) / uz : Infinity;
+
+        // maxDist is along the full 3D ray; scale to the horizontal distance covered
+        const horizontalDist = maxDist * len;
+        while (Math.min(tMaxX, tMaxZ) <= horizontalDist) {
+            if (tMaxX < tMaxZ) { cx += stepX; tMaxX += tDeltaX; }
+            else { cz += stepZ; tMaxZ += tDeltaZ; }
+            visitCell();
+        }
+        return out;
+    }
+}
+
+// Projectiles churn every frame and are never query targets, so they stay out of the index
+export const isIndexed = (e: Entity) => e.type !== EntityType.PROJECTILE;
+
+const indices = new WeakMap<GameState, SpatialGrid>();
+
+// Lazily built per game state and kept out of GameState itself so saves stay plain data
+export const getSpatialIndex = (state: GameState): SpatialGrid => {
+    let grid = indices.get(state);
+    if (!grid) {
+        grid = new SpatialGrid();
+        grid.sync(state.entities);
+        indices.set(state, grid);
+    }
+    return grid;
+};
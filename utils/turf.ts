@@ -0,0 +1,43 @@
+import { Gang, GameMap, Territory, TileType, Vector3 } from '../types';
+import { getDistrictAtTile } from './districts';
+import { Rng } from './random';
+
+const CLAIMABLE = new Set([TileType.GRASS, TileType.ROAD, TileType.SIDEWALK, TileType.FLOOR]);
+const MIN_LAND = 0.5;           // Blocks that are mostly beach, sea or mountain belong to nobody
+const GROVES_CHANCE = 0.35;     // Blocks outside a gang's home district usually start out Ballas
+
+export const rivalOf = (gang: Gang): Gang => gang === 'groves' ? 'ballas' : 'groves';
+
+/**
+ * One territory per city block, bounded by the road grid. The outermost roads are folded into
+ * the coast so the edge blocks reach the beach instead of leaving thin unclaimed strips.
+ */
+export const createTurf = (
+    tiles: TileType[][], roadLines: number[], min: number, max: number, home: { x: number; z: number }, rng: Rng
+): Territory[] => {
+    const lines = [min, ...roadLines.filter(l => l > min && l < max).slice(1, -1), max];
+    const turf: Territory[] = [];
+    for (let j = 0; j < lines.length - 1; j++) {
+        for (let i = 0; i < lines.length - 1; i++) {
+            const block = { minX: lines[i], maxX: lines[i + 1], minZ: lines[j], maxZ: lines[j + 1] };
+            let land = 0;
+            for (let z = block.minZ; z < block.maxZ; z++) {
+                for (let x = block.minX; x < block.maxX; x++) if (CLAIMABLE.has(tiles[z][x])) land++;
+            }
+            if (land < (block.maxX - block.minX) * (block.maxZ - block.minZ) * MIN_LAND) continue;
+
+            const district = getDistrictAtTile((block.minX + block.maxX) / 2, (block.minZ + block.maxZ) / 2);
+            const isHome = home.x >= block.minX && home.x < block.maxX && home.z >= block.minZ && home.z < block.maxZ;
+            const owner: Gang = isHome ? 'groves' : district?.gang ?? (rng.chance(GROVES_CHANCE) ? 'groves' : 'ballas');
+            turf.push({ id: `turf-${i}-${j}`, ...block, owner });
+        }
+    }
+    return turf;
+};
+
+export const getTerritoryAtTile = (turf: Territory[], tileX: number, tileZ: number): Territory | null =>
+    turf.find(t => tileX >= t.minX && tileX < t.maxX && tileZ >= t.minZ && tileZ < t.maxZ) ?? null;
+
+// Tiles are centred on multiples of the tile size, so round rather than floor
+export const getTerritoryAt = (turf: Territory[], map: GameMap, pos: Vector3): Territory | null =>
+    getTerritoryAtTile(turf, Math.round(pos.x / map.tileSize), Math.round(pos.z / map.tileSize));
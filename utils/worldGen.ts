@@ -1,10 +1,90 @@
-import { GameMap, TileType, Entity, EntityType, Vector3, WeaponType } from '../types';
-import { MAP_WIDTH, MAP_HEIGHT, TILE_SIZE, FACTION_COLORS } from '../constants';
+import { GameMap, TileType, Entity, EntityType, Vector3, WeaponType, Territory, VehicleClass, SupplyType } from '../types';
+import { MAP_WIDTH, MAP_HEIGHT, TILE_SIZE, FACTION_COLORS, WATER_LEVEL } from '../constants';
+import { createRng, deriveSeed } from './random';
+import { createTurf, getTerritoryAtTile } from './turf';
+import { DISTRICTS, getDistrictAtTile } from './districts';
+import { trafficAt, vehicleProps, VEHICLES } from '../simulation/vehicleClasses';
 
 // A confirmed road intersection on the island
 export const SPAWN_COORDS = { x: 50, z: 50 };
 
-export const generateWorld = (): { map: GameMap; entities: Entity[] } => {
+export interface WorldGenOptions {
+  roadInterval: number;      // Tiles between parallel roads (grid passes through SPAWN_COORDS)
+  trafficDensity: number;    // Chance of a car per road tile
+  buildingDensity: number;   // Chance of a building per inner-block tile
+  pedestrianDensity: number; // Chance of an NPC per sidewalk (road-side grass) tile
+  weaponDensity: number;     // Chance of a weapon pickup per sidewalk tile
+  supplyDensity: number;     // Chance of body armour or a health pack per sidewalk tile
+  boatDensity: number;       // Chance of a boat pulled up per stretch of open water along a beach
+}
+
+export const DEFAULT_WORLD_OPTIONS: WorldGenOptions = {
+  roadInterval: 16,
+  trafficDensity: 0.03,
+  buildingDensity: 0.6,
+  pedestrianDensity: 0.15,
+  weaponDensity: 0.006,
+  supplyDensity: 0.008,
+  boatDensity: 0.01
+};
+
+const CURB_OFFSET = 0.3; // Tiles from a sidewalk's centre towards its road
+export const LANE_OFFSET = 2.5; // World units from a road's centre line to the middle of a lane
+
+const QUAY_REACH = 3; // Tiles a quay runs out over the water
+const QUAY_CHANCE = 0.6; // Per road reaching the docks' shore
+
+const PARKED_COLORS = ['#1f2937', '#374151', '#4b5563']; // Dull paint for parked sedans
+// Weapons lying around the streets, weighted by repetition
+const PICKUP_WEAPONS = [WeaponType.PISTOL, WeaponType.PISTOL, WeaponType.PISTOL, WeaponType.UZI, WeaponType.UZI, WeaponType.SHOTGUN];
+const PICKUP_COLOR = '#fb923c';
+const GANG_ARMED_CHANCE = 0.3; // Gang members on the street carrying more than their fists
+const GANG_WEAPONS = [WeaponType.PISTOL, WeaponType.PISTOL, WeaponType.UZI];
+const SUPPLY_COLORS: Record<SupplyType, string> = { [SupplyType.ARMOR]: '#38bdf8', [SupplyType.HEALTH]: '#f43f5e' };
+const SERVICE_SPACING = 8; // Tiles kept between a district's hospital and its police station, where there's room
+
+// Who is behind the wheel of ambient traffic, weighted by repetition
+export const DRIVER_FACTIONS: ('civilian' | 'groves' | 'ballas')[] = ['civilian', 'civilian', 'civilian', 'civilian', 'groves', 'ballas'];
+
+// Every district turns its most central street-facing building into a hospital, and another a few blocks
+// off into a police station, for the player to come round at. Picks by position alone, so the same streets
+// give the same services whichever list of buildings it is handed
+export const placeServices = (buildings: Entity[], tiles: TileType[][]) => {
+  const streetSide = (e: Entity) => {
+    const x = Math.round(e.pos.x / TILE_SIZE), z = Math.round(e.pos.z / TILE_SIZE);
+    return ([[1, 0], [-1, 0], [0, 1], [0, -1]] as const).find(([dx, dz]) => tiles[z + dz * 2]?.[x + dx * 2] === TileType.ROAD);
+  };
+  const makeService = (e: Entity, buildingType: 'hospital' | 'police_station', height: number, color: string) => {
+    const [dx, dz] = streetSide(e)!;
+    Object.assign(e, {
+      buildingType, color,
+      size: { ...e.size, y: height },
+      pos: { ...e.pos, y: height / 2 },
+      rotation: { x: 0, y: Math.atan2(dx, dz), z: 0 }
+    });
+  };
+  for (const district of DISTRICTS) {
+    const cx = (district.minX + district.maxX) / 2, cz = (district.minZ + district.maxZ) / 2;
+    const tileDist = (e: Entity, x: number, z: number) => Math.hypot(e.pos.x / TILE_SIZE - x, e.pos.z / TILE_SIZE - z);
+    const candidates = buildings
+      .filter(e => getDistrictAtTile(Math.round(e.pos.x / TILE_SIZE), Math.round(e.pos.z / TILE_SIZE)) === district && streetSide(e))
+      .sort((a, b) => tileDist(a, cx, cz) - tileDist(b, cx, cz));
+    const [hospital, ...rest] = candidates;
+    if (!hospital) continue;
+    const hx = hospital.pos.x / TILE_SIZE, hz = hospital.pos.z / TILE_SIZE;
+    const station = rest.find(e => tileDist(e, hx, hz) >= SERVICE_SPACING) ?? rest[0];
+    makeService(hospital, 'hospital', 10, '#e5e7eb');
+    if (station) makeService(station, 'police_station', 8, '#1e3a8a');
+  }
+};
+
+// Every random decision is drawn from the seeded stream, so a seed fully describes a city
+export const generateWorld = (seed: number, options: Partial<WorldGenOptions> = {}): { map: GameMap; entities: Entity[]; turf: Territory[] } => {
+  const opts = { ...DEFAULT_WORLD_OPTIONS, ...options };
+  const rng = createRng(seed);
+  // Gang weapons come from their own stream, so arming the streets leaves the rest of a seed's city as it was
+  const armoury = createRng(deriveSeed(seed, 'gang-weapons'));
+
   // 1. Initialize entire map as Ocean
   const tiles: TileType[][] = Array(MAP_HEIGHT).fill(0).map(() => Array(MAP_WIDTH).fill(TileType.WATER));
   const elevations: number[][] = Array(MAP_HEIGHT).fill(0).map(() => Array(MAP_WIDTH).fill(-2));
@@ -20,7 +100,7 @@ export const generateWorld = (): { map: GameMap; entities: Entity[] } => {
       for (let x = MARGIN; x < MAP_WIDTH - MARGIN; x++) {
           // Default to Grass
           tiles[z][x] = TileType.GRASS;
-          elevations[z][x] = Math.random() * 0.3;
+          elevations[z][x] = rng.next() * 0.3;
 
           // Create irregular coastline / beaches
           const distToEdgeX = Math.min(x - MARGIN, (MAP_WIDTH - MARGIN) - x);
@@ -28,7 +108,7 @@ export const generateWorld = (): { map: GameMap; entities: Entity[] } => {
           const distToEdge = Math.min(distToEdgeX, distToEdgeZ);
 
           // Noise for shoreline irregularity
-          const noise = Math.random() * 2;
+          const noise = rng.next() * 2;
           
           if (distToEdge < 3 + noise) {
               tiles[z][x] = TileType.SAND;
@@ -40,16 +120,16 @@ export const generateWorld = (): { map: GameMap; entities: Entity[] } => {
   // 3. Mountains (Procedural Noise-ish) - Only on land
   for (let y = MARGIN + 5; y < MARGIN + 25; y++) {
     for (let x = MAP_WIDTH - MARGIN - 25; x < MAP_WIDTH - MARGIN; x++) {
-      if (tiles[y][x] !== TileType.WATER && Math.random() > 0.4) {
+      if (tiles[y][x] !== TileType.WATER && rng.next() > 0.4) {
         tiles[y][x] = TileType.MOUNTAIN;
-        elevations[y][x] = Math.random() * 20 + 5;
+        elevations[y][x] = rng.next() * 20 + 5;
       }
     }
   }
 
   // 4. Roads & City Grid
   // Align grid so it passes through SPAWN_COORDS (50, 50)
-  const roadInterval = 16;
+  const { roadInterval } = opts;
   
   for (let z = MARGIN; z < MAP_HEIGHT - MARGIN; z++) {
     for (let x = MARGIN; x < MAP_WIDTH - MARGIN; x++) {
@@ -70,26 +150,48 @@ export const generateWorld = (): { map: GameMap; entities: Entity[] } => {
     }
   }
 
+  // 4b. Gang turf, one territory per block of the road grid
+  const roadLines = Array(MAP_WIDTH).fill(0).map((_, i) => i).filter(i => Math.abs(i - SPAWN_COORDS.x) % roadInterval === 0);
+  const turf = createTurf(tiles, roadLines, MARGIN, MAP_WIDTH - MARGIN, SPAWN_COORDS, rng);
+
   // Helper
-  const addEntity = (type: EntityType, x: number, z: number, props: Partial<Entity> = {}) => {
-    // Basic ground clamp
-    const y = props.pos?.y ?? (type === EntityType.PROP ? 0 : 1.5);
+  const addEntity = (type: EntityType, x: number, z: number, props: Partial<Entity> = {}): Entity => {
+    // Everything stands on the ground; buildings pass their centre height in
+    const y = props.pos?.y ?? 0;
     
-    entities.push({
-      id: Math.random().toString(36).slice(2, 9),
+    const entity: Entity = {
+      id: rng.id(),
       type,
       pos: { x: x * TILE_SIZE, y, z: z * TILE_SIZE },
       vel: { x: 0, y: 0, z: 0 },
-      rotation: { x: 0, y: Math.random() * Math.PI * 2, z: 0 },
+      rotation: { x: 0, y: rng.next() * Math.PI * 2, z: 0 },
       health: 100,
       maxHealth: 100,
       color: '#fff',
       size: type === EntityType.VEHICLE ? { x: 2.2, y: 1.4, z: 4.8 } : { x: 0.8, y: 1.8, z: 0.8 },
       state: 'idle',
       ...props
-    });
+    };
+    entities.push(entity);
+    return entity;
   };
 
+  // 4c. Quays: where a road through the docks meets the shore, pave on down the beach and out over the water
+  const moorings: { x: number; z: number; side: number }[] = [];
+  for (const x of roadLines) {
+    let z = MAP_HEIGHT - 1;
+    while (z > 0 && tiles[z][x] !== TileType.ROAD) z--;
+    if (getDistrictAtTile(x, z)?.id !== 'docks' || !rng.chance(QUAY_CHANCE)) continue;
+    let reach = 0;
+    for (z++; z < MAP_HEIGHT && reach < QUAY_REACH; z++) {
+      if (tiles[z][x] === TileType.WATER) reach++;
+      tiles[z][x] = TileType.FLOOR;
+      elevations[z][x] = 0.2;
+    }
+    // Berths either side of the quay's end
+    moorings.push({ x, z: z - 1, side: 1 }, { x, z: z - 1, side: -1 });
+  }
+
   // 5. Populate City
   for (let z = MARGIN; z < MAP_HEIGHT - MARGIN; z++) {
     for (let x = MARGIN; x < MAP_WIDTH - MARGIN; x++) {
@@ -100,71 +202,87 @@ export const generateWorld = (): { map: GameMap; entities: Entity[] } => {
       
       if (tile === TileType.ROAD) {
          // Traffic
-         if (Math.random() < 0.03) {
+         if (rng.chance(opts.trafficDensity)) {
             const isVertical = Math.abs(x - SPAWN_COORDS.x) % roadInterval === 0;
-            addEntity(EntityType.VEHICLE, x, z, { 
-                color: ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#000000', '#ffffff', '#7c3aed'][Math.floor(Math.random() * 7)],
-                rotation: { x:0, y: isVertical ? 0 : Math.PI/2, z:0 }
+            // Either way along the road, in the right-hand lane, with someone at the wheel
+            const heading = (isVertical ? 0 : Math.PI/2) + (rng.chance(0.5) ? Math.PI : 0);
+            const pos = {
+                x: x * TILE_SIZE - Math.cos(heading) * LANE_OFFSET,
+                y: 0,
+                z: z * TILE_SIZE + Math.sin(heading) * LANE_OFFSET
+            };
+            const vehicleClass = rng.pick(trafficAt(x, z));
+            const car = addEntity(EntityType.VEHICLE, x, z, { 
+                ...vehicleProps(vehicleClass, rng.pick(VEHICLES[vehicleClass].colors)),
+                rotation: { x:0, y: heading, z:0 },
+                pos
+            });
+            const faction = rng.pick(DRIVER_FACTIONS);
+            const driver = addEntity(faction === 'civilian' ? EntityType.CIVILIAN : EntityType.GANG_MEMBER, x, z, {
+                faction,
+                color: FACTION_COLORS[faction],
+                accessory: faction === 'civilian' ? 'none' : 'bandana',
+                vehicleId: car.id,
+                pos: { ...pos }
             });
+            car.vehicleId = driver.id;
          }
       } else if (tile === TileType.GRASS) {
-          // Determine if near road (for sidewalk/props)
-          const isNearRoad = 
-             (x > 0 && tiles[z][x-1] === TileType.ROAD) ||
-             (x < MAP_WIDTH-1 && tiles[z][x+1] === TileType.ROAD) ||
-             (z > 0 && tiles[z-1][x] === TileType.ROAD) ||
-             (z < MAP_HEIGHT-1 && tiles[z+1][x] === TileType.ROAD);
+          // Determine if near road (for sidewalk/props), and which side the road is on
+          const roadSide = ([[-1, 0], [1, 0], [0, -1], [0, 1]] as const).find(([dx, dz]) => tiles[z + dz]?.[x + dx] === TileType.ROAD);
+          const isNearRoad = !!roadSide;
 
           if (isNearRoad) {
               // Street Lights & Hydrants
-              if (Math.random() < 0.15) {
-                  const isLight = Math.random() > 0.5;
+              if (rng.next() < 0.15) {
+                  const isLight = rng.next() > 0.5;
                   addEntity(EntityType.PROP, x, z, {
                       propType: isLight ? 'streetlight' : 'hydrant',
                       size: isLight ? { x: 0.5, y: 6, z: 0.5 } : { x: 0.5, y: 0.8, z: 0.5 },
                       pos: { x: x * TILE_SIZE, y: 0, z: z * TILE_SIZE }
                   });
-              } else if (Math.random() < 0.1) {
+              } else if (rng.next() < 0.1) {
                   // Street Signs
                   addEntity(EntityType.PROP, x, z, {
                       propType: 'sign',
                       size: { x: 0.5, y: 3, z: 0.5 },
-                      color: Math.random() > 0.7 ? 'red' : 'green', // Stop vs Name
-                      rotation: { x: 0, y: Math.random() * Math.PI, z: 0 },
+                      color: rng.next() > 0.7 ? 'red' : 'green', // Stop vs Name
+                      rotation: { x: 0, y: rng.next() * Math.PI, z: 0 },
                       pos: { x: x * TILE_SIZE, y: 0, z: z * TILE_SIZE }
                   });
-              } else if (Math.random() < 0.05) {
-                   // Parked Car (On sidewalk edge / shoulder)
+              } else if (rng.next() < 0.05) {
+                   // Parked Car (On sidewalk edge / shoulder); buses don't fit on the pavement
+                   const vehicleClass = rng.pick(trafficAt(x, z).filter(c => c !== VehicleClass.BUS));
                    addEntity(EntityType.VEHICLE, x, z, {
-                      color: ['#1f2937', '#374151', '#4b5563'][Math.floor(Math.random() * 3)], // Dull colors for parked
-                      rotation: { x:0, y: Math.random() * 0.5, z:0 },
+                      ...vehicleProps(vehicleClass, rng.pick(vehicleClass === VehicleClass.SEDAN ? PARKED_COLORS : VEHICLES[vehicleClass].colors)),
+                      rotation: { x:0, y: rng.next() * 0.5, z:0 },
                       pos: { x: x * TILE_SIZE, y: 0.2, z: z * TILE_SIZE } // Lifted slightly for curb
                    });
               }
           } else {
              // Buildings (Inner block) - Increased density for better visibility
-             if (Math.random() < 0.6) {
-                const rand = Math.random();
+             if (rng.chance(opts.buildingDensity)) {
+                const rand = rng.next();
                 let bType: 'skyscraper' | 'residential' | 'commercial' | 'industrial' = 'commercial';
-                let height = 6 + Math.random() * 6;
+                let height = 6 + rng.next() * 6;
                 let color = '#57534e';
 
                 if (rand > 0.94) {
                     bType = 'skyscraper';
-                    height = 25 + Math.random() * 20;
+                    height = 25 + rng.next() * 20;
                     color = '#334155';
                 } else if (rand > 0.65) {
                     bType = 'residential';
-                    height = 6 + Math.random() * 4;
-                    color = ['#9a3412', '#7c2d12', '#b45309', '#be123c'][Math.floor(Math.random() * 4)];
+                    height = 6 + rng.next() * 4;
+                    color = rng.pick(['#9a3412', '#7c2d12', '#b45309', '#be123c']);
                 } else if (rand > 0.50) {
                     bType = 'industrial';
-                    height = 8 + Math.random() * 4;
-                    color = ['#3f3f46', '#52525b', '#27272a'][Math.floor(Math.random() * 3)];
+                    height = 8 + rng.next() * 4;
+                    color = rng.pick(['#3f3f46', '#52525b', '#27272a']);
                 } else {
                     // Commercial
-                    height = 8 + Math.random() * 8;
-                    color = ['#57534e', '#52525b', '#4b5563'][Math.floor(Math.random() * 3)];
+                    height = 8 + rng.next() * 8;
+                    color = rng.pick(['#57534e', '#52525b', '#4b5563']);
                 }
 
                 addEntity(EntityType.BUILDING, x, z, { 
@@ -175,38 +293,95 @@ export const generateWorld = (): { map: GameMap; entities: Entity[] } => {
                 });
              }
              // Park Trees
-             if (Math.random() < 0.05) {
+             if (rng.next() < 0.05) {
                  addEntity(EntityType.PROP, x, z, {
                     propType: 'tree',
-                    size: { x: 3, y: 6 + Math.random()*4, z: 3 },
+                    size: { x: 3, y: 6 + rng.next()*4, z: 3 },
                     color: '#065f46',
                     pos: { x: x * TILE_SIZE, y: 0, z: z * TILE_SIZE }
                  });
              }
           }
 
-          // NPCs
-          if (Math.random() < 0.02) {
-             const factions: ('civilian' | 'groves' | 'ballas')[] = ['civilian', 'groves', 'ballas'];
-             const faction = factions[Math.floor(Math.random() * factions.length)];
+          // Weapon pickups sit on the pavement, where the player will walk over them
+          if (roadSide && rng.chance(opts.weaponDensity)) {
+             addEntity(EntityType.ITEM_WEAPON, x, z, {
+                 inventory: [rng.pick(PICKUP_WEAPONS)],
+                 color: PICKUP_COLOR,
+                 size: { x: 0.6, y: 0.6, z: 0.6 },
+                 pos: { x: (x + roadSide[0] * CURB_OFFSET) * TILE_SIZE, y: 0.6, z: (z + roadSide[1] * CURB_OFFSET) * TILE_SIZE }
+             });
+          }
+
+          // Armour and first aid go out the same way, a little along the kerb from any gun
+          if (roadSide && rng.chance(opts.supplyDensity)) {
+             const supply = rng.pick([SupplyType.ARMOR, SupplyType.HEALTH]);
+             addEntity(EntityType.ITEM_WEAPON, x, z, {
+                 supply,
+                 color: SUPPLY_COLORS[supply],
+                 size: { x: 0.6, y: 0.6, z: 0.6 },
+                 pos: {
+                     x: (x + roadSide[0] * CURB_OFFSET + roadSide[1] * CURB_OFFSET) * TILE_SIZE,
+                     y: 0.6,
+                     z: (z + roadSide[1] * CURB_OFFSET + roadSide[0] * CURB_OFFSET) * TILE_SIZE
+                 }
+             });
+          }
+
+          // NPCs: pedestrians start at the curb, clear of the street furniture at the tile centre
+          if (roadSide && rng.chance(opts.pedestrianDensity)) {
+             // Gang members on claimed turf wear the colours of whoever holds it
+             const owner = getTerritoryAtTile(turf, x, z)?.owner;
+             const factions: ('civilian' | 'groves' | 'ballas')[] = owner ? ['civilian', owner, owner] : ['civilian', 'groves', 'ballas'];
+             const faction = rng.pick(factions);
              
              let accessory: 'none' | 'hat' | 'backpack' | 'bandana' = 'none';
-             if (faction === 'groves' || faction === 'ballas') accessory = 'bandana';
-             else if (Math.random() > 0.7) accessory = 'backpack';
+             let inventory: string[] | undefined;
+             if (faction === 'groves' || faction === 'ballas') {
+                 accessory = 'bandana';
+                 if (armoury.chance(GANG_ARMED_CHANCE)) inventory = [armoury.pick(GANG_WEAPONS)];
+             } else if (rng.next() > 0.7) accessory = 'backpack';
 
              addEntity(EntityType.GANG_MEMBER, x, z, { 
                  faction, 
                  color: FACTION_COLORS[faction],
                  type: faction === 'civilian' ? EntityType.CIVILIAN : EntityType.GANG_MEMBER,
-                 accessory
+                 accessory,
+                 inventory,
+                 pos: { x: (x + roadSide[0] * CURB_OFFSET) * TILE_SIZE, y: 0, z: (z + roadSide[1] * CURB_OFFSET) * TILE_SIZE }
              });
           }
       }
     }
   }
 
+  // 5b. Services
+  placeServices(entities.filter(e => e.type === EntityType.BUILDING), tiles);
+
+  // 6. Boats: tied up at the quays and pulled up along the beaches, bow out to sea
+  const addBoat = (x: number, z: number, heading: number, pos: Vector3) =>
+    addEntity(EntityType.VEHICLE, x, z, {
+      ...vehicleProps(VehicleClass.BOAT, rng.pick(VEHICLES[VehicleClass.BOAT].colors)),
+      rotation: { x: 0, y: heading, z: 0 },
+      pos
+    });
+  for (const { x, z, side } of moorings) {
+    if (tiles[z][x + side] !== TileType.WATER) continue;
+    addBoat(x + side, z, 0, { x: x * TILE_SIZE + side * (TILE_SIZE / 2 + 1.4), y: WATER_LEVEL, z: z * TILE_SIZE });
+  }
+  for (let z = 1; z < MAP_HEIGHT - 1; z++) {
+    for (let x = 1; x < MAP_WIDTH - 1; x++) {
+      if (tiles[z][x] !== TileType.WATER) continue;
+      const shore = ([[-1, 0], [1, 0], [0, -1], [0, 1]] as const).find(([dx, dz]) => tiles[z + dz][x + dx] === TileType.SAND);
+      if (shore && rng.chance(opts.boatDensity)) {
+        addBoat(x, z, Math.atan2(-shore[0], -shore[1]), { x: x * TILE_SIZE, y: WATER_LEVEL, z: z * TILE_SIZE });
+      }
+    }
+  }
+
   return {
-    map: { width: MAP_WIDTH, height: MAP_HEIGHT, tileSize: TILE_SIZE, tiles, elevations },
-    entities
+    map: { width: MAP_WIDTH, height: MAP_HEIGHT, tileSize: TILE_SIZE, tiles, elevations, seed },
+    entities,
+    turf
   };
 };
\ No newline at end of file